@@ -1,20 +1,149 @@
 import sqlite3 from 'sqlite3';
 import { open } from 'sqlite';
 import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
+import { dirname, join, resolve } from 'path';
 import bcrypt from 'bcryptjs';
+import { DEFAULT_ROLES } from '../middleware/permissions.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// How long a connection waits for another writer before giving up
+const BUSY_TIMEOUT_MS = 5000;
+
 let db;
+let dbPath;
+let transactionDb;
+let transactionQueue = Promise.resolve();
 
 export const getDatabase = () => db;
 
+// Run callback inside a write transaction on a dedicated connection.
+// Transactions are queued so only one is open at a time, and statements issued
+// by other requests on the shared connection never end up inside it.
+// Any error thrown by callback rolls the whole transaction back.
+export const withTransaction = (callback) => {
+  const run = async () => {
+    if (!transactionDb) {
+      transactionDb = await open({
+        filename: dbPath,
+        driver: sqlite3.Database
+      });
+      transactionDb.configure('busyTimeout', BUSY_TIMEOUT_MS);
+    }
+
+    try {
+      await transactionDb.exec('BEGIN IMMEDIATE');
+      const result = await callback(transactionDb);
+      await transactionDb.exec('COMMIT');
+      return result;
+    } catch (error) {
+      await transactionDb.exec('ROLLBACK').catch(() => {});
+      throw error;
+    }
+  };
+
+  const result = transactionQueue.then(run, run);
+  transactionQueue = result.catch(() => {});
+  return result;
+};
+
+// Shared by createTables and the migration that widens reference_type
+const inventoryTransactionsTableSql = (tableName) => `
+  CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    product_id INTEGER NOT NULL,
+    transaction_type TEXT NOT NULL CHECK (transaction_type IN ('in', 'out', 'adjustment')),
+    quantity INTEGER NOT NULL,
+    reference_type TEXT CHECK (reference_type IN ('order', 'manual', 'return', 'purchase_order')),
+    reference_id INTEGER,
+    balance_after INTEGER,
+    reason TEXT,
+    notes TEXT,
+    created_by INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (product_id) REFERENCES products (id),
+    FOREIGN KEY (created_by) REFERENCES users (id)
+  )
+`;
+
+// Shared by createTables and the migration that adds the agency approval statuses
+const ordersTableSql = (tableName) => `
+  CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    order_number TEXT UNIQUE NOT NULL,
+    user_id INTEGER NOT NULL,
+    agency_id INTEGER,
+    project_id INTEGER,
+    status TEXT NOT NULL CHECK (status IN (
+      'awaiting_agency_approval', 'pending', 'approved', 'processing', 'partially_shipped', 'shipped',
+      'delivered', 'cancelled', 'rejected'
+    )),
+    subtotal_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(10,2) NOT NULL,
+    shipping_address TEXT,
+    delivery_region TEXT,
+    notes TEXT,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users (id),
+    FOREIGN KEY (agency_id) REFERENCES agencies (id),
+    FOREIGN KEY (project_id) REFERENCES projects (id)
+  )
+`;
+
+// Shared by createTables and the migration that drops the fixed role list
+const usersTableSql = (tableName) => `
+  CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT UNIQUE NOT NULL,
+    email TEXT UNIQUE NOT NULL,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL,
+    name TEXT NOT NULL,
+    agency_id INTEGER,
+    agency_role TEXT CHECK (agency_role IN ('requester', 'approver', 'viewer')),
+    phone TEXT,
+    address TEXT,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'disabled')),
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (role) REFERENCES roles (name),
+    FOREIGN KEY (agency_id) REFERENCES agencies (id)
+  )
+`;
+
+const invitationsTableSql = (tableName) => `
+  CREATE TABLE IF NOT EXISTS ${tableName} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    token_hash TEXT UNIQUE NOT NULL,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL,
+    agency_id INTEGER,
+    agency_role TEXT CHECK (agency_role IN ('requester', 'approver', 'viewer')),
+    expires_at DATETIME NOT NULL,
+    accepted_at DATETIME,
+    accepted_user_id INTEGER,
+    revoked_at DATETIME,
+    created_by INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (role) REFERENCES roles (name),
+    FOREIGN KEY (agency_id) REFERENCES agencies (id),
+    FOREIGN KEY (accepted_user_id) REFERENCES users (id),
+    FOREIGN KEY (created_by) REFERENCES users (id)
+  )
+`;
+
 export const initDatabase = async () => {
   try {
+    // DB_PATH is relative to the backend directory; tests point it at a scratch database
+    dbPath = process.env.DB_PATH
+      ? resolve(__dirname, '..', process.env.DB_PATH)
+      : join(__dirname, '..', 'data', 'inventory.db');
+
     // Create data directory if it doesn't exist
-    const dataDir = join(__dirname, '..', 'data');
+    const dataDir = dirname(dbPath);
     await import('fs').then(fs => {
       if (!fs.existsSync(dataDir)) {
         fs.mkdirSync(dataDir, { recursive: true });
@@ -23,13 +152,17 @@ export const initDatabase = async () => {
 
     // Open database connection
     db = await open({
-      filename: join(dataDir, 'inventory.db'),
+      filename: dbPath,
       driver: sqlite3.Database
     });
+    db.configure('busyTimeout', BUSY_TIMEOUT_MS);
 
     // Create tables
     await createTables();
     
+    // Bring databases created by older versions up to date
+    await migrateTables();
+    
     // Seed initial data
     await seedInitialData();
     
@@ -42,23 +175,66 @@ export const initDatabase = async () => {
 };
 
 const createTables = async () => {
-  // Users table
+  // Agencies table (organizations whose staff place orders)
   await db.exec(`
-    CREATE TABLE IF NOT EXISTS users (
+    CREATE TABLE IF NOT EXISTS agencies (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      username TEXT UNIQUE NOT NULL,
-      email TEXT UNIQUE NOT NULL,
-      password_hash TEXT NOT NULL,
-      role TEXT NOT NULL CHECK (role IN ('admin', 'agency')),
-      name TEXT NOT NULL,
-      agency_name TEXT,
+      name TEXT UNIQUE NOT NULL,
+      contact_email TEXT,
       phone TEXT,
       address TEXT,
+      approval_threshold DECIMAL(10,2),
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
 
+  // Roles table (named permission sets; users.role holds the role name)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS roles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      label TEXT NOT NULL,
+      description TEXT,
+      is_system INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Role permissions table (one row per permission granted to a role)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS role_permissions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      role_id INTEGER NOT NULL,
+      permission TEXT NOT NULL,
+      UNIQUE (role_id, permission),
+      FOREIGN KEY (role_id) REFERENCES roles (id)
+    )
+  `);
+
+  // Users table
+  await db.exec(usersTableSql('users'));
+
+  // Sessions table (one row per signed-in device, holding its refresh token)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      refresh_token_hash TEXT UNIQUE NOT NULL,
+      user_agent TEXT,
+      ip_address TEXT,
+      expires_at DATETIME NOT NULL,
+      revoked_at DATETIME,
+      last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    )
+  `);
+
+  // Invitations table (admin-issued, single-use registration links)
+  await db.exec(invitationsTableSql('invitations'));
+
   // Projects table
   await db.exec(`
     CREATE TABLE IF NOT EXISTS projects (
@@ -76,12 +252,26 @@ const createTables = async () => {
     )
   `);
 
+  // Project agencies table (agencies that may order against a project)
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS project_agencies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id INTEGER NOT NULL,
+      agency_id INTEGER NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (project_id, agency_id),
+      FOREIGN KEY (project_id) REFERENCES projects (id),
+      FOREIGN KEY (agency_id) REFERENCES agencies (id)
+    )
+  `);
+
   // Categories table
   await db.exec(`
     CREATE TABLE IF NOT EXISTS categories (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       name TEXT NOT NULL UNIQUE,
       description TEXT,
+      requires_agency_approval INTEGER NOT NULL DEFAULT 0,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
@@ -97,6 +287,7 @@ const createTables = async () => {
       price DECIMAL(10,2) NOT NULL,
       cost DECIMAL(10,2),
       stock_quantity INTEGER DEFAULT 0,
+      reserved_quantity INTEGER NOT NULL DEFAULT 0,
       min_stock_level INTEGER DEFAULT 10,
       status TEXT NOT NULL CHECK (status IN ('active', 'inactive', 'discontinued')),
       image_url TEXT,
@@ -109,54 +300,295 @@ const createTables = async () => {
   `);
 
   // Orders table
+  await db.exec(ordersTableSql('orders'));
+
+  // Order items table
   await db.exec(`
-    CREATE TABLE IF NOT EXISTS orders (
+    CREATE TABLE IF NOT EXISTS order_items (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      order_number TEXT UNIQUE NOT NULL,
-      user_id INTEGER NOT NULL,
-      project_id INTEGER,
-      status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'processing', 'shipped', 'delivered', 'cancelled')),
-      total_amount DECIMAL(10,2) NOT NULL,
-      shipping_address TEXT,
+      order_id INTEGER NOT NULL,
+      product_id INTEGER NOT NULL,
+      quantity INTEGER NOT NULL,
+      reserved_quantity INTEGER NOT NULL DEFAULT 0,
+      shipped_quantity INTEGER NOT NULL DEFAULT 0,
+      returned_quantity INTEGER NOT NULL DEFAULT 0,
+      cancelled_quantity INTEGER NOT NULL DEFAULT 0,
+      unit_price DECIMAL(10,2) NOT NULL,
+      total_price DECIMAL(10,2) NOT NULL,
+      price_list_id INTEGER,
+      tax_rate_id INTEGER,
+      tax_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+      tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+      FOREIGN KEY (order_id) REFERENCES orders (id),
+      FOREIGN KEY (product_id) REFERENCES products (id),
+      FOREIGN KEY (price_list_id) REFERENCES price_lists (id),
+      FOREIGN KEY (tax_rate_id) REFERENCES tax_rates (id)
+    )
+  `);
+
+  // Price lists table; contract prices negotiated with an agency, in effect between two optional dates
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS price_lists (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      agency_id INTEGER NOT NULL,
+      contract_reference TEXT,
+      effective_from DATE,
+      effective_to DATE,
       notes TEXT,
+      created_by INTEGER NOT NULL,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (user_id) REFERENCES users (id),
-      FOREIGN KEY (project_id) REFERENCES projects (id)
+      FOREIGN KEY (agency_id) REFERENCES agencies (id),
+      FOREIGN KEY (created_by) REFERENCES users (id)
     )
   `);
 
-  // Order items table
+  // Price list items table; each row is a quantity break, the unit price from min_quantity units up
   await db.exec(`
-    CREATE TABLE IF NOT EXISTS order_items (
+    CREATE TABLE IF NOT EXISTS price_list_items (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      price_list_id INTEGER NOT NULL,
+      product_id INTEGER NOT NULL,
+      min_quantity INTEGER NOT NULL DEFAULT 1 CHECK (min_quantity > 0),
+      unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price >= 0),
+      UNIQUE (price_list_id, product_id, min_quantity),
+      FOREIGN KEY (price_list_id) REFERENCES price_lists (id),
+      FOREIGN KEY (product_id) REFERENCES products (id)
+    )
+  `);
+
+  // Tax rates table; a rate applies to a category, a delivery region, both or (with neither) everything else
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS tax_rates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      rate DECIMAL(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+      category_id INTEGER,
+      region TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (category_id) REFERENCES categories (id)
+    )
+  `);
+
+  // Shipments table; an order can leave the depot in several shipments
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS shipments (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      shipment_number TEXT UNIQUE NOT NULL,
       order_id INTEGER NOT NULL,
+      carrier TEXT,
+      tracking_number TEXT,
+      notes TEXT,
+      shipped_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders (id),
+      FOREIGN KEY (shipped_by) REFERENCES users (id)
+    )
+  `);
+
+  // Shipment items table
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS shipment_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      shipment_id INTEGER NOT NULL,
+      order_item_id INTEGER NOT NULL,
+      quantity INTEGER NOT NULL CHECK (quantity > 0),
+      FOREIGN KEY (shipment_id) REFERENCES shipments (id),
+      FOREIGN KEY (order_item_id) REFERENCES order_items (id)
+    )
+  `);
+
+  // Carts table; each user has one cart, shared by every device they sign in on
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS carts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER UNIQUE NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id)
+    )
+  `);
+
+  // Cart items table; unit_price is the price the user last saw, used to spot price changes
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS cart_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      cart_id INTEGER NOT NULL,
       product_id INTEGER NOT NULL,
-      quantity INTEGER NOT NULL,
+      quantity INTEGER NOT NULL CHECK (quantity > 0),
       unit_price DECIMAL(10,2) NOT NULL,
-      total_price DECIMAL(10,2) NOT NULL,
-      FOREIGN KEY (order_id) REFERENCES orders (id),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (cart_id, product_id),
+      FOREIGN KEY (cart_id) REFERENCES carts (id),
       FOREIGN KEY (product_id) REFERENCES products (id)
     )
   `);
 
+  // Returns table; agencies request returns (RMAs) of delivered order lines
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS returns (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      rma_number TEXT UNIQUE NOT NULL,
+      order_id INTEGER NOT NULL,
+      status TEXT NOT NULL CHECK (status IN ('requested', 'approved', 'rejected', 'received')),
+      reason TEXT NOT NULL,
+      review_notes TEXT,
+      receipt_notes TEXT,
+      credit_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+      requested_by INTEGER NOT NULL,
+      reviewed_by INTEGER,
+      reviewed_at DATETIME,
+      received_by INTEGER,
+      received_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders (id),
+      FOREIGN KEY (requested_by) REFERENCES users (id),
+      FOREIGN KEY (reviewed_by) REFERENCES users (id),
+      FOREIGN KEY (received_by) REFERENCES users (id)
+    )
+  `);
+
+  // Return items table; the disposition is decided when the goods arrive
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS return_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      return_id INTEGER NOT NULL,
+      order_item_id INTEGER NOT NULL,
+      quantity INTEGER NOT NULL CHECK (quantity > 0),
+      disposition TEXT CHECK (disposition IN ('restock', 'scrap')),
+      FOREIGN KEY (return_id) REFERENCES returns (id),
+      FOREIGN KEY (order_item_id) REFERENCES order_items (id)
+    )
+  `);
+
   // Inventory transactions table
+  await db.exec(inventoryTransactionsTableSql('inventory_transactions'));
+
+  // Suppliers table
   await db.exec(`
-    CREATE TABLE IF NOT EXISTS inventory_transactions (
+    CREATE TABLE IF NOT EXISTS suppliers (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      product_id INTEGER NOT NULL,
-      transaction_type TEXT NOT NULL CHECK (transaction_type IN ('in', 'out', 'adjustment')),
-      quantity INTEGER NOT NULL,
-      reference_type TEXT CHECK (reference_type IN ('order', 'manual', 'return')),
-      reference_id INTEGER,
+      name TEXT NOT NULL UNIQUE,
+      contact_name TEXT,
+      email TEXT,
+      phone TEXT,
+      address TEXT,
+      notes TEXT,
+      status TEXT DEFAULT 'active' CHECK (status IN ('active', 'inactive')),
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Purchase orders table
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS purchase_orders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      po_number TEXT UNIQUE NOT NULL,
+      supplier_id INTEGER NOT NULL,
+      status TEXT DEFAULT 'draft' CHECK (status IN ('draft', 'ordered', 'partially_received', 'received', 'cancelled')),
+      expected_delivery_date DATE,
+      total_amount DECIMAL(10,2) DEFAULT 0,
       notes TEXT,
       created_by INTEGER NOT NULL,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (product_id) REFERENCES products (id),
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (supplier_id) REFERENCES suppliers (id),
       FOREIGN KEY (created_by) REFERENCES users (id)
     )
   `);
 
+  // Purchase order items table
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS purchase_order_items (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      purchase_order_id INTEGER NOT NULL,
+      product_id INTEGER NOT NULL,
+      quantity_ordered INTEGER NOT NULL,
+      quantity_received INTEGER DEFAULT 0,
+      unit_cost DECIMAL(10,2) NOT NULL,
+      total_cost DECIMAL(10,2) NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders (id),
+      FOREIGN KEY (product_id) REFERENCES products (id)
+    )
+  `);
+
+  // Order status history table
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS order_status_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      order_id INTEGER NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      notes TEXT,
+      changed_by INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders (id),
+      FOREIGN KEY (changed_by) REFERENCES users (id)
+    )
+  `);
+
+  // One-time data migrations that have already been applied
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name TEXT PRIMARY KEY,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Notifications table
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      type TEXT NOT NULL,
+      title TEXT NOT NULL,
+      message TEXT,
+      product_id INTEGER,
+      read_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users (id),
+      FOREIGN KEY (product_id) REFERENCES products (id)
+    )
+  `);
+
+  // Full-text index over the product catalog, kept in sync with products and category names by triggers
+  await db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS products_fts USING fts5(
+      name, sku, category_name, description, specifications,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS products_fts_vocab USING fts5vocab(products_fts, 'row');
+
+    CREATE TRIGGER IF NOT EXISTS products_fts_insert AFTER INSERT ON products BEGIN
+      INSERT INTO products_fts (rowid, name, sku, category_name, description, specifications)
+      SELECT new.id, new.name, new.sku, (SELECT name FROM categories WHERE id = new.category_id),
+        new.description, new.specifications;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS products_fts_update AFTER UPDATE OF name, sku, category_id, description, specifications ON products BEGIN
+      DELETE FROM products_fts WHERE rowid = old.id;
+      INSERT INTO products_fts (rowid, name, sku, category_name, description, specifications)
+      SELECT new.id, new.name, new.sku, (SELECT name FROM categories WHERE id = new.category_id),
+        new.description, new.specifications;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS products_fts_delete AFTER DELETE ON products BEGIN
+      DELETE FROM products_fts WHERE rowid = old.id;
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS categories_fts_rename AFTER UPDATE OF name ON categories BEGIN
+      UPDATE products_fts SET category_name = new.name
+      WHERE rowid IN (SELECT id FROM products WHERE category_id = new.id);
+    END;
+  `);
+
   // Create indexes for better performance
   await db.exec(`
     CREATE INDEX IF NOT EXISTS idx_products_category ON products(category_id);
@@ -164,12 +596,385 @@ const createTables = async () => {
     CREATE INDEX IF NOT EXISTS idx_orders_user ON orders(user_id);
     CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
     CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id);
+    CREATE INDEX IF NOT EXISTS idx_order_items_product ON order_items(product_id);
+    CREATE INDEX IF NOT EXISTS idx_shipments_order ON shipments(order_id);
+    CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment ON shipment_items(shipment_id);
+    CREATE INDEX IF NOT EXISTS idx_returns_order ON returns(order_id);
+    CREATE INDEX IF NOT EXISTS idx_returns_status ON returns(status);
+    CREATE INDEX IF NOT EXISTS idx_return_items_return ON return_items(return_id);
+    CREATE INDEX IF NOT EXISTS idx_tax_rates_category ON tax_rates(category_id);
+    CREATE INDEX IF NOT EXISTS idx_price_lists_agency ON price_lists(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_price_list_items_product ON price_list_items(product_id);
     CREATE INDEX IF NOT EXISTS idx_inventory_transactions_product ON inventory_transactions(product_id);
+    CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id);
+    CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, read_at);
+    CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+    CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);
+    CREATE INDEX IF NOT EXISTS idx_purchase_order_items_po ON purchase_order_items(purchase_order_id);
+    CREATE INDEX IF NOT EXISTS idx_project_agencies_agency ON project_agencies(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(email);
+    CREATE INDEX IF NOT EXISTS idx_orders_project ON orders(project_id);
   `);
 
   console.log('✅ Database tables created successfully');
 };
 
+// Copy a table into a freshly created one, e.g. to change a CHECK constraint SQLite cannot alter
+const rebuildTable = async (tableName, tableSql, columns) => {
+  await db.exec('BEGIN');
+  try {
+    await db.exec(tableSql(`${tableName}_new`));
+    await db.exec(`INSERT INTO ${tableName}_new (${columns}) SELECT ${columns} FROM ${tableName}`);
+    await db.exec(`DROP TABLE ${tableName}`);
+    await db.exec(`ALTER TABLE ${tableName}_new RENAME TO ${tableName}`);
+    await db.exec('COMMIT');
+  } catch (error) {
+    await db.exec('ROLLBACK');
+    throw error;
+  }
+};
+
+// Add a column to an existing table unless it is already there
+const addColumnIfMissing = async (table, column, definition) => {
+  const columns = await db.all(`PRAGMA table_info(${table})`);
+  if (!columns.some(col => col.name === column)) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
+// Run a data migration in a transaction the first time the database starts with it, and record it
+// so it is never repeated, even if the data it looked at changes again later
+const runMigrationOnce = async (name, migrate) => {
+  const applied = await db.get('SELECT name FROM schema_migrations WHERE name = ?', [name]);
+  if (applied) {
+    return;
+  }
+  await db.exec('BEGIN');
+  try {
+    await migrate();
+    await db.run('INSERT INTO schema_migrations (name) VALUES (?)', [name]);
+    await db.exec('COMMIT');
+  } catch (error) {
+    await db.exec('ROLLBACK');
+    throw error;
+  }
+};
+
+const migrateTables = async () => {
+  // Stock level after each movement, used for stock-out reporting
+  await addColumnIfMissing('inventory_transactions', 'balance_after', 'INTEGER');
+  // Reason code for manual stock movements (received, damaged, cycle count, ...)
+  await addColumnIfMissing('inventory_transactions', 'reason', 'TEXT');
+  // Disabled accounts keep their history but can no longer sign in
+  await addColumnIfMissing('users', 'status', "TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'disabled'))");
+
+  // SQLite cannot alter a CHECK constraint, so older ledgers are copied into
+  // a table that also accepts purchase order references
+  const ledgerTable = await db.get(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'inventory_transactions'`);
+  if (!ledgerTable.sql.includes('purchase_order')) {
+    const columns = 'id, product_id, transaction_type, quantity, reference_type, reference_id, balance_after, reason, notes, created_by, created_at';
+    await db.exec('BEGIN');
+    try {
+      await db.exec(inventoryTransactionsTableSql('inventory_transactions_new'));
+      await db.exec(`INSERT INTO inventory_transactions_new (${columns}) SELECT ${columns} FROM inventory_transactions`);
+      await db.exec('DROP TABLE inventory_transactions');
+      await db.exec('ALTER TABLE inventory_transactions_new RENAME TO inventory_transactions');
+      await db.exec('CREATE INDEX IF NOT EXISTS idx_inventory_transactions_product ON inventory_transactions(product_id)');
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Movements recorded before balance_after existed get their running balance by working back
+  // from each product's current stock, newest movement first. A recorded balance re-anchors the
+  // walk; an adjustment sets stock outright, so the balance before it stays unknown until one does.
+  // Balances left unknown stay that way, so the walk only ever runs once
+  await runMigrationOnce('backfill_inventory_balances', async () => {
+    const unbalancedProducts = await db.all('SELECT DISTINCT product_id FROM inventory_transactions WHERE balance_after IS NULL');
+    for (const { product_id: productId } of unbalancedProducts) {
+      const product = await db.get('SELECT stock_quantity FROM products WHERE id = ?', [productId]);
+      let balance = product ? product.stock_quantity : null;
+      const movements = await db.all(`
+        SELECT id, transaction_type, quantity, balance_after
+        FROM inventory_transactions
+        WHERE product_id = ?
+        ORDER BY id DESC
+      `, [productId]);
+
+      for (const movement of movements) {
+        if (movement.balance_after != null) {
+          balance = movement.balance_after;
+        } else if (balance != null) {
+          await db.run('UPDATE inventory_transactions SET balance_after = ? WHERE id = ?', [balance, movement.id]);
+        }
+
+        if (balance == null || movement.transaction_type === 'adjustment') {
+          balance = null;
+        } else {
+          balance += movement.transaction_type === 'in' ? -movement.quantity : movement.quantity;
+        }
+      }
+    }
+  });
+
+  // Agencies used to be a free-text name on each user. Every distinct name
+  // becomes an agency row, and its users, orders and invitations are linked to it
+  await addColumnIfMissing('users', 'agency_id', 'INTEGER REFERENCES agencies (id)');
+  await addColumnIfMissing('users', 'agency_role', "TEXT CHECK (agency_role IN ('requester', 'approver', 'viewer'))");
+  await addColumnIfMissing('orders', 'agency_id', 'INTEGER REFERENCES agencies (id)');
+  await addColumnIfMissing('invitations', 'agency_id', 'INTEGER REFERENCES agencies (id)');
+  await addColumnIfMissing('invitations', 'agency_role', "TEXT CHECK (agency_role IN ('requester', 'approver', 'viewer'))");
+
+  const userColumns = await db.all('PRAGMA table_info(users)');
+  if (userColumns.some(col => col.name === 'agency_name')) {
+    await db.exec('BEGIN');
+    try {
+      await db.run(`
+        INSERT OR IGNORE INTO agencies (name)
+        SELECT DISTINCT TRIM(COALESCE(NULLIF(agency_name, ''), name)) FROM users WHERE role = 'agency'
+      `);
+      // Existing agency accounts were the only user of their agency, so they keep full rights
+      await db.run(`
+        UPDATE users
+        SET agency_id = (SELECT a.id FROM agencies a WHERE a.name = TRIM(COALESCE(NULLIF(users.agency_name, ''), users.name))),
+            agency_role = 'approver'
+        WHERE role = 'agency' AND agency_id IS NULL
+      `);
+      await db.exec('ALTER TABLE users DROP COLUMN agency_name');
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  const invitationColumns = await db.all('PRAGMA table_info(invitations)');
+  if (invitationColumns.some(col => col.name === 'agency_name')) {
+    await db.exec('BEGIN');
+    try {
+      await db.run(`
+        INSERT OR IGNORE INTO agencies (name)
+        SELECT DISTINCT TRIM(agency_name) FROM invitations WHERE role = 'agency' AND agency_name IS NOT NULL
+      `);
+      await db.run(`
+        UPDATE invitations
+        SET agency_id = (SELECT a.id FROM agencies a WHERE a.name = TRIM(invitations.agency_name)),
+            agency_role = 'requester'
+        WHERE role = 'agency' AND agency_id IS NULL
+      `);
+      await db.exec('ALTER TABLE invitations DROP COLUMN agency_name');
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Orders belong to the agency their requester worked for when placing them
+  await db.run(`
+    UPDATE orders
+    SET agency_id = (SELECT u.agency_id FROM users u WHERE u.id = orders.user_id)
+    WHERE agency_id IS NULL
+  `);
+
+  // Project membership moved from individual agency users to whole agencies
+  const projectMembersTable = await db.get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'project_members'`);
+  if (projectMembersTable) {
+    await db.run(`
+      INSERT OR IGNORE INTO project_agencies (project_id, agency_id)
+      SELECT pm.project_id, u.agency_id
+      FROM project_members pm
+      JOIN users u ON pm.user_id = u.id
+      WHERE u.agency_id IS NOT NULL
+    `);
+    await db.exec('DROP TABLE project_members');
+  }
+
+  // Roles used to be a fixed admin/agency list enforced by CHECK constraints
+  const usersTable = await db.get(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'users'`);
+  if (usersTable.sql.includes("CHECK (role IN")) {
+    await rebuildTable('users', usersTableSql,
+      'id, username, email, password_hash, role, name, agency_id, agency_role, phone, address, status, created_at, updated_at');
+  }
+  const invitationsTable = await db.get(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'invitations'`);
+  if (invitationsTable.sql.includes("CHECK (role IN")) {
+    await rebuildTable('invitations', invitationsTableSql,
+      'id, token_hash, email, role, agency_id, agency_role, expires_at, accepted_at, accepted_user_id, revoked_at, created_by, created_at');
+  }
+
+  // Orders used to be recorded untaxed while the cart showed a flat 8% on top. Earlier orders keep
+  // their total as their subtotal, and the flat rate becomes the default tax rate
+  const orderColumns = await db.all('PRAGMA table_info(orders)');
+  if (!orderColumns.some(col => col.name === 'tax_amount')) {
+    await db.exec('BEGIN');
+    try {
+      await db.exec('ALTER TABLE orders ADD COLUMN subtotal_amount DECIMAL(10,2) NOT NULL DEFAULT 0');
+      await db.exec('ALTER TABLE orders ADD COLUMN tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0');
+      await db.exec('ALTER TABLE orders ADD COLUMN delivery_region TEXT');
+      await db.exec('UPDATE orders SET subtotal_amount = total_amount');
+      await db.exec("INSERT INTO tax_rates (name, rate) SELECT 'Standard', 8 WHERE NOT EXISTS (SELECT 1 FROM tax_rates)");
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+  await addColumnIfMissing('order_items', 'tax_rate_id', 'INTEGER REFERENCES tax_rates (id)');
+  await addColumnIfMissing('order_items', 'tax_rate', 'DECIMAL(5,2) NOT NULL DEFAULT 0');
+  await addColumnIfMissing('order_items', 'tax_amount', 'DECIMAL(10,2) NOT NULL DEFAULT 0');
+
+  // Orders above an agency's threshold, or for flagged categories, wait for an agency approver,
+  // and orders can ship in several parts
+  await addColumnIfMissing('agencies', 'approval_threshold', 'DECIMAL(10,2)');
+  await addColumnIfMissing('categories', 'requires_agency_approval', 'INTEGER NOT NULL DEFAULT 0');
+  const ordersTable = await db.get(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'orders'`);
+  if (!ordersTable.sql.includes('partially_shipped')) {
+    await rebuildTable('orders', ordersTableSql,
+      'id, order_number, user_id, agency_id, project_id, status, subtotal_amount, tax_amount, total_amount, shipping_address, delivery_region, notes, created_at, updated_at');
+  }
+
+  // Open orders used to take stock off the shelf when placed. Their items are put back
+  // and reserved instead, so on-hand stock only drops when an order ships
+  const productColumns = await db.all('PRAGMA table_info(products)');
+  if (!productColumns.some(col => col.name === 'reserved_quantity')) {
+    await db.exec('BEGIN');
+    try {
+      await db.exec('ALTER TABLE products ADD COLUMN reserved_quantity INTEGER NOT NULL DEFAULT 0');
+      const openItems = await db.all(`
+        SELECT oi.order_id, oi.product_id, oi.quantity, o.order_number, o.user_id
+        FROM order_items oi
+        JOIN orders o ON oi.order_id = o.id
+        WHERE o.status IN ('awaiting_agency_approval', 'pending', 'approved', 'processing')
+        ORDER BY oi.id
+      `);
+      for (const item of openItems) {
+        await db.run(`
+          UPDATE products
+          SET stock_quantity = stock_quantity + ?, reserved_quantity = reserved_quantity + ?
+          WHERE id = ?
+        `, [item.quantity, item.quantity, item.product_id]);
+        const { stock_quantity: newStock } = await db.get('SELECT stock_quantity FROM products WHERE id = ?', [item.product_id]);
+        await db.run(`
+          INSERT INTO inventory_transactions (
+            product_id, transaction_type, quantity, reference_type, reference_id, balance_after, notes, created_by
+          ) VALUES (?, 'in', ?, 'order', ?, ?, ?, ?)
+        `, [item.product_id, item.quantity, item.order_id, newStock, `Order ${item.order_number} - stock reserved until shipment`, item.user_id]);
+      }
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Order lines track how much of them is reserved and shipped so orders can ship in parts
+  // and be backordered. Earlier orders were always reserved, then shipped, in full
+  const orderItemColumns = await db.all('PRAGMA table_info(order_items)');
+  if (!orderItemColumns.some(col => col.name === 'shipped_quantity')) {
+    await db.exec('BEGIN');
+    try {
+      await db.exec('ALTER TABLE order_items ADD COLUMN reserved_quantity INTEGER NOT NULL DEFAULT 0');
+      await db.exec('ALTER TABLE order_items ADD COLUMN shipped_quantity INTEGER NOT NULL DEFAULT 0');
+      await db.run(`
+        UPDATE order_items SET reserved_quantity = quantity
+        WHERE order_id IN (SELECT id FROM orders WHERE status IN ('awaiting_agency_approval', 'pending', 'approved', 'processing'))
+      `);
+      await db.run(`
+        UPDATE order_items SET shipped_quantity = quantity
+        WHERE order_id IN (SELECT id FROM orders WHERE status IN ('shipped', 'delivered'))
+      `);
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Returned units are credited against their order line
+  await addColumnIfMissing('order_items', 'returned_quantity', 'INTEGER NOT NULL DEFAULT 0');
+
+  // Units of orders closed short are cancelled rather than left backordered
+  await addColumnIfMissing('order_items', 'cancelled_quantity', 'INTEGER NOT NULL DEFAULT 0');
+
+  // Order lines record the agency price list their unit price came from
+  await addColumnIfMissing('order_items', 'price_list_id', 'INTEGER REFERENCES price_lists (id)');
+
+  // Products that existed before the full-text index was added are indexed once
+  const ftsCount = await db.get('SELECT COUNT(*) as count FROM products_fts');
+  const productCount = await db.get('SELECT COUNT(*) as count FROM products');
+  if (ftsCount.count !== productCount.count) {
+    await db.exec('BEGIN');
+    try {
+      await db.exec('DELETE FROM products_fts');
+      await db.exec(`
+        INSERT INTO products_fts (rowid, name, sku, category_name, description, specifications)
+        SELECT p.id, p.name, p.sku, c.name, p.description, p.specifications
+        FROM products p
+        LEFT JOIN categories c ON p.category_id = c.id
+      `);
+      await db.exec('COMMIT');
+    } catch (error) {
+      await db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // Create the default roles once; later edits made in the role editor are kept
+  const roleCount = await db.get('SELECT COUNT(*) as count FROM roles');
+  if (roleCount.count === 0) {
+    for (const role of DEFAULT_ROLES) {
+      const result = await db.run(`
+        INSERT INTO roles (name, label, description, is_system)
+        VALUES (?, ?, ?, ?)
+      `, [role.name, role.label, role.description, role.is_system ? 1 : 0]);
+      for (const permission of role.permissions) {
+        await db.run('INSERT INTO role_permissions (role_id, permission) VALUES (?, ?)', [result.lastID, permission]);
+      }
+    }
+  }
+
+  // Reading price lists became its own permission after roles were first created; roles that
+  // manage pricing and the read-only auditor are granted it once, and may be revoked afterwards
+  await runMigrationOnce('grant_pricing_view', () => db.run(`
+    INSERT OR IGNORE INTO role_permissions (role_id, permission)
+    SELECT role_id, 'pricing.view' FROM role_permissions WHERE permission = 'pricing.manage'
+    UNION
+    SELECT id, 'pricing.view' FROM roles WHERE name = 'auditor'
+  `));
+
+  await db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_users_agency ON users(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(email);
+    CREATE INDEX IF NOT EXISTS idx_orders_user ON orders(user_id);
+    CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+    CREATE INDEX IF NOT EXISTS idx_orders_project ON orders(project_id);
+    CREATE INDEX IF NOT EXISTS idx_orders_agency ON orders(agency_id);
+    CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
+    CREATE INDEX IF NOT EXISTS idx_order_items_product ON order_items(product_id);
+    CREATE INDEX IF NOT EXISTS idx_inventory_transactions_created_at ON inventory_transactions(created_at);
+    CREATE INDEX IF NOT EXISTS idx_inventory_transactions_reference ON inventory_transactions(reference_type, reference_id);
+  `);
+
+  // Orders placed before status history was tracked get their creation and
+  // current status recorded so every order has a timeline
+  await db.run(`
+    INSERT INTO order_status_history (order_id, from_status, to_status, notes, changed_by, created_at)
+    SELECT id, NULL, 'pending', 'Order placed', user_id, created_at
+    FROM orders
+    WHERE id NOT IN (SELECT order_id FROM order_status_history)
+  `);
+  await db.run(`
+    INSERT INTO order_status_history (order_id, from_status, to_status, notes, changed_by, created_at)
+    SELECT o.id, 'pending', o.status, 'Recorded before status history was tracked', NULL, o.updated_at
+    FROM orders o
+    WHERE o.status != 'pending'
+      AND NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id AND h.from_status IS NOT NULL)
+  `);
+};
+
 const seedInitialData = async () => {
   try {
     // Check if data already exists
@@ -182,16 +987,21 @@ const seedInitialData = async () => {
     // Create default admin user
     const adminPassword = await bcrypt.hash('admin123', 10);
     await db.run(`
-      INSERT INTO users (username, email, password_hash, role, name, agency_name)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `, ['admin', 'admin@adrde.gov', adminPassword, 'admin', 'System Administrator', 'ADRDE']);
+      INSERT INTO users (username, email, password_hash, role, name)
+      VALUES (?, ?, ?, ?, ?)
+    `, ['admin', 'admin@adrde.gov', adminPassword, 'admin', 'System Administrator']);
+
+    // Create default agency and its user
+    const agencyResult = await db.run(`
+      INSERT INTO agencies (name, contact_email)
+      VALUES (?, ?)
+    `, ['Defense Agency 1', 'agency1@adrde.gov']);
 
-    // Create default agency user
     const agencyPassword = await bcrypt.hash('agency123', 10);
     await db.run(`
-      INSERT INTO users (username, email, password_hash, role, name, agency_name)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `, ['agency1', 'agency1@adrde.gov', agencyPassword, 'agency', 'Defense Agency 1', 'Defense Agency 1']);
+      INSERT INTO users (username, email, password_hash, role, name, agency_id, agency_role)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, ['agency1', 'agency1@adrde.gov', agencyPassword, 'agency', 'Defense Agency 1', agencyResult.lastID, 'approver']);
 
     // Create categories
     const categories = [
@@ -210,6 +1020,9 @@ const seedInitialData = async () => {
       `, [category, `${category} for defense projects`]);
     }
 
+    // Default tax rate for every category and delivery region
+    await db.run('INSERT INTO tax_rates (name, rate) VALUES (?, ?)', ['Standard', 8]);
+
     // Create sample projects
     await db.run(`
       INSERT INTO projects (name, description, status, start_date, end_date, budget, manager_id)
@@ -308,6 +1121,19 @@ const seedInitialData = async () => {
       ]);
     }
 
+    // Create sample suppliers
+    const suppliers = [
+      ['Bharat Fencing Works', 'R. Sharma', 'sales@bharatfencing.example', '+91-11-2345-6789'],
+      ['Secure Systems Ltd', 'A. Verma', 'orders@securesystems.example', '+91-80-4567-8901']
+    ];
+
+    for (const [name, contactName, email, phone] of suppliers) {
+      await db.run(`
+        INSERT INTO suppliers (name, contact_name, email, phone)
+        VALUES (?, ?, ?, ?)
+      `, [name, contactName, email, phone]);
+    }
+
     console.log('✅ Initial data seeded successfully');
   } catch (error) {
     console.error('❌ Error seeding data:', error);
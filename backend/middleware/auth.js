@@ -1,7 +1,44 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { getDatabase } from '../database/init.js';
+import { ADMIN_ROLE, AGENCY_ROLE, ALL_PERMISSIONS } from './permissions.js';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+let devSecret = null;
+
+// Roles a user can hold within their agency
+export const AGENCY_ROLES = ['requester', 'approver', 'viewer'];
+
+// Read lazily: route modules are imported before dotenv has loaded .env
+export const getJwtSecret = () => {
+  if (process.env.JWT_SECRET) {
+    return process.env.JWT_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  // Per-process secret for development; refresh tokens survive restarts, access tokens do not
+  if (!devSecret) {
+    devSecret = crypto.randomBytes(32).toString('hex');
+    console.warn('⚠️  JWT_SECRET is not set; using a temporary development secret');
+  }
+  return devSecret;
+};
+
+// Permissions granted by a role; admins always hold all of them
+export const getRolePermissions = async (db, role) => {
+  if (role === ADMIN_ROLE) {
+    return ALL_PERMISSIONS;
+  }
+  const rows = await db.all(`
+    SELECT rp.permission
+    FROM role_permissions rp
+    JOIN roles r ON rp.role_id = r.id
+    WHERE r.name = ?
+  `, [role]);
+  return rows.map(row => row.permission);
+};
+
+export const hasPermission = (user, permission) => !!user?.permissions?.includes(permission);
 
 export const authenticateToken = async (req, res, next) => {
   try {
@@ -12,32 +49,42 @@ export const authenticateToken = async (req, res, next) => {
       return res.status(401).json({ error: 'Access token required' });
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET);
+    const decoded = jwt.verify(token, getJwtSecret());
     const db = getDatabase();
-    
-    const user = await db.get('SELECT id, username, email, role, name, agency_name FROM users WHERE id = ?', [decoded.userId]);
-    
+
+    // The session must still be live, so revoked devices lose access immediately
+    const user = await db.get(`
+      SELECT u.id, u.username, u.email, u.role, u.name, u.agency_id, u.agency_role, a.name as agency_name
+      FROM users u
+      JOIN sessions s ON s.user_id = u.id
+      LEFT JOIN agencies a ON u.agency_id = a.id
+      WHERE u.id = ? AND s.id = ? AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP
+        AND u.status = 'active'
+    `, [decoded.userId, decoded.sessionId]);
+
     if (!user) {
       return res.status(401).json({ error: 'Invalid token' });
     }
 
-    req.user = user;
+    // Loaded per request so role edits apply without signing in again
+    req.user = { ...user, permissions: await getRolePermissions(db, user.role) };
+    req.sessionId = decoded.sessionId;
     next();
   } catch (error) {
     if (error.name === 'TokenExpiredError') {
       return res.status(401).json({ error: 'Token expired' });
     }
-    return res.status(403).json({ error: 'Invalid token' });
+    return res.status(401).json({ error: 'Invalid token' });
   }
 };
 
-export const requireRole = (roles) => {
+export const requirePermission = (permission) => {
   return (req, res, next) => {
     if (!req.user) {
       return res.status(401).json({ error: 'Authentication required' });
     }
 
-    if (!roles.includes(req.user.role)) {
+    if (!hasPermission(req.user, permission)) {
       return res.status(403).json({ error: 'Insufficient permissions' });
     }
 
@@ -45,6 +92,27 @@ export const requireRole = (roles) => {
   };
 };
 
-export const requireAdmin = requireRole(['admin']);
-export const requireAgency = requireRole(['agency']);
-export const requireAnyRole = requireRole(['admin', 'agency']); 
\ No newline at end of file
+// Agency users must hold one of the given roles within their agency; depot staff are not agency-bound
+export const requireAgencyRole = (agencyRoles) => {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (req.user.role !== AGENCY_ROLE) {
+      return next();
+    }
+
+    if (!req.user.agency_id) {
+      return res.status(403).json({ error: 'Your account is not linked to an agency' });
+    }
+
+    if (!agencyRoles.includes(req.user.agency_role)) {
+      return res.status(403).json({ error: 'Insufficient agency permissions' });
+    }
+
+    next();
+  };
+};
+
+export const requireRequester = requireAgencyRole(['requester', 'approver']);
@@ -0,0 +1,61 @@
+// Every permission a role can be granted, with the description shown in the role editor
+export const PERMISSIONS = {
+  'dashboard.view': 'View dashboard statistics and trends',
+  'products.manage': 'Create, edit and delete products, including prices',
+  'categories.manage': 'Create, edit and delete categories',
+  'inventory.view': 'View the inventory ledger and low-stock alerts',
+  'inventory.adjust': 'Receive, issue and adjust stock',
+  'orders.create': 'Place orders',
+  'orders.view_all': 'View orders from every agency',
+  'orders.manage': 'Approve, process, ship and cancel orders',
+  'returns.manage': 'Approve, reject and receive returns',
+  'pricing.view': 'View agency price lists',
+  'pricing.manage': 'Manage agency price lists and tax rates',
+  'projects.manage': 'Create, edit and delete projects',
+  'purchasing.view': 'View suppliers and purchase orders',
+  'purchasing.manage': 'Manage suppliers and raise purchase orders',
+  'purchasing.receive': 'Receive goods against purchase orders',
+  'users.view': 'View users, agencies, invitations and roles',
+  'users.manage': 'Manage users, agencies and invitations',
+  'roles.manage': 'Create and edit roles and their permissions'
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS);
+
+// The admin role always holds every permission; its grants are not stored
+export const ADMIN_ROLE = 'admin';
+
+// Agency staff use the agency portal; every other role works in the depot dashboard
+export const AGENCY_ROLE = 'agency';
+
+// Roles created with a new database. admin and agency are system roles and cannot be deleted
+export const DEFAULT_ROLES = [
+  {
+    name: ADMIN_ROLE,
+    label: 'Administrator',
+    description: 'Full access to every part of the system',
+    is_system: true,
+    permissions: []
+  },
+  {
+    name: AGENCY_ROLE,
+    label: 'Agency',
+    description: 'Agency staff ordering against projects',
+    is_system: true,
+    permissions: ['orders.create']
+  },
+  {
+    name: 'storekeeper',
+    label: 'Storekeeper',
+    description: 'Adjusts stock and receives goods but cannot change prices',
+    is_system: false,
+    permissions: ['dashboard.view', 'inventory.view', 'inventory.adjust', 'purchasing.view', 'purchasing.receive']
+  },
+  {
+    name: 'auditor',
+    label: 'Auditor',
+    description: 'Read-only access to everything',
+    is_system: false,
+    permissions: ['dashboard.view', 'inventory.view', 'orders.view_all', 'pricing.view', 'purchasing.view', 'users.view']
+  }
+];
@@ -0,0 +1,234 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { requirePermission, hasPermission } from '../middleware/auth.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+
+const router = express.Router();
+
+// Get all agencies with member and order counts
+router.get('/', requirePermission('users.view'), [
+  query('search').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { search } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (search) {
+      whereClause += ' AND (a.name LIKE ? OR a.contact_email LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm);
+    }
+
+    const agencies = await db.all(`
+      SELECT
+        a.*,
+        (SELECT COUNT(*) FROM users u WHERE u.agency_id = a.id) as user_count,
+        (SELECT COUNT(*) FROM orders o WHERE o.agency_id = a.id) as order_count
+      FROM agencies a
+      ${whereClause}
+      ORDER BY a.name ASC
+    `, params);
+
+    res.json({ agencies });
+  } catch (error) {
+    console.error('Get agencies error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single agency with its users (user managers, or members of that agency)
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    if (!hasPermission(req.user, 'users.view') && req.user.agency_id !== Number(id)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const agency = await db.get('SELECT * FROM agencies WHERE id = ?', [id]);
+    if (!agency) {
+      return res.status(404).json({ error: 'Agency not found' });
+    }
+
+    const users = await db.all(`
+      SELECT id, username, name, email, agency_role, status
+      FROM users
+      WHERE agency_id = ?
+      ORDER BY name ASC
+    `, [id]);
+
+    res.json({ agency: { ...agency, users } });
+  } catch (error) {
+    console.error('Get agency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create new agency
+router.post('/', requirePermission('users.manage'), [
+  body('name').trim().notEmpty().withMessage('Agency name is required'),
+  body('contact_email').optional({ checkFalsy: true }).isEmail().withMessage('Valid email is required'),
+  body('phone').optional(),
+  body('address').optional(),
+  body('approval_threshold').optional({ nullable: true, checkFalsy: true }).isFloat({ min: 0 }).withMessage('Approval threshold must be a positive amount')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, contact_email, phone, address, approval_threshold } = req.body;
+    const db = getDatabase();
+
+    // Check if name already exists
+    const existingAgency = await db.get('SELECT id FROM agencies WHERE name = ? COLLATE NOCASE', [name]);
+    if (existingAgency) {
+      return res.status(400).json({ error: 'Agency name already exists' });
+    }
+
+    const result = await db.run(`
+      INSERT INTO agencies (name, contact_email, phone, address, approval_threshold)
+      VALUES (?, ?, ?, ?, ?)
+    `, [name, contact_email, phone, address, approval_threshold || null]);
+
+    const newAgency = await db.get('SELECT * FROM agencies WHERE id = ?', [result.lastID]);
+
+    res.status(201).json({
+      message: 'Agency created successfully',
+      agency: newAgency
+    });
+  } catch (error) {
+    console.error('Create agency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update agency
+router.put('/:id', requirePermission('users.manage'), [
+  body('name').optional().trim().notEmpty().withMessage('Agency name cannot be empty'),
+  body('contact_email').optional({ checkFalsy: true }).isEmail().withMessage('Valid email is required'),
+  body('phone').optional(),
+  body('address').optional(),
+  body('approval_threshold').optional({ nullable: true, checkFalsy: true }).isFloat({ min: 0 }).withMessage('Approval threshold must be a positive amount')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const db = getDatabase();
+
+    // Check if agency exists
+    const existingAgency = await db.get('SELECT id FROM agencies WHERE id = ?', [id]);
+    if (!existingAgency) {
+      return res.status(404).json({ error: 'Agency not found' });
+    }
+
+    // Check if new name is taken by another agency
+    if (req.body.name) {
+      const duplicate = await db.get('SELECT id FROM agencies WHERE name = ? COLLATE NOCASE AND id != ?', [req.body.name, id]);
+      if (duplicate) {
+        return res.status(400).json({ error: 'Agency name already exists' });
+      }
+    }
+
+    // An empty approval threshold switches value-based approval off
+    if (req.body.approval_threshold === '') {
+      req.body.approval_threshold = null;
+    }
+
+    const allowedFields = ['name', 'contact_email', 'phone', 'address', 'approval_threshold'];
+    const updateFields = [];
+    const updateValues = [];
+
+    allowedFields.forEach(field => {
+      if (req.body[field] !== undefined) {
+        updateFields.push(`${field} = ?`);
+        updateValues.push(req.body[field]);
+      }
+    });
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    await db.run(`
+      UPDATE agencies
+      SET ${updateFields.join(', ')}
+      WHERE id = ?
+    `, updateValues);
+
+    const updatedAgency = await db.get('SELECT * FROM agencies WHERE id = ?', [id]);
+
+    res.json({
+      message: 'Agency updated successfully',
+      agency: updatedAgency
+    });
+  } catch (error) {
+    console.error('Update agency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete agency
+router.delete('/:id', requirePermission('users.manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    // Check if agency exists
+    const agency = await db.get('SELECT id FROM agencies WHERE id = ?', [id]);
+    if (!agency) {
+      return res.status(404).json({ error: 'Agency not found' });
+    }
+
+    const user = await db.get('SELECT id FROM users WHERE agency_id = ? LIMIT 1', [id]);
+    if (user) {
+      return res.status(400).json({ error: 'Cannot delete agency that has users; move or delete them first' });
+    }
+
+    // Agencies with order history are kept for the audit trail
+    const order = await db.get('SELECT id FROM orders WHERE agency_id = ? LIMIT 1', [id]);
+    if (order) {
+      return res.status(400).json({ error: 'Cannot delete agency that has orders' });
+    }
+
+    const invitation = await db.get(`
+      SELECT id FROM invitations
+      WHERE agency_id = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+      LIMIT 1
+    `, [id]);
+    if (invitation) {
+      return res.status(400).json({ error: 'Cannot delete agency that has pending invitations; revoke them first' });
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.run('DELETE FROM project_agencies WHERE agency_id = ?', [id]);
+      await tx.run('DELETE FROM price_list_items WHERE price_list_id IN (SELECT id FROM price_lists WHERE agency_id = ?)', [id]);
+      await tx.run('DELETE FROM price_lists WHERE agency_id = ?', [id]);
+      await tx.run('DELETE FROM agencies WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Agency deleted successfully' });
+  } catch (error) {
+    console.error('Delete agency error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
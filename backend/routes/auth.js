@@ -1,11 +1,42 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { body, validationResult } from 'express-validator';
-import { getDatabase } from '../database/init.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
+import { authenticateToken, getJwtSecret, getRolePermissions } from '../middleware/auth.js';
 
 const router = express.Router();
-const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+// Refresh and invitation tokens are opaque; only their hash is stored
+export const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+export const generateToken = (bytes = 48) => crypto.randomBytes(bytes).toString('hex');
+
+const signAccessToken = (user, sessionId) => jwt.sign(
+  { userId: user.id, role: user.role, sessionId },
+  getJwtSecret(),
+  { expiresIn: ACCESS_TOKEN_TTL }
+);
+
+// Start a new session for a device and return its token pair
+const createSession = async (db, user, req) => {
+  const refreshToken = generateToken();
+
+  const result = await db.run(`
+    INSERT INTO sessions (user_id, refresh_token_hash, user_agent, ip_address, expires_at)
+    VALUES (?, ?, ?, ?, datetime('now', ?))
+  `, [user.id, hashToken(refreshToken), req.get('user-agent'), req.ip, `+${REFRESH_TOKEN_TTL_DAYS} days`]);
+
+  return {
+    token: signAccessToken(user, result.lastID),
+    refresh_token: refreshToken
+  };
+};
 
 // Login route
 router.post('/login', [
@@ -34,20 +65,22 @@ router.post('/login', [
       return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    // Generate JWT token
-    const token = jwt.sign(
-      { userId: user.id, role: user.role },
-      JWT_SECRET,
-      { expiresIn: '24h' }
-    );
+    if (user.status === 'disabled') {
+      return res.status(403).json({ error: 'Account is disabled; contact an administrator' });
+    }
+
+    // Clear out this user's expired sessions before starting a new one
+    await db.run("DELETE FROM sessions WHERE user_id = ? AND expires_at <= CURRENT_TIMESTAMP", [user.id]);
 
-    // Return user data (without password) and token
-    const { password_hash, ...userData } = user;
+    const tokens = await createSession(db, user, req);
+
+    // Return the profile (without password) and tokens
+    const userData = await selectProfile(db, user.id);
     
     res.json({
       message: 'Login successful',
       user: userData,
-      token
+      ...tokens
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -55,14 +88,145 @@ router.post('/login', [
   }
 });
 
-// Register route (admin only)
+// Exchange a refresh token for a new token pair; the old refresh token stops working
+router.post('/refresh', [
+  body('refresh_token').notEmpty().withMessage('Refresh token is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const tokens = await withTransaction(async (tx) => {
+      const session = await tx.get(`
+        SELECT s.id, u.id as user_id, u.role
+        FROM sessions s
+        JOIN users u ON s.user_id = u.id
+        WHERE s.refresh_token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP
+          AND u.status = 'active'
+      `, [hashToken(req.body.refresh_token)]);
+
+      if (!session) {
+        return null;
+      }
+
+      const refreshToken = generateToken();
+      await tx.run(`
+        UPDATE sessions
+        SET refresh_token_hash = ?, last_used_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [hashToken(refreshToken), session.id]);
+
+      return {
+        token: signAccessToken({ id: session.user_id, role: session.role }, session.id),
+        refresh_token: refreshToken
+      };
+    });
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+
+    res.json(tokens);
+  } catch (error) {
+    console.error('Token refresh error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Logout: revoke the session behind a refresh token (works after the access token expired)
+router.post('/logout', [
+  body('refresh_token').notEmpty().withMessage('Refresh token is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const db = getDatabase();
+
+    await db.run(`
+      UPDATE sessions
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE refresh_token_hash = ? AND revoked_at IS NULL
+    `, [hashToken(req.body.refresh_token)]);
+
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sign out all devices of the current user
+router.post('/logout-all', authenticateToken, async (req, res) => {
+  try {
+    const db = getDatabase();
+
+    const result = await db.run(`
+      UPDATE sessions
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND revoked_at IS NULL
+    `, [req.user.id]);
+
+    res.json({
+      message: 'Signed out of all devices',
+      revoked_sessions: result.changes
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Profile fields returned to the signed-in user, with the role, agency and permissions resolved
+const selectProfile = async (db, userId) => {
+  const user = await db.get(`
+    SELECT u.id, u.username, u.email, u.role, r.label as role_label, u.name, u.agency_id, u.agency_role,
+      a.name as agency_name, u.phone, u.address, u.created_at
+    FROM users u
+    LEFT JOIN roles r ON u.role = r.name
+    LEFT JOIN agencies a ON u.agency_id = a.id
+    WHERE u.id = ?
+  `, [userId]);
+  return user && { ...user, permissions: await getRolePermissions(db, user.role) };
+};
+
+// Pending invitations are neither accepted, revoked nor expired
+const findPendingInvitation = (db, token) => db.get(`
+  SELECT i.id, i.email, i.role, r.label as role_label, i.agency_id, i.agency_role, a.name as agency_name, i.expires_at
+  FROM invitations i
+  LEFT JOIN roles r ON i.role = r.name
+  LEFT JOIN agencies a ON i.agency_id = a.id
+  WHERE i.token_hash = ? AND i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > CURRENT_TIMESTAMP
+`, [hashToken(token)]);
+
+// Look up an invitation so the accept page can show what it grants
+router.get('/invitations/:token', async (req, res) => {
+  try {
+    const db = getDatabase();
+
+    const invitation = await findPendingInvitation(db, req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation is invalid or has expired' });
+    }
+
+    const { id, ...details } = invitation;
+    res.json({ invitation: details });
+  } catch (error) {
+    console.error('Get invitation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Register route (requires an admin-issued invitation; email, role and agency come from it)
 router.post('/register', [
+  body('token').notEmpty().withMessage('Invitation token is required'),
   body('username').isLength({ min: 3 }).withMessage('Username must be at least 3 characters'),
-  body('email').isEmail().withMessage('Valid email is required'),
   body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
-  body('role').isIn(['admin', 'agency']).withMessage('Role must be admin or agency'),
-  body('name').notEmpty().withMessage('Name is required'),
-  body('agency_name').optional()
+  body('name').notEmpty().withMessage('Name is required')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -70,56 +234,64 @@ router.post('/register', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { username, email, password, role, name, agency_name } = req.body;
+    const { token, username, password, name } = req.body;
     const db = getDatabase();
 
-    // Check if user already exists
-    const existingUser = await db.get('SELECT id FROM users WHERE username = ? OR email = ?', [username, email]);
-    if (existingUser) {
-      return res.status(400).json({ error: 'Username or email already exists' });
-    }
-
     // Hash password
     const passwordHash = await bcrypt.hash(password, 10);
 
-    // Insert new user
-    const result = await db.run(`
-      INSERT INTO users (username, email, password_hash, role, name, agency_name)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `, [username, email, passwordHash, role, name, agency_name]);
+    const userId = await withTransaction(async (tx) => {
+      const invitation = await findPendingInvitation(tx, token);
+      if (!invitation) {
+        throw new HttpError(400, 'Invitation is invalid or has expired');
+      }
+
+      // Check if user already exists
+      const existingUser = await tx.get('SELECT id FROM users WHERE username = ? OR email = ?', [username, invitation.email]);
+      if (existingUser) {
+        throw new HttpError(400, 'Username or email already exists');
+      }
+
+      // Insert new user
+      const result = await tx.run(`
+        INSERT INTO users (username, email, password_hash, role, name, agency_id, agency_role)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [username, invitation.email, passwordHash, invitation.role, name, invitation.agency_id, invitation.agency_role]);
+
+      await tx.run(`
+        UPDATE invitations
+        SET accepted_at = CURRENT_TIMESTAMP, accepted_user_id = ?
+        WHERE id = ?
+      `, [result.lastID, invitation.id]);
+
+      return result.lastID;
+    });
 
-    // Get the created user
-    const newUser = await db.get('SELECT id, username, email, role, name, agency_name, created_at FROM users WHERE id = ?', [result.lastID]);
+    // Get the created user and sign them in
+    const newUser = await selectProfile(db, userId);
+    const tokens = await createSession(db, newUser, req);
 
     res.status(201).json({
       message: 'User created successfully',
-      user: newUser
+      user: newUser,
+      ...tokens
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Registration error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Get current user profile
-router.get('/profile', async (req, res) => {
+router.get('/profile', authenticateToken, async (req, res) => {
   try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (!token) {
-      return res.status(401).json({ error: 'Access token required' });
-    }
-
-    const decoded = jwt.verify(token, JWT_SECRET);
     const db = getDatabase();
     
-    const user = await db.get('SELECT id, username, email, role, name, agency_name, phone, address, created_at FROM users WHERE id = ?', [decoded.userId]);
+    const user = await selectProfile(db, req.user.id);
     
-    if (!user) {
-      return res.status(401).json({ error: 'Invalid token' });
-    }
-
     res.json({ user });
   } catch (error) {
     console.error('Profile error:', error);
@@ -128,7 +300,7 @@ router.get('/profile', async (req, res) => {
 });
 
 // Update user profile
-router.put('/profile', [
+router.put('/profile', authenticateToken, [
   body('name').optional().notEmpty().withMessage('Name cannot be empty'),
   body('phone').optional(),
   body('address').optional()
@@ -139,14 +311,6 @@ router.put('/profile', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (!token) {
-      return res.status(401).json({ error: 'Access token required' });
-    }
-
-    const decoded = jwt.verify(token, JWT_SECRET);
     const db = getDatabase();
     
     const { name, phone, address } = req.body;
@@ -171,7 +335,7 @@ router.put('/profile', [
     }
 
     updateFields.push('updated_at = CURRENT_TIMESTAMP');
-    updateValues.push(decoded.userId);
+    updateValues.push(req.user.id);
 
     await db.run(`
       UPDATE users 
@@ -179,7 +343,7 @@ router.put('/profile', [
       WHERE id = ?
     `, updateValues);
 
-    const updatedUser = await db.get('SELECT id, username, email, role, name, agency_name, phone, address, created_at FROM users WHERE id = ?', [decoded.userId]);
+    const updatedUser = await selectProfile(db, req.user.id);
 
     res.json({
       message: 'Profile updated successfully',
@@ -192,7 +356,7 @@ router.put('/profile', [
 });
 
 // Change password
-router.put('/change-password', [
+router.put('/change-password', authenticateToken, [
   body('currentPassword').notEmpty().withMessage('Current password is required'),
   body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters')
 ], async (req, res) => {
@@ -202,20 +366,12 @@ router.put('/change-password', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (!token) {
-      return res.status(401).json({ error: 'Access token required' });
-    }
-
-    const decoded = jwt.verify(token, JWT_SECRET);
     const db = getDatabase();
     
     const { currentPassword, newPassword } = req.body;
 
     // Get current user
-    const user = await db.get('SELECT password_hash FROM users WHERE id = ?', [decoded.userId]);
+    const user = await db.get('SELECT password_hash FROM users WHERE id = ?', [req.user.id]);
     if (!user) {
       return res.status(401).json({ error: 'Invalid token' });
     }
@@ -230,7 +386,14 @@ router.put('/change-password', [
     const newPasswordHash = await bcrypt.hash(newPassword, 10);
 
     // Update password
-    await db.run('UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [newPasswordHash, decoded.userId]);
+    await db.run('UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [newPasswordHash, req.user.id]);
+
+    // Sign out every other device that knew the old password
+    await db.run(`
+      UPDATE sessions
+      SET revoked_at = CURRENT_TIMESTAMP
+      WHERE user_id = ? AND id != ? AND revoked_at IS NULL
+    `, [req.user.id, req.sessionId]);
 
     res.json({ message: 'Password changed successfully' });
   } catch (error) {
@@ -0,0 +1,265 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { requirePermission, requireRequester } from '../middleware/auth.js';
+import { withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
+import { getContractTiers, findContractPrice } from './priceLists.js';
+
+const router = express.Router();
+
+const itemValidators = [
+  body('items').isArray().withMessage('Items must be an array'),
+  body('items.*.product_id').isInt().withMessage('Valid product ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Valid quantity is required')
+];
+
+// The user's cart, created the first time it is used
+const getCartId = async (db, userId) => {
+  await db.run('INSERT OR IGNORE INTO carts (user_id) VALUES (?)', [userId]);
+  const cart = await db.get('SELECT id FROM carts WHERE user_id = ?', [userId]);
+  return cart.id;
+};
+
+const touchCart = (db, cartId) => db.run('UPDATE carts SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', [cartId]);
+
+// Remember the price shown for a line after the user changes its quantity, so moving into another
+// quantity break is not reported as a price change
+const rememberLinePrice = async (db, cartId, agencyId, productId) => {
+  const line = await db.get(`
+    SELECT ci.quantity, p.price
+    FROM cart_items ci
+    JOIN products p ON ci.product_id = p.id
+    WHERE ci.cart_id = ? AND ci.product_id = ?
+  `, [cartId, productId]);
+  if (!line) return;
+
+  const tiers = await getContractTiers(db, agencyId, [Number(productId)]);
+  const price = findContractPrice(tiers, Number(productId), line.quantity)?.unit_price ?? line.price;
+  await db.run('UPDATE cart_items SET unit_price = ? WHERE cart_id = ? AND product_id = ?', [price, cartId, productId]);
+};
+
+// Add units of an active product to the cart, on top of any already there
+const addCartItem = async (db, cartId, agencyId, productId, quantity) => {
+  const product = await db.get('SELECT id, price FROM products WHERE id = ? AND status = "active"', [productId]);
+  if (!product) return false;
+
+  await db.run(`
+    INSERT INTO cart_items (cart_id, product_id, quantity, unit_price)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT (cart_id, product_id) DO UPDATE
+    SET quantity = quantity + excluded.quantity, updated_at = CURRENT_TIMESTAMP
+  `, [cartId, productId, quantity, product.price]);
+  await rememberLinePrice(db, cartId, agencyId, productId);
+  return true;
+};
+
+// Check every line against the catalog and the agency's price lists. Prices that changed since the
+// user last saw them are reported once and then remembered; lines that can no longer be ordered or
+// will be partly backordered carry warnings every time the cart is loaded
+const loadCart = async (db, cartId, agencyId) => {
+  const rows = await db.all(`
+    SELECT
+      ci.product_id,
+      ci.quantity,
+      ci.unit_price as seen_price,
+      p.name,
+      p.sku,
+      p.specifications,
+      p.price,
+      p.status,
+      p.stock_quantity - p.reserved_quantity as available_quantity
+    FROM cart_items ci
+    LEFT JOIN products p ON ci.product_id = p.id
+    WHERE ci.cart_id = ?
+    ORDER BY ci.created_at ASC, ci.id ASC
+  `, [cartId]);
+  const contractTiers = await getContractTiers(db, agencyId, rows.map(row => row.product_id));
+
+  const items = [];
+  const priceChanges = [];
+  for (const row of rows) {
+    const orderable = row.status === 'active';
+    const contractPrice = orderable ? findContractPrice(contractTiers, row.product_id, row.quantity) : null;
+    const price = contractPrice?.unit_price ?? row.price;
+    const available = Math.max(row.available_quantity ?? 0, 0);
+    const warnings = [];
+
+    if (!orderable) {
+      warnings.push('No longer available to order; remove it to place your order');
+    } else if (row.quantity > available) {
+      warnings.push(`Only ${available} in stock; ${row.quantity - available} will be backordered`);
+    }
+
+    if (orderable && price !== row.seen_price) {
+      priceChanges.push({ product_id: row.product_id, name: row.name, previous_price: row.seen_price, price });
+      await db.run(`
+        UPDATE cart_items SET unit_price = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE cart_id = ? AND product_id = ?
+      `, [price, cartId, row.product_id]);
+    }
+
+    items.push({
+      id: row.product_id,
+      name: row.name,
+      sku: row.sku,
+      specifications: row.specifications,
+      price: orderable ? price : row.seen_price,
+      list_price: row.price,
+      price_list_name: contractPrice?.price_list_name ?? null,
+      quantity: row.quantity,
+      available_quantity: available,
+      orderable,
+      warnings
+    });
+  }
+
+  return { items, price_changes: priceChanges };
+};
+
+// Get the current user's cart, revalidated against current prices and stock
+router.get('/', requirePermission('orders.create'), requireRequester, async (req, res) => {
+  try {
+    const cart = await withTransaction(async (tx) => loadCart(tx, await getCartId(tx, req.user.id), req.user.agency_id));
+
+    res.json(cart);
+  } catch (error) {
+    console.error('Get cart error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a product to the cart
+router.post('/items', requirePermission('orders.create'), requireRequester, [
+  body('product_id').isInt().withMessage('Valid product ID is required'),
+  body('quantity').isInt({ min: 1 }).withMessage('Valid quantity is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { product_id, quantity } = req.body;
+
+    const cart = await withTransaction(async (tx) => {
+      const cartId = await getCartId(tx, req.user.id);
+      if (!(await addCartItem(tx, cartId, req.user.agency_id, product_id, quantity))) {
+        throw new HttpError(400, 'Product not found or inactive');
+      }
+      await touchCart(tx, cartId);
+      return loadCart(tx, cartId, req.user.agency_id);
+    });
+
+    res.json({ message: 'Item added to cart', ...cart });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Add cart item error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change the quantity of a cart line
+router.patch('/items/:productId', requirePermission('orders.create'), requireRequester, [
+  body('quantity').isInt({ min: 1 }).withMessage('Valid quantity is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { productId } = req.params;
+    const { quantity } = req.body;
+
+    const cart = await withTransaction(async (tx) => {
+      const cartId = await getCartId(tx, req.user.id);
+      const result = await tx.run(`
+        UPDATE cart_items SET quantity = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE cart_id = ? AND product_id = ?
+      `, [quantity, cartId, productId]);
+      if (result.changes === 0) {
+        throw new HttpError(404, 'Item not in cart');
+      }
+      await rememberLinePrice(tx, cartId, req.user.agency_id, productId);
+      await touchCart(tx, cartId);
+      return loadCart(tx, cartId, req.user.agency_id);
+    });
+
+    res.json({ message: 'Cart updated', ...cart });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Update cart item error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a line from the cart
+router.delete('/items/:productId', requirePermission('orders.create'), requireRequester, async (req, res) => {
+  try {
+    const { productId } = req.params;
+
+    const cart = await withTransaction(async (tx) => {
+      const cartId = await getCartId(tx, req.user.id);
+      await tx.run('DELETE FROM cart_items WHERE cart_id = ? AND product_id = ?', [cartId, productId]);
+      await touchCart(tx, cartId);
+      return loadCart(tx, cartId, req.user.agency_id);
+    });
+
+    res.json({ message: 'Item removed from cart', ...cart });
+  } catch (error) {
+    console.error('Remove cart item error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Empty the cart, e.g. once its contents have been ordered
+router.delete('/', requirePermission('orders.create'), requireRequester, async (req, res) => {
+  try {
+    await withTransaction(async (tx) => {
+      const cartId = await getCartId(tx, req.user.id);
+      await tx.run('DELETE FROM cart_items WHERE cart_id = ?', [cartId]);
+      await touchCart(tx, cartId);
+    });
+
+    res.json({ message: 'Cart cleared', items: [], price_changes: [] });
+  } catch (error) {
+    console.error('Clear cart error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Merge items a device held without reaching the server, e.g. while offline, into the user's cart.
+// Quantities add up per product; products that can no longer be ordered are skipped
+router.post('/merge', requirePermission('orders.create'), requireRequester, itemValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { items } = req.body;
+
+    const { cart, skipped } = await withTransaction(async (tx) => {
+      const cartId = await getCartId(tx, req.user.id);
+      const skippedItems = [];
+      for (const item of items) {
+        if (!(await addCartItem(tx, cartId, req.user.agency_id, item.product_id, item.quantity))) {
+          skippedItems.push(item.product_id);
+        }
+      }
+      await touchCart(tx, cartId);
+      return { cart: await loadCart(tx, cartId, req.user.agency_id), skipped: skippedItems };
+    });
+
+    res.json({ message: 'Carts merged', ...cart, skipped_product_ids: skipped });
+  } catch (error) {
+    console.error('Merge cart error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
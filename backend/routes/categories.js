@@ -0,0 +1,227 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+
+const router = express.Router();
+
+// Get all categories with product counts
+router.get('/', [
+  query('search').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { search } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (search) {
+      whereClause += ' AND (c.name LIKE ? OR c.description LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm);
+    }
+
+    const categories = await db.all(`
+      SELECT
+        c.*,
+        COUNT(p.id) as product_count,
+        COALESCE(SUM(CASE WHEN p.status = 'active' THEN 1 ELSE 0 END), 0) as active_product_count
+      FROM categories c
+      LEFT JOIN products p ON p.category_id = c.id
+      ${whereClause}
+      GROUP BY c.id
+      ORDER BY c.name ASC
+    `, params);
+
+    res.json({ categories });
+  } catch (error) {
+    console.error('Get categories error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single category by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const category = await db.get(`
+      SELECT
+        c.*,
+        COUNT(p.id) as product_count
+      FROM categories c
+      LEFT JOIN products p ON p.category_id = c.id
+      WHERE c.id = ?
+      GROUP BY c.id
+    `, [id]);
+
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    res.json({ category });
+  } catch (error) {
+    console.error('Get category error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create new category (admin only)
+router.post('/', authenticateToken, requirePermission('categories.manage'), [
+  body('name').trim().notEmpty().withMessage('Category name is required'),
+  body('description').optional(),
+  body('requires_agency_approval').optional().isBoolean().toBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, description, requires_agency_approval = false } = req.body;
+    const db = getDatabase();
+
+    // Check if name already exists
+    const existingCategory = await db.get('SELECT id FROM categories WHERE name = ? COLLATE NOCASE', [name]);
+    if (existingCategory) {
+      return res.status(400).json({ error: 'Category name already exists' });
+    }
+
+    const result = await db.run(`
+      INSERT INTO categories (name, description, requires_agency_approval)
+      VALUES (?, ?, ?)
+    `, [name, description, requires_agency_approval ? 1 : 0]);
+
+    const newCategory = await db.get('SELECT *, 0 as product_count FROM categories WHERE id = ?', [result.lastID]);
+
+    res.status(201).json({
+      message: 'Category created successfully',
+      category: newCategory
+    });
+  } catch (error) {
+    console.error('Create category error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update category (admin only)
+router.put('/:id', authenticateToken, requirePermission('categories.manage'), [
+  body('name').optional().trim().notEmpty().withMessage('Category name cannot be empty'),
+  body('description').optional(),
+  body('requires_agency_approval').optional().isBoolean().toBoolean()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { name, description, requires_agency_approval } = req.body;
+    const db = getDatabase();
+
+    // Check if category exists
+    const existingCategory = await db.get('SELECT id FROM categories WHERE id = ?', [id]);
+    if (!existingCategory) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    // Check if new name is taken by another category
+    if (name) {
+      const duplicate = await db.get('SELECT id FROM categories WHERE name = ? COLLATE NOCASE AND id != ?', [name, id]);
+      if (duplicate) {
+        return res.status(400).json({ error: 'Category name already exists' });
+      }
+    }
+
+    const updateFields = [];
+    const updateValues = [];
+
+    if (name !== undefined) {
+      updateFields.push('name = ?');
+      updateValues.push(name);
+    }
+
+    if (description !== undefined) {
+      updateFields.push('description = ?');
+      updateValues.push(description);
+    }
+
+    if (requires_agency_approval !== undefined) {
+      updateFields.push('requires_agency_approval = ?');
+      updateValues.push(requires_agency_approval ? 1 : 0);
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    updateValues.push(id);
+
+    await db.run(`
+      UPDATE categories
+      SET ${updateFields.join(', ')}
+      WHERE id = ?
+    `, updateValues);
+
+    const updatedCategory = await db.get(`
+      SELECT
+        c.*,
+        COUNT(p.id) as product_count
+      FROM categories c
+      LEFT JOIN products p ON p.category_id = c.id
+      WHERE c.id = ?
+      GROUP BY c.id
+    `, [id]);
+
+    res.json({
+      message: 'Category updated successfully',
+      category: updatedCategory
+    });
+  } catch (error) {
+    console.error('Update category error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete category (admin only)
+router.delete('/:id', authenticateToken, requirePermission('categories.manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    // Check if category exists
+    const category = await db.get('SELECT id FROM categories WHERE id = ?', [id]);
+    if (!category) {
+      return res.status(404).json({ error: 'Category not found' });
+    }
+
+    // Check if category still has products
+    const productCount = await db.get('SELECT COUNT(*) as count FROM products WHERE category_id = ?', [id]);
+    if (productCount.count > 0) {
+      return res.status(400).json({
+        error: `Cannot delete category that still has ${productCount.count} product(s)`
+      });
+    }
+
+    // Its tax rates could no longer apply to anything
+    await withTransaction(async (tx) => {
+      await tx.run('DELETE FROM tax_rates WHERE category_id = ?', [id]);
+      await tx.run('DELETE FROM categories WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Category deleted successfully' });
+  } catch (error) {
+    console.error('Delete category error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
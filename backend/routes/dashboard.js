@@ -1,11 +1,12 @@
 import express from 'express';
-import { requireAdmin } from '../middleware/auth.js';
+import { query, validationResult } from 'express-validator';
+import { requirePermission } from '../middleware/auth.js';
 import { getDatabase } from '../database/init.js';
 
 const router = express.Router();
 
 // Admin dashboard summary
-router.get('/summary', requireAdmin, async (req, res) => {
+router.get('/summary', requirePermission('dashboard.view'), async (req, res) => {
   try {
     const db = getDatabase();
     // Projects
@@ -14,8 +15,8 @@ router.get('/summary', requireAdmin, async (req, res) => {
     const ongoingProjects = (await db.get("SELECT COUNT(*) as count FROM projects WHERE status = 'in_progress' ")).count;
     // Products
     const totalProducts = (await db.get('SELECT COUNT(*) as count FROM products')).count;
-    const readyProducts = (await db.get("SELECT COUNT(*) as count FROM products WHERE stock_quantity > min_stock_level AND status = 'active' ")).count;
-    const inProductionProducts = (await db.get("SELECT COUNT(*) as count FROM products WHERE status = 'active' AND stock_quantity <= min_stock_level ")).count;
+    const readyProducts = (await db.get("SELECT COUNT(*) as count FROM products WHERE stock_quantity - reserved_quantity > min_stock_level AND status = 'active' ")).count;
+    const inProductionProducts = (await db.get("SELECT COUNT(*) as count FROM products WHERE status = 'active' AND stock_quantity - reserved_quantity <= min_stock_level ")).count;
     const underMaintenanceProducts = (await db.get("SELECT COUNT(*) as count FROM products WHERE status = 'inactive' ")).count;
     // Orders
     const totalOrders = (await db.get('SELECT COUNT(*) as count FROM orders')).count;
@@ -40,4 +41,89 @@ router.get('/summary', requireAdmin, async (req, res) => {
   }
 });
 
+// Monday of the week a timestamp falls in, as YYYY-MM-DD
+const weekStart = (column) => `date(${column}, '-6 days', 'weekday 1')`;
+
+// Admin dashboard time series
+router.get('/trends', requirePermission('dashboard.view'), [
+  query('weeks').optional().isInt({ min: 1, max: 52 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const weeks = parseInt(req.query.weeks || 12);
+    const db = getDatabase();
+
+    // First Monday of the reporting window
+    const { since } = await db.get(
+      `SELECT date('now', '-6 days', 'weekday 1', ?) as since`,
+      [`-${(weeks - 1) * 7} days`]
+    );
+
+    // Orders placed per week
+    const orderRows = await db.all(`
+      SELECT 
+        ${weekStart('created_at')} as week_start,
+        COUNT(*) as orders,
+        SUM(CASE WHEN status NOT IN ('cancelled', 'rejected') THEN total_amount ELSE 0 END) as order_value
+      FROM orders
+      WHERE date(created_at) >= ?
+      GROUP BY week_start
+    `, [since]);
+
+    // Stock movements that left a product with nothing on hand
+    const stockOutRows = await db.all(`
+      SELECT 
+        ${weekStart('created_at')} as week_start,
+        COUNT(*) as stock_outs
+      FROM inventory_transactions
+      WHERE date(created_at) >= ?
+        AND transaction_type != 'in'
+        AND balance_after IS NOT NULL
+        AND balance_after <= 0
+      GROUP BY week_start
+    `, [since]);
+
+    // Spend per agency across the window, excluding cancelled and rejected orders
+    const spendPerAgency = await db.all(`
+      SELECT 
+        COALESCE(a.name, u.name) as agency,
+        COUNT(o.id) as orders,
+        SUM(o.total_amount) as spend
+      FROM orders o
+      LEFT JOIN users u ON o.user_id = u.id
+      LEFT JOIN agencies a ON o.agency_id = a.id
+      WHERE date(o.created_at) >= ? AND o.status NOT IN ('cancelled', 'rejected')
+      GROUP BY agency
+      ORDER BY spend DESC
+      LIMIT 10
+    `, [since]);
+
+    // Fill in weeks with no activity so the series is continuous
+    const weekly = [];
+    const start = new Date(`${since}T00:00:00Z`);
+    for (let i = 0; i < weeks; i++) {
+      const date = new Date(start);
+      date.setUTCDate(start.getUTCDate() + i * 7);
+      const week_start = date.toISOString().slice(0, 10);
+      const orderRow = orderRows.find(row => row.week_start === week_start);
+      const stockOutRow = stockOutRows.find(row => row.week_start === week_start);
+      weekly.push({
+        week_start,
+        orders: orderRow ? orderRow.orders : 0,
+        order_value: orderRow ? orderRow.order_value : 0,
+        stock_outs: stockOutRow ? stockOutRow.stock_outs : 0
+      });
+    }
+
+    res.json({ weekly, spendPerAgency });
+  } catch (error) {
+    console.error('Dashboard trends error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router; 
\ No newline at end of file
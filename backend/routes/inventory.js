@@ -0,0 +1,116 @@
+import express from 'express';
+import { validationResult, query } from 'express-validator';
+import { requirePermission } from '../middleware/auth.js';
+import { getDatabase } from '../database/init.js';
+
+const router = express.Router();
+
+// Get inventory transaction ledger with optional filtering
+router.get('/transactions', requirePermission('inventory.view'), [
+  query('product_id').optional().isInt(),
+  query('type').optional().isIn(['in', 'out', 'adjustment']),
+  query('reference_type').optional().isIn(['order', 'manual', 'return', 'purchase_order']),
+  query('reference_id').optional().isInt(),
+  query('user_id').optional().isInt(),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const {
+      product_id, type, reference_type, reference_id, user_id, from, to,
+      page = 1, limit = 50
+    } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (product_id) {
+      whereClause += ' AND t.product_id = ?';
+      params.push(product_id);
+    }
+
+    if (type) {
+      whereClause += ' AND t.transaction_type = ?';
+      params.push(type);
+    }
+
+    if (reference_type) {
+      whereClause += ' AND t.reference_type = ?';
+      params.push(reference_type);
+    }
+
+    if (reference_id) {
+      whereClause += ' AND t.reference_id = ?';
+      params.push(reference_id);
+    }
+
+    if (user_id) {
+      whereClause += ' AND t.created_by = ?';
+      params.push(user_id);
+    }
+
+    // Date range is inclusive of both days
+    if (from) {
+      whereClause += ' AND date(t.created_at) >= date(?)';
+      params.push(from);
+    }
+
+    if (to) {
+      whereClause += ' AND date(t.created_at) <= date(?)';
+      params.push(to);
+    }
+
+    const offset = (page - 1) * limit;
+
+    // Get total count
+    const countResult = await db.get(`
+      SELECT COUNT(*) as total
+      FROM inventory_transactions t
+      ${whereClause}
+    `, params);
+
+    // Get transactions with product, user and order / purchase order / return info
+    const transactions = await db.all(`
+      SELECT
+        t.*,
+        p.name as product_name,
+        p.sku,
+        u.name as created_by_name,
+        o.order_number,
+        po.po_number,
+        rt.rma_number
+      FROM inventory_transactions t
+      LEFT JOIN products p ON t.product_id = p.id
+      LEFT JOIN users u ON t.created_by = u.id
+      LEFT JOIN orders o ON t.reference_type = 'order' AND t.reference_id = o.id
+      LEFT JOIN purchase_orders po ON t.reference_type = 'purchase_order' AND t.reference_id = po.id
+      LEFT JOIN returns rt ON t.reference_type = 'return' AND t.reference_id = rt.id
+      ${whereClause}
+      ORDER BY t.created_at DESC, t.id DESC
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+
+    res.json({
+      transactions,
+      pagination: {
+        page: parseInt(page),
+        limit: parseInt(limit),
+        total: countResult.total,
+        pages: Math.ceil(countResult.total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get inventory transactions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,176 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { requirePermission, AGENCY_ROLES } from '../middleware/auth.js';
+import { ADMIN_ROLE, AGENCY_ROLE } from '../middleware/permissions.js';
+import { getDatabase } from '../database/init.js';
+import { generateToken, hashToken } from './auth.js';
+import { findUngrantableInRole } from './roles.js';
+
+const router = express.Router();
+
+const INVITATION_STATUS_SQL = `
+  CASE
+    WHEN i.accepted_at IS NOT NULL THEN 'accepted'
+    WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+    WHEN i.expires_at <= CURRENT_TIMESTAMP THEN 'expired'
+    ELSE 'pending'
+  END
+`;
+
+// Get all invitations with optional status filter
+router.get('/', requirePermission('users.view'), [
+  query('status').optional().isIn(['pending', 'accepted', 'revoked', 'expired'])
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { status } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (status) {
+      whereClause += ` AND ${INVITATION_STATUS_SQL} = ?`;
+      params.push(status);
+    }
+
+    const invitations = await db.all(`
+      SELECT
+        i.id, i.email, i.role, r.label as role_label, i.agency_id, i.agency_role, a.name as agency_name,
+        i.expires_at, i.accepted_at, i.revoked_at, i.created_at,
+        ${INVITATION_STATUS_SQL} as status,
+        creator.name as created_by_name,
+        accepted.username as accepted_username
+      FROM invitations i
+      LEFT JOIN roles r ON i.role = r.name
+      LEFT JOIN agencies a ON i.agency_id = a.id
+      LEFT JOIN users creator ON i.created_by = creator.id
+      LEFT JOIN users accepted ON i.accepted_user_id = accepted.id
+      ${whereClause}
+      ORDER BY i.created_at DESC
+    `, params);
+
+    res.json({ invitations });
+  } catch (error) {
+    console.error('Get invitations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create invitation; the token is only returned here
+router.post('/', requirePermission('users.manage'), [
+  body('email').isEmail().withMessage('Valid email is required'),
+  body('role').isString().notEmpty().withMessage('Role is required'),
+  body('agency_id').if(body('role').equals(AGENCY_ROLE)).isInt().withMessage('Agency is required for agency invitations'),
+  body('agency_role').if(body('role').equals(AGENCY_ROLE)).isIn(AGENCY_ROLES).withMessage('Valid agency role is required'),
+  body('expires_in_days').optional().isInt({ min: 1, max: 30 }).withMessage('Expiry must be between 1 and 30 days')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { email, role, agency_id, agency_role, expires_in_days = 7 } = req.body;
+    const db = getDatabase();
+
+    const roleRecord = await db.get('SELECT id FROM roles WHERE name = ?', [role]);
+    if (!roleRecord) {
+      return res.status(400).json({ error: 'Role not found' });
+    }
+
+    if (role === ADMIN_ROLE && req.user.role !== ADMIN_ROLE) {
+      return res.status(403).json({ error: 'Only administrators can invite administrators' });
+    }
+
+    const ungrantable = await findUngrantableInRole(db, req.user, role);
+    if (ungrantable) {
+      return res.status(403).json({ error: `You cannot invite someone to a role with the ${ungrantable} permission` });
+    }
+
+    if (role === AGENCY_ROLE) {
+      const agency = await db.get('SELECT id FROM agencies WHERE id = ?', [agency_id]);
+      if (!agency) {
+        return res.status(400).json({ error: 'Agency not found' });
+      }
+    }
+
+    // Check if a user already has this email
+    const existingUser = await db.get('SELECT id FROM users WHERE email = ?', [email]);
+    if (existingUser) {
+      return res.status(400).json({ error: 'A user with this email already exists' });
+    }
+
+    // Only one open invitation per email
+    const pendingInvitation = await db.get(`
+      SELECT id FROM invitations
+      WHERE email = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+    `, [email]);
+    if (pendingInvitation) {
+      return res.status(400).json({ error: 'This email already has a pending invitation; revoke it first' });
+    }
+
+    const token = generateToken(32);
+
+    const result = await db.run(`
+      INSERT INTO invitations (token_hash, email, role, agency_id, agency_role, expires_at, created_by)
+      VALUES (?, ?, ?, ?, ?, datetime('now', ?), ?)
+    `, [
+      hashToken(token),
+      email,
+      role,
+      role === AGENCY_ROLE ? agency_id : null,
+      role === AGENCY_ROLE ? agency_role : null,
+      `+${expires_in_days} days`,
+      req.user.id
+    ]);
+
+    const invitation = await db.get(`
+      SELECT i.id, i.email, i.role, i.agency_id, i.agency_role, a.name as agency_name, i.expires_at, i.created_at, 'pending' as status
+      FROM invitations i
+      LEFT JOIN agencies a ON i.agency_id = a.id
+      WHERE i.id = ?
+    `, [result.lastID]);
+
+    res.status(201).json({
+      message: 'Invitation created successfully',
+      invitation,
+      token
+    });
+  } catch (error) {
+    console.error('Create invitation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revoke a pending invitation
+router.delete('/:id', requirePermission('users.manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const invitation = await db.get('SELECT id, accepted_at, revoked_at FROM invitations WHERE id = ?', [id]);
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    if (invitation.accepted_at) {
+      return res.status(400).json({ error: 'Invitation has already been accepted' });
+    }
+
+    await db.run(`
+      UPDATE invitations SET revoked_at = COALESCE(revoked_at, CURRENT_TIMESTAMP) WHERE id = ?
+    `, [id]);
+
+    res.json({ message: 'Invitation revoked successfully' });
+  } catch (error) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import express from 'express';
+import { validationResult, query } from 'express-validator';
+import { getDatabase } from '../database/init.js';
+import { ADMIN_ROLE } from '../middleware/permissions.js';
+
+const router = express.Router();
+
+// Alert everyone who can view inventory when a stock movement or reservation takes a product's
+// available quantity from above its reorder threshold to at or below it. Pass the connection the
+// movement was written on so the alert commits (or rolls back) with it.
+export const notifyLowStock = async (db, productId, previousQuantity, newQuantity) => {
+  const product = await db.get('SELECT id, name, sku, min_stock_level, status FROM products WHERE id = ?', [productId]);
+  if (!product || product.status !== 'active') return;
+
+  const threshold = product.min_stock_level;
+  if (previousQuantity <= threshold || newQuantity > threshold) return;
+
+  const title = newQuantity <= 0 ? `${product.name} is out of stock` : `${product.name} is low on stock`;
+  const message = `${product.sku}: ${newQuantity} unit(s) available, reorder threshold is ${threshold}`;
+
+  await db.run(`
+    INSERT INTO notifications (user_id, type, title, message, product_id)
+    SELECT id, 'low_stock', ?, ?, ? FROM users
+    WHERE status = 'active' AND (role = ? OR role IN (
+      SELECT r.name FROM roles r JOIN role_permissions rp ON rp.role_id = r.id WHERE rp.permission = 'inventory.view'
+    ))
+  `, [title, message, productId, ADMIN_ROLE]);
+};
+
+// Ask everyone who handles returns to review a new return request
+export const notifyReturnReviewers = (db, title, message) => db.run(`
+  INSERT INTO notifications (user_id, type, title, message)
+  SELECT id, 'return_request', ?, ? FROM users
+  WHERE status = 'active' AND (role = ? OR role IN (
+    SELECT r.name FROM roles r JOIN role_permissions rp ON rp.role_id = r.id WHERE rp.permission = 'returns.manage'
+  ))
+`, [title, message, ADMIN_ROLE]);
+
+// Ask every active approver of an agency to review an order that needs agency approval
+export const notifyAgencyApprovers = (db, agencyId, title, message) => db.run(`
+  INSERT INTO notifications (user_id, type, title, message)
+  SELECT id, 'approval_request', ?, ? FROM users
+  WHERE agency_id = ? AND agency_role = 'approver' AND status = 'active'
+`, [title, message, agencyId]);
+
+// Tell the user who placed an order what happened to it
+export const notifyOrderUpdate = (db, userId, title, message) => db.run(`
+  INSERT INTO notifications (user_id, type, title, message)
+  VALUES (?, 'order_update', ?, ?)
+`, [userId, title, message]);
+
+// Get notifications for the current user
+router.get('/', [
+  query('unread').optional().isBoolean(),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { unread, limit = 20 } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE n.user_id = ?';
+    const params = [req.user.id];
+
+    if (unread === 'true') {
+      whereClause += ' AND n.read_at IS NULL';
+    }
+
+    const notifications = await db.all(`
+      SELECT
+        n.*,
+        p.stock_quantity,
+        p.reserved_quantity,
+        p.min_stock_level
+      FROM notifications n
+      LEFT JOIN products p ON n.product_id = p.id
+      ${whereClause}
+      ORDER BY n.created_at DESC, n.id DESC
+      LIMIT ?
+    `, [...params, limit]);
+
+    const unreadResult = await db.get(
+      'SELECT COUNT(*) as count FROM notifications WHERE user_id = ? AND read_at IS NULL',
+      [req.user.id]
+    );
+
+    res.json({ notifications, unread_count: unreadResult.count });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark all notifications as read
+router.patch('/read-all', async (req, res) => {
+  try {
+    const db = getDatabase();
+
+    const result = await db.run(
+      'UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL',
+      [req.user.id]
+    );
+
+    res.json({ message: 'Notifications marked as read', updated: result.changes });
+  } catch (error) {
+    console.error('Mark all notifications read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Mark a single notification as read
+router.patch('/:id/read', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const notification = await db.get('SELECT id FROM notifications WHERE id = ? AND user_id = ?', [id, req.user.id]);
+    if (!notification) {
+      return res.status(404).json({ error: 'Notification not found' });
+    }
+
+    await db.run(
+      'UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP) WHERE id = ?',
+      [id]
+    );
+
+    res.json({ message: 'Notification marked as read' });
+  } catch (error) {
+    console.error('Mark notification read error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,16 +1,331 @@
 import express from 'express';
 import { body, validationResult, query } from 'express-validator';
-import { authenticateToken, requireAdmin, requireAnyRole } from '../middleware/auth.js';
-import { getDatabase } from '../database/init.js';
+import { requirePermission, requireRequester, requireAgencyRole, hasPermission } from '../middleware/auth.js';
+import { AGENCY_ROLE } from '../middleware/permissions.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
+import { notifyLowStock, notifyAgencyApprovers, notifyOrderUpdate } from './notifications.js';
+import { isProjectParticipant } from './projects.js';
+import { getTaxRates, findTaxRate } from './taxRates.js';
+import { getContractTiers, findContractPrice } from './priceLists.js';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = express.Router();
 
+const ORDER_STATUSES = [
+  'awaiting_agency_approval', 'pending', 'approved', 'processing', 'partially_shipped', 'shipped', 'delivered', 'cancelled', 'rejected'
+];
+
+// Orders that still hold reserved stock or wait for backordered stock
+const OPEN_ORDER_STATUSES = ['awaiting_agency_approval', 'pending', 'approved', 'processing', 'partially_shipped'];
+
+// Orders the depot can record shipments against
+const SHIPPABLE_STATUSES = ['processing', 'partially_shipped'];
+
+// Allowed order status transitions; cancellation is only possible before shipping.
+// Leaving awaiting_agency_approval for pending or rejected is the agency approver's call.
+// Moving to shipped sends everything still outstanding in one shipment; part shipments
+// go through POST /:id/shipments, which also sets partially_shipped, and POST /:id/close-short
+// ends a partially shipped order without its remaining units
+const ORDER_STATUS_TRANSITIONS = {
+  awaiting_agency_approval: ['cancelled'],
+  pending: ['approved', 'cancelled'],
+  approved: ['processing', 'cancelled'],
+  processing: ['shipped', 'cancelled'],
+  partially_shipped: ['shipped'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: [],
+  rejected: []
+};
+
+// Without orders.view_all, users see every order placed for their agency plus any they placed themselves
+export const canViewOrder = (user, order) => (
+  hasPermission(user, 'orders.view_all') || order.user_id === user.id || (user.agency_id != null && order.agency_id === user.agency_id)
+);
+
+const recordStatusChange = (db, orderId, fromStatus, toStatus, notes, userId) => db.run(`
+  INSERT INTO order_status_history (order_id, from_status, to_status, notes, changed_by)
+  VALUES (?, ?, ?, ?, ?)
+`, [orderId, fromStatus, toStatus, notes, userId]);
+
+// Hand stock that became available to backordered order lines, oldest order first. Pass the
+// connection the stock movement was written on so the allocation commits (or rolls back) with it.
+export const allocateBackorders = async (db, productId) => {
+  const product = await db.get('SELECT name, stock_quantity - reserved_quantity as available FROM products WHERE id = ?', [productId]);
+  if (!product || product.available <= 0) return [];
+
+  const backorderedLines = await db.all(`
+    SELECT
+      oi.id,
+      oi.order_id,
+      oi.quantity - oi.shipped_quantity - oi.reserved_quantity - oi.cancelled_quantity as backordered_quantity,
+      o.order_number,
+      o.user_id
+    FROM order_items oi
+    JOIN orders o ON oi.order_id = o.id
+    WHERE oi.product_id = ?
+      AND o.status IN (${OPEN_ORDER_STATUSES.map(() => '?').join(', ')})
+      AND oi.quantity - oi.shipped_quantity - oi.reserved_quantity - oi.cancelled_quantity > 0
+    ORDER BY o.created_at ASC, oi.id ASC
+  `, [productId, ...OPEN_ORDER_STATUSES]);
+
+  let available = product.available;
+  const allocated = [];
+  for (const line of backorderedLines) {
+    if (available <= 0) break;
+    const quantity = Math.min(line.backordered_quantity, available);
+
+    await db.run('UPDATE order_items SET reserved_quantity = reserved_quantity + ? WHERE id = ?', [quantity, line.id]);
+    await db.run(`
+      UPDATE products
+      SET reserved_quantity = reserved_quantity + ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [quantity, productId]);
+
+    await notifyOrderUpdate(db, line.user_id, `Backordered items for order ${line.order_number} are in stock`,
+      `${quantity} × ${product.name} reserved for your order`);
+
+    available -= quantity;
+    allocated.push({ order_id: line.order_id, order_number: line.order_number, quantity });
+  }
+  return allocated;
+};
+
+// Free the stock a cancelled, rejected or closed-short order was holding and pass it on to backorders;
+// nothing left the shelf, so on-hand quantities and the ledger are unchanged
+const releaseOrderReservations = async (tx, orderId) => {
+  const orderItems = await tx.all(`
+    SELECT oi.id, oi.product_id, oi.reserved_quantity as quantity, p.name as product_name
+    FROM order_items oi
+    LEFT JOIN products p ON oi.product_id = p.id
+    WHERE oi.order_id = ? AND oi.reserved_quantity > 0
+  `, [orderId]);
+  
+  const released = [];
+  for (const item of orderItems) {
+    await tx.run(`
+      UPDATE products 
+      SET reserved_quantity = MAX(reserved_quantity - ?, 0), updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [item.quantity, item.product_id]);
+    await tx.run('UPDATE order_items SET reserved_quantity = 0 WHERE id = ?', [item.id]);
+    
+    released.push(item);
+  }
+
+  for (const productId of new Set(released.map(item => item.product_id))) {
+    await allocateBackorders(tx, productId);
+  }
+  return released;
+};
+
+// Ship reserved units of an order's lines, turning their reservations into stock leaving the depot
+const createShipment = async (tx, order, lines, { carrier, tracking_number, notes }, userId) => {
+  const shipmentNumber = `SHP-${Date.now()}-${uuidv4().substring(0, 8).toUpperCase()}`;
+  const shipmentResult = await tx.run(`
+    INSERT INTO shipments (shipment_number, order_id, carrier, tracking_number, notes, shipped_by)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `, [shipmentNumber, order.id, carrier || null, tracking_number || null, notes || null, userId]);
+  
+  for (const line of lines) {
+    const item = await tx.get(`
+      SELECT oi.id, oi.product_id, oi.reserved_quantity, p.name as product_name
+      FROM order_items oi
+      LEFT JOIN products p ON oi.product_id = p.id
+      WHERE oi.id = ? AND oi.order_id = ?
+    `, [line.order_item_id, order.id]);
+    if (!item) {
+      throw new HttpError(400, `Item ${line.order_item_id} is not on this order`);
+    }
+    
+    if (line.quantity > item.reserved_quantity) {
+      throw new HttpError(400, `Only ${item.reserved_quantity} unit(s) of ${item.product_name} are reserved and ready to ship`);
+    }
+    
+    // A stock count may have left fewer units on hand than were reserved
+    const stockResult = await tx.run(`
+      UPDATE products 
+      SET stock_quantity = stock_quantity - ?, reserved_quantity = MAX(reserved_quantity - ?, 0), updated_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND stock_quantity >= ?
+    `, [line.quantity, line.quantity, item.product_id, line.quantity]);
+    
+    if (stockResult.changes === 0) {
+      throw new HttpError(400, `Not enough ${item.product_name} on hand to ship this order`);
+    }
+    
+    await tx.run(`
+      UPDATE order_items
+      SET reserved_quantity = reserved_quantity - ?, shipped_quantity = shipped_quantity + ?
+      WHERE id = ?
+    `, [line.quantity, line.quantity, item.id]);
+    
+    await tx.run(`
+      INSERT INTO shipment_items (shipment_id, order_item_id, quantity)
+      VALUES (?, ?, ?)
+    `, [shipmentResult.lastID, item.id, line.quantity]);
+    
+    const { stock_quantity: newStock } = await tx.get('SELECT stock_quantity FROM products WHERE id = ?', [item.product_id]);
+    
+    // Record inventory transaction
+    await tx.run(`
+      INSERT INTO inventory_transactions (
+        product_id, transaction_type, quantity, reference_type, reference_id, balance_after, notes, created_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [item.product_id, 'out', line.quantity, 'order', order.id, newStock, `Shipment ${shipmentNumber} for order ${order.order_number}`, userId]);
+  }
+  
+  return { id: shipmentResult.lastID, shipment_number: shipmentNumber };
+};
+
+// Requesters need their agency's sign-off for orders above its threshold or with items from flagged
+// categories; approvers' own orders and orders placed by depot staff go straight to the depot
+const needsAgencyApproval = async (db, user, totalAmount, items) => {
+  if (user.role !== AGENCY_ROLE || user.agency_role === 'approver' || !user.agency_id) {
+    return false;
+  }
+  const agency = await db.get('SELECT approval_threshold FROM agencies WHERE id = ?', [user.agency_id]);
+  if (agency?.approval_threshold != null && totalAmount > agency.approval_threshold) {
+    return true;
+  }
+  return items.some(item => item.product.requires_agency_approval);
+};
+
+export const roundCents = (amount) => Math.round(amount * 100) / 100;
+
+// Price order lines at the agency's contract price for the quantity, or the catalog price where no
+// price list covers it, and tax each at the rate for its category and the delivery region. Quotes and
+// placed orders share this, so the cart shows what the order records
+const priceOrder = async (db, items, deliveryRegion, agencyId) => {
+  const taxRates = await getTaxRates(db);
+  const contractTiers = await getContractTiers(db, agencyId, items.map(item => item.product_id));
+  const lines = [];
+  let subtotal = 0;
+  let tax = 0;
+
+  for (const item of items) {
+    const product = await db.get(`
+      SELECT p.id, p.name, p.sku, p.price, p.category_id, c.requires_agency_approval
+      FROM products p
+      LEFT JOIN categories c ON p.category_id = c.id
+      WHERE p.id = ? AND p.status = "active"
+    `, [item.product_id]);
+    if (!product) {
+      throw new HttpError(400, `Product ${item.product_id} not found or inactive`);
+    }
+
+    const contractPrice = findContractPrice(contractTiers, product.id, item.quantity);
+    const unitPrice = contractPrice?.unit_price ?? product.price;
+    const totalPrice = roundCents(unitPrice * item.quantity);
+    const taxRate = findTaxRate(taxRates, product.category_id, deliveryRegion);
+    const taxAmount = roundCents(totalPrice * (taxRate?.rate ?? 0) / 100);
+    subtotal += totalPrice;
+    tax += taxAmount;
+
+    lines.push({
+      product_id: product.id,
+      product_name: product.name,
+      sku: product.sku,
+      quantity: item.quantity,
+      list_price: product.price,
+      unit_price: unitPrice,
+      price_list_id: contractPrice?.price_list_id ?? null,
+      price_list_name: contractPrice?.price_list_name ?? null,
+      total_price: totalPrice,
+      tax_rate_id: taxRate?.id ?? null,
+      tax_rate_name: taxRate?.name ?? null,
+      tax_rate: taxRate?.rate ?? 0,
+      tax_amount: taxAmount,
+      product
+    });
+  }
+
+  subtotal = roundCents(subtotal);
+  tax = roundCents(tax);
+  return { items: lines, subtotal_amount: subtotal, tax_amount: tax, total_amount: roundCents(subtotal + tax) };
+};
+
+const orderItemValidators = [
+  body('delivery_region').optional({ nullable: true }).isString(),
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.product_id').isInt().withMessage('Valid product ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Valid quantity is required')
+];
+
+const ORDER_DETAIL_SELECT = `
+  SELECT 
+    o.*,
+    u.name as user_name,
+    a.name as agency_name,
+    p.name as project_name
+  FROM orders o
+  LEFT JOIN users u ON o.user_id = u.id
+  LEFT JOIN agencies a ON o.agency_id = a.id
+  LEFT JOIN projects p ON o.project_id = p.id
+  WHERE o.id = ?
+`;
+
+// Units neither shipped, reserved nor closed short are backordered until the order is cancelled or rejected
+const BACKORDERED_QUANTITY = `
+  CASE WHEN o.status IN ('cancelled', 'rejected') THEN 0
+    ELSE oi.quantity - oi.shipped_quantity - oi.reserved_quantity - oi.cancelled_quantity END
+`;
+
+const ORDER_ITEMS_SELECT = `
+  SELECT 
+    oi.*,
+    ${BACKORDERED_QUANTITY} as backordered_quantity,
+    (
+      SELECT COALESCE(SUM(ri.quantity), 0)
+      FROM return_items ri
+      JOIN returns r ON ri.return_id = r.id
+      WHERE ri.order_item_id = oi.id AND r.status IN ('requested', 'approved')
+    ) as pending_return_quantity,
+    p.name as product_name,
+    p.sku,
+    p.image_url,
+    pl.name as price_list_name
+  FROM order_items oi
+  JOIN orders o ON oi.order_id = o.id
+  LEFT JOIN products p ON oi.product_id = p.id
+  LEFT JOIN price_lists pl ON oi.price_list_id = pl.id
+  WHERE oi.order_id = ?
+  ORDER BY oi.id
+`;
+
+// Shipments of an order, each with the lines and quantities it carried
+const getOrderShipments = async (db, orderId) => {
+  const shipments = await db.all(`
+    SELECT s.*, u.name as shipped_by_name
+    FROM shipments s
+    LEFT JOIN users u ON s.shipped_by = u.id
+    WHERE s.order_id = ?
+    ORDER BY s.created_at ASC, s.id ASC
+  `, [orderId]);
+  
+  const shipmentItems = await db.all(`
+    SELECT si.shipment_id, si.order_item_id, si.quantity, p.name as product_name
+    FROM shipment_items si
+    JOIN shipments s ON si.shipment_id = s.id
+    JOIN order_items oi ON si.order_item_id = oi.id
+    LEFT JOIN products p ON oi.product_id = p.id
+    WHERE s.order_id = ?
+    ORDER BY si.id
+  `, [orderId]);
+  
+  return shipments.map(shipment => ({
+    ...shipment,
+    items: shipmentItems.filter(item => item.shipment_id === shipment.id)
+  }));
+};
+
 // Get all orders with optional filtering
-router.get('/', requireAnyRole, [
-  query('status').optional().isIn(['pending', 'approved', 'processing', 'shipped', 'delivered', 'cancelled']),
+router.get('/', [
+  query('status').optional().isIn(ORDER_STATUSES),
   query('user_id').optional().isInt(),
+  query('agency_id').optional().isInt(),
   query('project_id').optional().isInt(),
+  query('search').optional().isString(),
   query('page').optional().isInt({ min: 1 }),
   query('limit').optional().isInt({ min: 1, max: 100 })
 ], async (req, res) => {
@@ -20,16 +335,16 @@ router.get('/', requireAnyRole, [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { status, user_id, project_id, page = 1, limit = 20 } = req.query;
+    const { status, user_id, agency_id, project_id, search, page = 1, limit = 20 } = req.query;
     const db = getDatabase();
     
     let whereClause = 'WHERE 1=1';
     const params = [];
     
-    // Agency users can only see their own orders
-    if (req.user.role === 'agency') {
-      whereClause += ' AND o.user_id = ?';
-      params.push(req.user.id);
+    // Users without orders.view_all only see their agency's orders
+    if (!hasPermission(req.user, 'orders.view_all')) {
+      whereClause += ' AND (o.agency_id = ? OR o.user_id = ?)';
+      params.push(req.user.agency_id, req.user.id);
     }
     
     if (status) {
@@ -37,15 +352,26 @@ router.get('/', requireAnyRole, [
       params.push(status);
     }
     
-    if (user_id && req.user.role === 'admin') {
+    if (user_id && hasPermission(req.user, 'orders.view_all')) {
       whereClause += ' AND o.user_id = ?';
       params.push(user_id);
     }
     
+    if (agency_id && hasPermission(req.user, 'orders.view_all')) {
+      whereClause += ' AND o.agency_id = ?';
+      params.push(agency_id);
+    }
+    
     if (project_id) {
       whereClause += ' AND o.project_id = ?';
       params.push(project_id);
     }
+    
+    if (search) {
+      whereClause += ' AND (o.order_number LIKE ? OR u.name LIKE ? OR a.name LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm);
+    }
 
     const offset = (page - 1) * limit;
     
@@ -53,6 +379,8 @@ router.get('/', requireAnyRole, [
     const countResult = await db.get(`
       SELECT COUNT(*) as total
       FROM orders o
+      LEFT JOIN users u ON o.user_id = u.id
+      LEFT JOIN agencies a ON o.agency_id = a.id
       ${whereClause}
     `, params);
     
@@ -61,10 +389,16 @@ router.get('/', requireAnyRole, [
       SELECT 
         o.*,
         u.name as user_name,
-        u.agency_name,
-        p.name as project_name
+        a.name as agency_name,
+        p.name as project_name,
+        (SELECT COUNT(*) FROM order_items oi WHERE oi.order_id = o.id) as item_count,
+        (
+          SELECT COALESCE(SUM(${BACKORDERED_QUANTITY}), 0)
+          FROM order_items oi WHERE oi.order_id = o.id
+        ) as backordered_units
       FROM orders o
       LEFT JOIN users u ON o.user_id = u.id
+      LEFT JOIN agencies a ON o.agency_id = a.id
       LEFT JOIN projects p ON o.project_id = p.id
       ${whereClause}
       ORDER BY o.created_at DESC
@@ -87,47 +421,28 @@ router.get('/', requireAnyRole, [
 });
 
 // Get single order by ID
-router.get('/:id', requireAnyRole, async (req, res) => {
+router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
     const db = getDatabase();
     
     // Get order with user and project info
-    const order = await db.get(`
-      SELECT 
-        o.*,
-        u.name as user_name,
-        u.agency_name,
-        p.name as project_name
-      FROM orders o
-      LEFT JOIN users u ON o.user_id = u.id
-      LEFT JOIN projects p ON o.project_id = p.id
-      WHERE o.id = ?
-    `, [id]);
+    const order = await db.get(ORDER_DETAIL_SELECT, [id]);
     
     if (!order) {
       return res.status(404).json({ error: 'Order not found' });
     }
     
-    // Agency users can only see their own orders
-    if (req.user.role === 'agency' && order.user_id !== req.user.id) {
+    if (!canViewOrder(req.user, order)) {
       return res.status(403).json({ error: 'Access denied' });
     }
     
-    // Get order items
-    const orderItems = await db.all(`
-      SELECT 
-        oi.*,
-        p.name as product_name,
-        p.sku,
-        p.image_url
-      FROM order_items oi
-      LEFT JOIN products p ON oi.product_id = p.id
-      WHERE oi.order_id = ?
-    `, [id]);
+    // Get order items and shipments
+    const orderItems = await db.all(ORDER_ITEMS_SELECT, [id]);
+    const shipments = await getOrderShipments(db, id);
     
     res.json({ 
-      order: { ...order, items: orderItems }
+      order: { ...order, items: orderItems, shipments }
     });
   } catch (error) {
     console.error('Get order error:', error);
@@ -135,14 +450,44 @@ router.get('/:id', requireAnyRole, async (req, res) => {
   }
 });
 
+// Quote an order without placing it: line prices, the tax rate applied to each line and the totals
+router.post('/quote', requirePermission('orders.create'), requireRequester, orderItemValidators, async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { items } = req.body;
+    const deliveryRegion = req.body.delivery_region?.trim() || null;
+    const db = getDatabase();
+
+    const pricing = await priceOrder(db, items, deliveryRegion, req.user.agency_id);
+    const requiresApproval = await needsAgencyApproval(db, req.user, pricing.total_amount, pricing.items);
+
+    res.json({
+      quote: {
+        ...pricing,
+        items: pricing.items.map(({ product, ...line }) => line),
+        delivery_region: deliveryRegion,
+        requires_agency_approval: requiresApproval
+      }
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Quote order error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Create new order
-router.post('/', requireAnyRole, [
+router.post('/', requirePermission('orders.create'), requireRequester, [
   body('project_id').optional().isInt(),
   body('shipping_address').optional(),
   body('notes').optional(),
-  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
-  body('items.*.product_id').isInt().withMessage('Valid product ID is required'),
-  body('items.*.quantity').isInt({ min: 1 }).withMessage('Valid quantity is required')
+  ...orderItemValidators
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -151,6 +496,7 @@ router.post('/', requireAnyRole, [
     }
 
     const { project_id, shipping_address, notes, items } = req.body;
+    const deliveryRegion = req.body.delivery_region?.trim() || null;
     const db = getDatabase();
     
     // Validate project if provided
@@ -159,102 +505,97 @@ router.post('/', requireAnyRole, [
       if (!project) {
         return res.status(400).json({ error: 'Project not found' });
       }
+      
+      if (req.user.role === AGENCY_ROLE && !(await isProjectParticipant(db, project_id, req.user))) {
+        return res.status(403).json({ error: 'You are not participating in this project' });
+      }
     }
     
-    // Validate products and calculate total
-    let totalAmount = 0;
-    const validatedItems = [];
-    
-    for (const item of items) {
-      const product = await db.get('SELECT id, name, price, stock_quantity FROM products WHERE id = ? AND status = "active"', [item.product_id]);
-      if (!product) {
-        return res.status(400).json({ error: `Product ${item.product_id} not found or inactive` });
+    // Price and tax the products, reserve what is in stock, backorder the rest and write the order atomically
+    const orderId = await withTransaction(async (tx) => {
+      const pricing = await priceOrder(tx, items, deliveryRegion, req.user.agency_id);
+      const totalAmount = pricing.total_amount;
+      const validatedItems = pricing.items;
+      
+      // Generate order number
+      const orderNumber = `ORD-${Date.now()}-${uuidv4().substring(0, 8).toUpperCase()}`;
+      const awaitingApproval = await needsAgencyApproval(tx, req.user, totalAmount, validatedItems);
+      const status = awaitingApproval ? 'awaiting_agency_approval' : 'pending';
+      
+      // Create order
+      const orderResult = await tx.run(`
+        INSERT INTO orders (
+          order_number, user_id, agency_id, project_id, status, subtotal_amount, tax_amount, total_amount,
+          shipping_address, delivery_region, notes
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [orderNumber, req.user.id, req.user.agency_id, project_id, status, pricing.subtotal_amount, pricing.tax_amount,
+        totalAmount, shipping_address, deliveryRegion, notes]);
+      
+      const newOrderId = orderResult.lastID;
+      
+      await recordStatusChange(tx, newOrderId, null, status, 'Order placed', req.user.id);
+      
+      if (awaitingApproval) {
+        await notifyAgencyApprovers(tx, req.user.agency_id, `Order ${orderNumber} needs your approval`,
+          `${req.user.name} placed an order for $${totalAmount.toFixed(2)}`);
       }
       
-      if (product.stock_quantity < item.quantity) {
-        return res.status(400).json({ error: `Insufficient stock for ${product.name}` });
+      // Create order items and reserve their stock until the order ships; whatever is not
+      // available is backordered and reserved when stock comes in
+      for (const item of validatedItems) {
+        const { available } = await tx.get('SELECT stock_quantity - reserved_quantity as available FROM products WHERE id = ?', [item.product_id]);
+        const reserved = Math.max(Math.min(item.quantity, available), 0);
+        
+        if (reserved > 0) {
+          await tx.run(`
+            UPDATE products 
+            SET reserved_quantity = reserved_quantity + ?, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ?
+          `, [reserved, item.product_id]);
+        }
+        
+        await tx.run(`
+          INSERT INTO order_items (
+            order_id, product_id, quantity, reserved_quantity, unit_price, total_price, price_list_id,
+            tax_rate_id, tax_rate, tax_amount
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [newOrderId, item.product_id, item.quantity, reserved, item.unit_price, item.total_price, item.price_list_id,
+          item.tax_rate_id, item.tax_rate, item.tax_amount]);
+
+        await notifyLowStock(tx, item.product_id, available, available - reserved);
       }
       
-      const itemTotal = product.price * item.quantity;
-      totalAmount += itemTotal;
+      // The order now holds these lines, so they leave the saved cart along with it
+      const productIds = validatedItems.map(item => item.product_id);
+      await tx.run(`
+        DELETE FROM cart_items
+        WHERE cart_id = (SELECT id FROM carts WHERE user_id = ?) AND product_id IN (${productIds.map(() => '?').join(', ')})
+      `, [req.user.id, ...productIds]);
       
-      validatedItems.push({
-        ...item,
-        product,
-        unit_price: product.price,
-        total_price: itemTotal
-      });
-    }
-    
-    // Generate order number
-    const orderNumber = `ORD-${Date.now()}-${uuidv4().substring(0, 8).toUpperCase()}`;
-    
-    // Create order
-    const orderResult = await db.run(`
-      INSERT INTO orders (
-        order_number, user_id, project_id, status, total_amount, shipping_address, notes
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [orderNumber, req.user.id, project_id, 'pending', totalAmount, shipping_address, notes]);
-    
-    const orderId = orderResult.lastID;
-    
-    // Create order items and update inventory
-    for (const item of validatedItems) {
-      await db.run(`
-        INSERT INTO order_items (
-          order_id, product_id, quantity, unit_price, total_price
-        ) VALUES (?, ?, ?, ?, ?)
-      `, [orderId, item.product_id, item.quantity, item.unit_price, item.total_price]);
-      
-      // Update product stock
-      const newStock = item.product.stock_quantity - item.quantity;
-      await db.run('UPDATE products SET stock_quantity = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [newStock, item.product_id]);
-      
-      // Record inventory transaction
-      await db.run(`
-        INSERT INTO inventory_transactions (
-          product_id, transaction_type, quantity, reference_type, reference_id, notes, created_by
-        ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      `, [item.product_id, 'out', item.quantity, 'order', orderId, `Order ${orderNumber}`, req.user.id]);
-    }
+      return newOrderId;
+    });
     
     // Get created order with items
-    const createdOrder = await db.get(`
-      SELECT 
-        o.*,
-        u.name as user_name,
-        u.agency_name,
-        p.name as project_name
-      FROM orders o
-      LEFT JOIN users u ON o.user_id = u.id
-      LEFT JOIN projects p ON o.project_id = p.id
-      WHERE o.id = ?
-    `, [orderId]);
+    const createdOrder = await db.get(ORDER_DETAIL_SELECT, [orderId]);
     
-    const orderItems = await db.all(`
-      SELECT 
-        oi.*,
-        p.name as product_name,
-        p.sku,
-        p.image_url
-      FROM order_items oi
-      LEFT JOIN products p ON oi.product_id = p.id
-      WHERE oi.order_id = ?
-    `, [orderId]);
+    const orderItems = await db.all(ORDER_ITEMS_SELECT, [orderId]);
     
     res.status(201).json({
       message: 'Order created successfully',
       order: { ...createdOrder, items: orderItems }
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Create order error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Update order status (admin only)
-router.patch('/:id/status', requireAdmin, [
-  body('status').isIn(['pending', 'approved', 'processing', 'shipped', 'delivered', 'cancelled']).withMessage('Valid status is required'),
+router.patch('/:id/status', requirePermission('orders.manage'), [
+  body('status').isIn(ORDER_STATUSES).withMessage('Valid status is required'),
   body('notes').optional()
 ], async (req, res) => {
   try {
@@ -267,85 +608,364 @@ router.patch('/:id/status', requireAdmin, [
     const { status, notes } = req.body;
     const db = getDatabase();
     
-    // Get order
-    const order = await db.get('SELECT id, status FROM orders WHERE id = ?', [id]);
-    if (!order) {
-      return res.status(404).json({ error: 'Order not found' });
+    // Change status and move reserved stock in one transaction
+    const releasedItems = await withTransaction(async (tx) => {
+      const order = await tx.get('SELECT id, order_number, status FROM orders WHERE id = ?', [id]);
+      if (!order) {
+        throw new HttpError(404, 'Order not found');
+      }
+      
+      if (!ORDER_STATUS_TRANSITIONS[order.status].includes(status)) {
+        throw new HttpError(400, `Cannot change order status from ${order.status} to ${status}`);
+      }
+      
+      // Update order status
+      await tx.run(`
+        UPDATE orders 
+        SET status = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [status, id]);
+      
+      await recordStatusChange(tx, id, order.status, status, notes, req.user.id);
+      
+      // Everything still outstanding leaves in one shipment, which needs every unit reserved
+      if (status === 'shipped') {
+        const outstandingItems = await tx.all(`
+          SELECT id as order_item_id, reserved_quantity as quantity, quantity - shipped_quantity - reserved_quantity as backordered_quantity
+          FROM order_items
+          WHERE order_id = ? AND quantity > shipped_quantity
+        `, [id]);
+        if (outstandingItems.some(item => item.backordered_quantity > 0)) {
+          throw new HttpError(400, 'This order has backordered items; record a shipment for the reserved units instead');
+        }
+        await createShipment(tx, order, outstandingItems, { notes }, req.user.id);
+      }
+      
+      // If order is cancelled, its reserved stock becomes available again
+      if (status === 'cancelled') {
+        return releaseOrderReservations(tx, id);
+      }
+      
+      return [];
+    });
+    
+    const updatedOrder = await db.get(ORDER_DETAIL_SELECT, [id]);
+    
+    res.json({
+      message: 'Order status updated successfully',
+      order: updatedOrder,
+      released_items: releasedItems
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Update order status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Record a shipment of reserved units; the order becomes shipped once every line has left in full
+router.post('/:id/shipments', requirePermission('orders.manage'), [
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.order_item_id').isInt().withMessage('Valid order item ID is required'),
+  body('items.*.quantity').isInt({ min: 0 }).withMessage('Valid quantity is required'),
+  body('carrier').optional().trim(),
+  body('tracking_number').optional().trim(),
+  body('notes').optional()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
+
+    const { id } = req.params;
+    const { items, carrier, tracking_number, notes } = req.body;
+    const lines = items.filter(item => item.quantity > 0);
+    if (lines.length === 0) {
+      return res.status(400).json({ error: 'Enter a quantity for at least one item' });
+    }
+
+    const db = getDatabase();
     
-    // Update order status
-    await db.run(`
-      UPDATE orders 
-      SET status = ?, updated_at = CURRENT_TIMESTAMP
-      WHERE id = ?
-    `, [status, id]);
+    // Stock, line progress, ledger entries and status change commit together
+    const shipment = await withTransaction(async (tx) => {
+      const order = await tx.get('SELECT id, order_number, user_id, status FROM orders WHERE id = ?', [id]);
+      if (!order) {
+        throw new HttpError(404, 'Order not found');
+      }
+      
+      if (!SHIPPABLE_STATUSES.includes(order.status)) {
+        throw new HttpError(400, `Cannot ship a ${order.status} order`);
+      }
+      
+      const newShipment = await createShipment(tx, order, lines, { carrier, tracking_number, notes }, req.user.id);
+      
+      const outstanding = await tx.get(`
+        SELECT COUNT(*) as count
+        FROM order_items
+        WHERE order_id = ? AND shipped_quantity < quantity
+      `, [id]);
+      const status = outstanding.count === 0 ? 'shipped' : 'partially_shipped';
+      
+      await tx.run(`
+        UPDATE orders 
+        SET status = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [status, id]);
+      
+      const tracking = [carrier, tracking_number].filter(Boolean).join(' ');
+      if (status !== order.status) {
+        await recordStatusChange(tx, id, order.status, status,
+          `Shipment ${newShipment.shipment_number}${tracking ? ` (${tracking})` : ''}`, req.user.id);
+      }
+      
+      await notifyOrderUpdate(tx, order.user_id,
+        status === 'shipped' ? `Order ${order.order_number} has shipped` : `Part of order ${order.order_number} has shipped`,
+        tracking ? `Shipment ${newShipment.shipment_number}, tracking ${tracking}` : `Shipment ${newShipment.shipment_number}`);
+      
+      return newShipment;
+    });
+    
+    const updatedOrder = await db.get(ORDER_DETAIL_SELECT, [id]);
+    const orderItems = await db.all(ORDER_ITEMS_SELECT, [id]);
+    const shipments = await getOrderShipments(db, id);
     
-    // If order is cancelled, restore inventory
-    if (status === 'cancelled' && order.status !== 'cancelled') {
-      const orderItems = await db.all('SELECT product_id, quantity FROM order_items WHERE order_id = ?', [id]);
+    res.status(201).json({
+      message: 'Shipment recorded successfully',
+      shipment: shipments.find(s => s.id === shipment.id),
+      order: { ...updatedOrder, items: orderItems, shipments }
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Create shipment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Close a partially shipped order short: release what is still reserved for it, cancel the units
+// that have not shipped and stop charging for them. The order is then shipped as it stands
+router.post('/:id/close-short', requirePermission('orders.manage'), [
+  body('notes').optional()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { notes } = req.body;
+    const db = getDatabase();
+    
+    const { releasedItems, cancelledUnits } = await withTransaction(async (tx) => {
+      const order = await tx.get(`
+        SELECT id, order_number, user_id, status, subtotal_amount, tax_amount
+        FROM orders WHERE id = ?
+      `, [id]);
+      if (!order) {
+        throw new HttpError(404, 'Order not found');
+      }
       
-      for (const item of orderItems) {
-        // Get current stock
-        const product = await db.get('SELECT stock_quantity FROM products WHERE id = ?', [item.product_id]);
-        const newStock = product.stock_quantity + item.quantity;
-        
-        // Update stock
-        await db.run('UPDATE products SET stock_quantity = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [newStock, item.product_id]);
-        
-        // Record inventory transaction
-        await db.run(`
-          INSERT INTO inventory_transactions (
-            product_id, transaction_type, quantity, reference_type, reference_id, notes, created_by
-          ) VALUES (?, ?, ?, ?, ?, ?, ?)
-        `, [item.product_id, 'in', item.quantity, 'order', id, 'Order cancellation - stock restored', req.user.id]);
+      if (order.status !== 'partially_shipped') {
+        throw new HttpError(400, 'Only partially shipped orders can be closed short');
       }
+      
+      // Leave the open statuses first so the released stock goes to other orders' backorders
+      await tx.run(`
+        UPDATE orders 
+        SET status = 'shipped', updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [id]);
+      
+      const released = await releaseOrderReservations(tx, id);
+      
+      const lines = await tx.all(`
+        SELECT id, quantity, quantity - shipped_quantity - cancelled_quantity as cancelled, unit_price, tax_amount
+        FROM order_items
+        WHERE order_id = ? AND quantity - shipped_quantity - cancelled_quantity > 0
+      `, [id]);
+      
+      let units = 0;
+      let subtotalCredit = 0;
+      let taxCredit = 0;
+      for (const line of lines) {
+        await tx.run('UPDATE order_items SET cancelled_quantity = cancelled_quantity + ? WHERE id = ?', [line.cancelled, line.id]);
+        units += line.cancelled;
+        subtotalCredit += line.cancelled * line.unit_price;
+        taxCredit += line.tax_amount * line.cancelled / line.quantity;
+      }
+      
+      const subtotal = roundCents(Math.max(order.subtotal_amount - subtotalCredit, 0));
+      const tax = roundCents(Math.max(order.tax_amount - taxCredit, 0));
+      await tx.run(`
+        UPDATE orders 
+        SET subtotal_amount = ?, tax_amount = ?, total_amount = ?
+        WHERE id = ?
+      `, [subtotal, tax, roundCents(subtotal + tax), id]);
+      
+      const summary = `Closed short; ${units} unshipped unit(s) cancelled`;
+      await recordStatusChange(tx, id, order.status, 'shipped', notes ? `${summary}. ${notes}` : summary, req.user.id);
+      
+      await notifyOrderUpdate(tx, order.user_id, `Order ${order.order_number} was closed short`,
+        `${units} unit(s) that had not shipped were cancelled and are no longer charged`);
+      
+      return { releasedItems: released, cancelledUnits: units };
+    });
+    
+    const updatedOrder = await db.get(ORDER_DETAIL_SELECT, [id]);
+    
+    res.json({
+      message: 'Order closed short',
+      order: updatedOrder,
+      released_items: releasedItems,
+      cancelled_units: cancelledUnits
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Close order short error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Approve or reject an order awaiting agency approval (approvers of the ordering agency)
+router.patch('/:id/agency-approval', requireAgencyRole(['approver']), [
+  body('decision').isIn(['approve', 'reject']).withMessage('Decision must be approve or reject'),
+  body('comments').if(body('decision').equals('reject')).trim().notEmpty().withMessage('A reason is required when rejecting an order'),
+  body('comments').optional().trim()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
     }
+
+    const { id } = req.params;
+    const { decision, comments } = req.body;
+    const db = getDatabase();
     
-    const updatedOrder = await db.get(`
-      SELECT 
-        o.*,
-        u.name as user_name,
-        u.agency_name,
-        p.name as project_name
-      FROM orders o
-      LEFT JOIN users u ON o.user_id = u.id
-      LEFT JOIN projects p ON o.project_id = p.id
-      WHERE o.id = ?
-    `, [id]);
+    // Depot staff pass requireAgencyRole, but this decision belongs to the agency
+    if (req.user.role !== AGENCY_ROLE) {
+      return res.status(403).json({ error: 'Only agency approvers can approve orders for their agency' });
+    }
+    
+    const releasedItems = await withTransaction(async (tx) => {
+      const order = await tx.get('SELECT id, order_number, user_id, agency_id, status FROM orders WHERE id = ?', [id]);
+      if (!order) {
+        throw new HttpError(404, 'Order not found');
+      }
+      
+      if (order.agency_id !== req.user.agency_id) {
+        throw new HttpError(403, 'Access denied');
+      }
+      
+      if (order.status !== 'awaiting_agency_approval') {
+        throw new HttpError(400, 'Order is not awaiting agency approval');
+      }
+      
+      const status = decision === 'approve' ? 'pending' : 'rejected';
+      
+      await tx.run(`
+        UPDATE orders 
+        SET status = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [status, id]);
+      
+      await recordStatusChange(tx, id, order.status, status, comments || null, req.user.id);
+      
+      if (order.user_id !== req.user.id) {
+        await notifyOrderUpdate(tx, order.user_id,
+          decision === 'approve' ? `Order ${order.order_number} was approved` : `Order ${order.order_number} was rejected`,
+          comments ? `${req.user.name}: ${comments}` : `Approved by ${req.user.name}`);
+      }
+      
+      if (status === 'rejected') {
+        return releaseOrderReservations(tx, id);
+      }
+      
+      return [];
+    });
+    
+    const updatedOrder = await db.get(ORDER_DETAIL_SELECT, [id]);
     
     res.json({
-      message: 'Order status updated successfully',
-      order: updatedOrder
+      message: decision === 'approve' ? 'Order approved and sent to the depot' : 'Order rejected',
+      order: updatedOrder,
+      released_items: releasedItems
     });
   } catch (error) {
-    console.error('Update order status error:', error);
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Agency approval error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get order status history
+router.get('/:id/history', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+    
+    const order = await db.get('SELECT id, user_id, agency_id FROM orders WHERE id = ?', [id]);
+    if (!order) {
+      return res.status(404).json({ error: 'Order not found' });
+    }
+    
+    if (!canViewOrder(req.user, order)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    
+    const history = await db.all(`
+      SELECT 
+        h.*,
+        u.name as changed_by_name,
+        u.role as changed_by_role
+      FROM order_status_history h
+      LEFT JOIN users u ON h.changed_by = u.id
+      WHERE h.order_id = ?
+      ORDER BY h.created_at ASC, h.id ASC
+    `, [id]);
+    
+    res.json({ history });
+  } catch (error) {
+    console.error('Get order history error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Get order statistics
-router.get('/stats/overview', requireAnyRole, async (req, res) => {
+router.get('/stats/overview', async (req, res) => {
   try {
     const db = getDatabase();
     
     let whereClause = '';
     const params = [];
     
-    // Agency users can only see their own stats
-    if (req.user.role === 'agency') {
-      whereClause = 'WHERE user_id = ?';
-      params.push(req.user.id);
+    // Users without orders.view_all only see their agency's stats
+    if (!hasPermission(req.user, 'orders.view_all')) {
+      whereClause = 'WHERE (agency_id = ? OR user_id = ?)';
+      params.push(req.user.agency_id, req.user.id);
     }
     
     const stats = await db.get(`
       SELECT 
         COUNT(*) as total_orders,
+        SUM(CASE WHEN status = 'awaiting_agency_approval' THEN 1 ELSE 0 END) as awaiting_approval_orders,
         SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending_orders,
         SUM(CASE WHEN status = 'approved' THEN 1 ELSE 0 END) as approved_orders,
         SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing_orders,
+        SUM(CASE WHEN status = 'partially_shipped' THEN 1 ELSE 0 END) as partially_shipped_orders,
         SUM(CASE WHEN status = 'shipped' THEN 1 ELSE 0 END) as shipped_orders,
         SUM(CASE WHEN status = 'delivered' THEN 1 ELSE 0 END) as delivered_orders,
         SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) as cancelled_orders,
+        SUM(CASE WHEN status = 'rejected' THEN 1 ELSE 0 END) as rejected_orders,
         SUM(total_amount) as total_value
       FROM orders
       ${whereClause}
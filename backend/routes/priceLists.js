@@ -0,0 +1,328 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { requirePermission } from '../middleware/auth.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
+
+const router = express.Router();
+
+// Lists in effect today; either end of the date range may be left open
+const IN_EFFECT = `
+  (pl.effective_from IS NULL OR pl.effective_from <= date('now'))
+  AND (pl.effective_to IS NULL OR pl.effective_to >= date('now'))
+`;
+
+const PRICE_LIST_SELECT = `
+  SELECT
+    pl.*,
+    a.name as agency_name,
+    u.name as created_by_name,
+    (SELECT COUNT(*) FROM price_list_items pli WHERE pli.price_list_id = pl.id) as item_count,
+    CASE WHEN ${IN_EFFECT} THEN 1 ELSE 0 END as in_effect
+  FROM price_lists pl
+  LEFT JOIN agencies a ON pl.agency_id = a.id
+  LEFT JOIN users u ON pl.created_by = u.id
+`;
+
+const getPriceListWithItems = async (db, id) => {
+  const priceList = await db.get(`${PRICE_LIST_SELECT} WHERE pl.id = ?`, [id]);
+  if (!priceList) return null;
+
+  const items = await db.all(`
+    SELECT
+      pli.*,
+      p.name as product_name,
+      p.sku,
+      p.price as list_price
+    FROM price_list_items pli
+    LEFT JOIN products p ON pli.product_id = p.id
+    WHERE pli.price_list_id = ?
+    ORDER BY p.name, pli.min_quantity
+  `, [id]);
+
+  return { ...priceList, items };
+};
+
+// Quantity breaks of the agency's price lists in effect today for the given products
+export const getContractTiers = async (db, agencyId, productIds) => {
+  if (!agencyId || productIds.length === 0) return [];
+  return db.all(`
+    SELECT
+      pli.product_id,
+      pli.min_quantity,
+      pli.unit_price,
+      pl.id as price_list_id,
+      pl.name as price_list_name
+    FROM price_list_items pli
+    JOIN price_lists pl ON pli.price_list_id = pl.id
+    WHERE pl.agency_id = ? AND pli.product_id IN (${productIds.map(() => '?').join(', ')}) AND ${IN_EFFECT}
+    ORDER BY pli.product_id, pli.min_quantity
+  `, [agencyId, ...productIds]);
+};
+
+// The contract price for a quantity of a product: the lowest unit price among the breaks the
+// quantity reaches. Null means no price list covers it and the catalog price applies
+export const findContractPrice = (tiers, productId, quantity) => {
+  let best = null;
+  for (const tier of tiers) {
+    if (tier.product_id !== productId || tier.min_quantity > quantity) continue;
+    if (!best || tier.unit_price < best.unit_price) {
+      best = tier;
+    }
+  }
+  return best;
+};
+
+const priceListValidators = (optional) => [
+  optional
+    ? body('name').optional().trim().notEmpty().withMessage('Price list name cannot be empty')
+    : body('name').trim().notEmpty().withMessage('Price list name is required'),
+  optional
+    ? body('agency_id').optional().isInt().withMessage('Valid agency ID is required')
+    : body('agency_id').isInt().withMessage('Valid agency ID is required'),
+  body('contract_reference').optional({ nullable: true }),
+  body('effective_from').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Valid start date is required'),
+  body('effective_to').optional({ nullable: true, checkFalsy: true }).isISO8601().withMessage('Valid end date is required'),
+  body('notes').optional({ nullable: true }),
+  optional
+    ? body('items').optional().isArray().withMessage('Items must be an array')
+    : body('items').isArray().withMessage('Items must be an array'),
+  body('items.*.product_id').isInt().withMessage('Valid product ID is required'),
+  body('items.*.min_quantity').optional().isInt({ min: 1 }).withMessage('Minimum quantity must be at least 1'),
+  body('items.*.unit_price').isFloat({ min: 0 }).withMessage('Valid unit price is required')
+];
+
+const validatePriceList = async (tx, { agency_id, effective_from, effective_to }) => {
+  const agency = await tx.get('SELECT id FROM agencies WHERE id = ?', [agency_id]);
+  if (!agency) {
+    throw new HttpError(400, 'Agency not found');
+  }
+  if (effective_from && effective_to && effective_to < effective_from) {
+    throw new HttpError(400, 'The end date cannot be before the start date');
+  }
+};
+
+// Replace a list's quantity breaks; a product can have one price per minimum quantity
+const writePriceListItems = async (tx, priceListId, items) => {
+  const seen = new Set();
+  for (const item of items) {
+    const minQuantity = item.min_quantity ?? 1;
+    const key = `${item.product_id}:${minQuantity}`;
+    if (seen.has(key)) {
+      throw new HttpError(400, `Product ${item.product_id} has more than one price for ${minQuantity}+ units`);
+    }
+    seen.add(key);
+
+    const product = await tx.get('SELECT id FROM products WHERE id = ?', [item.product_id]);
+    if (!product) {
+      throw new HttpError(400, `Product ${item.product_id} not found`);
+    }
+  }
+
+  await tx.run('DELETE FROM price_list_items WHERE price_list_id = ?', [priceListId]);
+  for (const item of items) {
+    await tx.run(`
+      INSERT INTO price_list_items (price_list_id, product_id, min_quantity, unit_price)
+      VALUES (?, ?, ?, ?)
+    `, [priceListId, item.product_id, item.min_quantity ?? 1, item.unit_price]);
+  }
+};
+
+// Get all price lists with optional filtering
+router.get('/', requirePermission('pricing.view'), [
+  query('agency_id').optional().isInt()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { agency_id } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (agency_id) {
+      whereClause += ' AND pl.agency_id = ?';
+      params.push(agency_id);
+    }
+
+    const priceLists = await db.all(`
+      ${PRICE_LIST_SELECT}
+      ${whereClause}
+      ORDER BY a.name ASC, pl.effective_from DESC, pl.name ASC
+    `, params);
+
+    res.json({ price_lists: priceLists });
+  } catch (error) {
+    console.error('Get price lists error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Contract prices the current user's agency pays today for the given products
+router.get('/contract-prices', [
+  query('product_ids').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const productIds = (req.query.product_ids || '')
+      .split(',')
+      .map(id => parseInt(id))
+      .filter(id => Number.isInteger(id));
+    const db = getDatabase();
+
+    const tiers = await getContractTiers(db, req.user.agency_id, productIds);
+
+    res.json({ contract_prices: tiers });
+  } catch (error) {
+    console.error('Get contract prices error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single price list with its quantity breaks
+router.get('/:id', requirePermission('pricing.view'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const priceList = await getPriceListWithItems(db, id);
+    if (!priceList) {
+      return res.status(404).json({ error: 'Price list not found' });
+    }
+
+    res.json({ price_list: priceList });
+  } catch (error) {
+    console.error('Get price list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create new price list
+router.post('/', requirePermission('pricing.manage'), priceListValidators(false), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, agency_id, contract_reference, notes, items } = req.body;
+    const effectiveFrom = req.body.effective_from || null;
+    const effectiveTo = req.body.effective_to || null;
+
+    const priceListId = await withTransaction(async (tx) => {
+      await validatePriceList(tx, { agency_id, effective_from: effectiveFrom, effective_to: effectiveTo });
+
+      const result = await tx.run(`
+        INSERT INTO price_lists (name, agency_id, contract_reference, effective_from, effective_to, notes, created_by)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [name, agency_id, contract_reference || null, effectiveFrom, effectiveTo, notes || null, req.user.id]);
+
+      await writePriceListItems(tx, result.lastID, items);
+      return result.lastID;
+    });
+
+    const priceList = await getPriceListWithItems(getDatabase(), priceListId);
+
+    res.status(201).json({
+      message: 'Price list created successfully',
+      price_list: priceList
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Create price list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update price list; when items are given they replace its quantity breaks. Orders already
+// placed keep the prices they were charged
+router.put('/:id', requirePermission('pricing.manage'), priceListValidators(true), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+
+    await withTransaction(async (tx) => {
+      const existing = await tx.get('SELECT * FROM price_lists WHERE id = ?', [id]);
+      if (!existing) {
+        throw new HttpError(404, 'Price list not found');
+      }
+
+      const updated = { ...existing };
+      for (const field of ['name', 'agency_id', 'contract_reference', 'effective_from', 'effective_to', 'notes']) {
+        if (req.body[field] !== undefined) {
+          updated[field] = req.body[field] === '' ? null : req.body[field];
+        }
+      }
+      await validatePriceList(tx, updated);
+
+      await tx.run(`
+        UPDATE price_lists
+        SET name = ?, agency_id = ?, contract_reference = ?, effective_from = ?, effective_to = ?, notes = ?,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [updated.name, updated.agency_id, updated.contract_reference, updated.effective_from, updated.effective_to, updated.notes, id]);
+
+      if (req.body.items) {
+        await writePriceListItems(tx, id, req.body.items);
+      }
+    });
+
+    const priceList = await getPriceListWithItems(getDatabase(), id);
+
+    res.json({
+      message: 'Price list updated successfully',
+      price_list: priceList
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Update price list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete price list
+router.delete('/:id', requirePermission('pricing.manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const priceList = await db.get('SELECT id FROM price_lists WHERE id = ?', [id]);
+    if (!priceList) {
+      return res.status(404).json({ error: 'Price list not found' });
+    }
+
+    // Price lists that orders were charged from are kept for the audit trail
+    const orderItem = await db.get('SELECT id FROM order_items WHERE price_list_id = ? LIMIT 1', [id]);
+    if (orderItem) {
+      return res.status(400).json({ error: 'Cannot delete price list that orders were priced from; end its effective dates instead' });
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.run('DELETE FROM price_list_items WHERE price_list_id = ?', [id]);
+      await tx.run('DELETE FROM price_lists WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Price list deleted successfully' });
+  } catch (error) {
+    console.error('Delete price list error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
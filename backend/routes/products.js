@@ -1,15 +1,119 @@
 import express from 'express';
 import { body, validationResult, query } from 'express-validator';
-import { authenticateToken, requireAdmin, requireAnyRole } from '../middleware/auth.js';
-import { getDatabase } from '../database/init.js';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
+import { notifyLowStock } from './notifications.js';
+import { allocateBackorders } from './orders.js';
 
 const router = express.Router();
 
+// Reason codes accepted for manual stock movements
+const STOCK_REASONS = [
+  'received', 'returned', 'transfer_in',
+  'damaged', 'lost', 'expired', 'internal_use', 'transfer_out',
+  'cycle_count', 'correction', 'other'
+];
+
+// Sort orders for product listings; ties fall back to the newest product so pages stay stable.
+// Relevance only applies to searches and lists everything else newest first
+const PRODUCT_SORTS = {
+  relevance: 's.search_rank ASC',
+  newest: 'p.created_at DESC',
+  name: 'p.name COLLATE NOCASE ASC',
+  price_asc: 'p.price ASC',
+  price_desc: 'p.price DESC',
+  availability: 'available_quantity DESC'
+};
+
+// Wrap matched search terms in highlights and snippets; control characters never occur in
+// product text, and the client turns them into <mark> elements
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+// Column weights for ranking, in products_fts column order:
+// name, sku, category_name, description, specifications
+const SEARCH_WEIGHTS = '10.0, 8.0, 4.0, 2.0, 2.0';
+
+// Lower-cased words of a search with accents removed, matching how the index tokenizes text
+const tokenizeSearch = (search) => (
+  search.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+);
+
+// Levenshtein distance between two terms
+const editDistance = (a, b) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos tolerated per word; short words must match exactly or as a prefix
+const maxEdits = (word) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+// Whether any indexed term starts with the given text
+const hasTermWithPrefix = async (db, prefix) => {
+  const row = await db.get(`
+    SELECT 1 as found FROM products_fts_vocab
+    WHERE term >= ? AND term < ?
+    LIMIT 1
+  `, [prefix, `${prefix}\uffff`]);
+  return !!row;
+};
+
+// Build an FTS5 MATCH expression in which every word must match as a prefix of an indexed term,
+// as an indexed term a few typos away from it, or as two adjacent words run together ("barbwire"
+// finds "Barbed Wire"). Returns null when the search has no words
+const buildSearchExpression = async (db, search) => {
+  const words = tokenizeSearch(search);
+  if (words.length === 0) return null;
+
+  const groups = [];
+  for (const word of words) {
+    const alternatives = [`"${word}"*`];
+    const edits = maxEdits(word);
+    if (edits > 0) {
+      const candidates = await db.all(`
+        SELECT term FROM products_fts_vocab
+        WHERE length(term) BETWEEN ? AND ? AND term != ?
+      `, [word.length - edits, word.length + edits, word]);
+      for (const { term } of candidates) {
+        if (editDistance(word, term) <= edits) {
+          alternatives.push(`"${term}"`);
+        }
+      }
+    }
+    for (let split = 3; split <= word.length - 3; split++) {
+      const head = word.slice(0, split);
+      const tail = word.slice(split);
+      if (await hasTermWithPrefix(db, head) && await hasTermWithPrefix(db, tail)) {
+        alternatives.push(`"${head}"* + "${tail}"*`);
+      }
+    }
+    groups.push(`(${alternatives.join(' OR ')})`);
+  }
+  return groups.join(' AND ');
+};
+
 // Get all products with optional filtering
 router.get('/', [
   query('category').optional().isInt(),
   query('status').optional().isIn(['active', 'inactive', 'discontinued']),
   query('search').optional().isString(),
+  query('min_price').optional().isFloat({ min: 0 }),
+  query('max_price').optional().isFloat({ min: 0 }),
+  query('min_stock').optional().isInt(),
+  query('max_stock').optional().isInt(),
+  query('sort').optional().isIn(Object.keys(PRODUCT_SORTS)),
   query('page').optional().isInt({ min: 1 }),
   query('limit').optional().isInt({ min: 1, max: 100 })
 ], async (req, res) => {
@@ -19,12 +123,48 @@ router.get('/', [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { category, status, search, page = 1, limit = 20 } = req.query;
+    const {
+      category, status, search, min_price, max_price, min_stock, max_stock,
+      page = 1, limit = 20
+    } = req.query;
     const db = getDatabase();
     
     let whereClause = 'WHERE 1=1';
     const params = [];
     
+    // Ranked full-text matches with highlighted names and snippets
+    const searchExpression = search ? await buildSearchExpression(db, search) : null;
+    let searchColumns = '';
+    let searchJoin = '';
+    const searchParams = [];
+    if (searchExpression) {
+      whereClause += ' AND p.id IN (SELECT rowid FROM products_fts WHERE products_fts MATCH ?)';
+      params.push(searchExpression);
+      
+      searchColumns = `,
+        s.search_rank,
+        s.name_highlight,
+        s.description_snippet,
+        s.specifications_snippet`;
+      searchJoin = `
+        LEFT JOIN (
+          SELECT
+            rowid,
+            bm25(products_fts, ${SEARCH_WEIGHTS}) as search_rank,
+            highlight(products_fts, 0, ?, ?) as name_highlight,
+            snippet(products_fts, 3, ?, ?, '…', 16) as description_snippet,
+            snippet(products_fts, 4, ?, ?, '…', 16) as specifications_snippet
+          FROM products_fts
+          WHERE products_fts MATCH ?
+        ) s ON s.rowid = p.id`;
+      searchParams.push(
+        HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, searchExpression
+      );
+    }
+    
+    const sort = req.query.sort || (searchExpression ? 'relevance' : 'newest');
+    const orderBy = sort === 'relevance' && !searchExpression ? PRODUCT_SORTS.newest : PRODUCT_SORTS[sort];
+    
     if (category) {
       whereClause += ' AND p.category_id = ?';
       params.push(category);
@@ -35,10 +175,25 @@ router.get('/', [
       params.push(status);
     }
     
-    if (search) {
-      whereClause += ' AND (p.name LIKE ? OR p.description LIKE ? OR p.sku LIKE ?)';
-      const searchTerm = `%${search}%`;
-      params.push(searchTerm, searchTerm, searchTerm);
+    if (min_price !== undefined) {
+      whereClause += ' AND p.price >= ?';
+      params.push(min_price);
+    }
+    
+    if (max_price !== undefined) {
+      whereClause += ' AND p.price <= ?';
+      params.push(max_price);
+    }
+    
+    // Stock ranges apply to available stock, which is what agencies can order without a backorder
+    if (min_stock !== undefined) {
+      whereClause += ' AND p.stock_quantity - p.reserved_quantity >= ?';
+      params.push(parseInt(min_stock));
+    }
+    
+    if (max_stock !== undefined) {
+      whereClause += ' AND p.stock_quantity - p.reserved_quantity <= ?';
+      params.push(parseInt(max_stock));
     }
 
     const offset = (page - 1) * limit;
@@ -54,14 +209,15 @@ router.get('/', [
     const products = await db.all(`
       SELECT 
         p.*,
+        p.stock_quantity - p.reserved_quantity as available_quantity,
         c.name as category_name,
-        c.description as category_description
+        c.description as category_description${searchColumns}
       FROM products p
-      LEFT JOIN categories c ON p.category_id = c.id
+      LEFT JOIN categories c ON p.category_id = c.id${searchJoin}
       ${whereClause}
-      ORDER BY p.created_at DESC
+      ORDER BY ${orderBy}, p.created_at DESC, p.id DESC
       LIMIT ? OFFSET ?
-    `, [...params, limit, offset]);
+    `, [...searchParams, ...params, limit, offset]);
 
     res.json({
       products,
@@ -87,6 +243,7 @@ router.get('/:id', async (req, res) => {
     const product = await db.get(`
       SELECT 
         p.*,
+        p.stock_quantity - p.reserved_quantity as available_quantity,
         c.name as category_name,
         c.description as category_description
       FROM products p
@@ -106,7 +263,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new product (admin only)
-router.post('/', requireAdmin, [
+router.post('/', authenticateToken, requirePermission('products.manage'), [
   body('name').notEmpty().withMessage('Product name is required'),
   body('description').optional(),
   body('category_id').isInt().withMessage('Valid category ID is required'),
@@ -151,10 +308,20 @@ router.post('/', requireAdmin, [
         stock_quantity, min_stock_level, status, specifications, supplier_info
       ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [name, description, category_id, sku, price, cost, stock_quantity, min_stock_level, status, specifications, supplier_info]);
+
+    // Opening stock goes through the ledger like any other movement
+    if (stock_quantity > 0) {
+      await db.run(`
+        INSERT INTO inventory_transactions (
+          product_id, transaction_type, quantity, reference_type, balance_after, reason, notes, created_by
+        ) VALUES (?, 'in', ?, 'manual', ?, 'received', 'Opening stock', ?)
+      `, [result.lastID, stock_quantity, stock_quantity, req.user.id]);
+    }
     
     const newProduct = await db.get(`
       SELECT 
         p.*,
+        p.stock_quantity - p.reserved_quantity as available_quantity,
         c.name as category_name,
         c.description as category_description
       FROM products p
@@ -173,13 +340,15 @@ router.post('/', requireAdmin, [
 });
 
 // Update product (admin only)
-router.put('/:id', requireAdmin, [
+router.put('/:id', authenticateToken, requirePermission('products.manage'), [
   body('name').optional().notEmpty().withMessage('Product name cannot be empty'),
   body('description').optional(),
   body('category_id').optional().isInt().withMessage('Valid category ID is required'),
   body('price').optional().isFloat({ min: 0 }).withMessage('Valid price is required'),
   body('cost').optional().isFloat({ min: 0 }),
   body('min_stock_level').optional().isInt({ min: 0 }),
+  body('stock_quantity').not().exists().withMessage('Use PATCH /products/:id/stock to change stock levels'),
+  body('reserved_quantity').not().exists().withMessage('Reservations are managed by orders'),
   body('status').optional().isIn(['active', 'inactive', 'discontinued']),
   body('specifications').optional(),
   body('supplier_info').optional()
@@ -234,6 +403,7 @@ router.put('/:id', requireAdmin, [
     const updatedProduct = await db.get(`
       SELECT 
         p.*,
+        p.stock_quantity - p.reserved_quantity as available_quantity,
         c.name as category_name,
         c.description as category_description
       FROM products p
@@ -252,7 +422,7 @@ router.put('/:id', requireAdmin, [
 });
 
 // Delete product (admin only)
-router.delete('/:id', requireAdmin, async (req, res) => {
+router.delete('/:id', authenticateToken, requirePermission('products.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const db = getDatabase();
@@ -269,7 +439,12 @@ router.delete('/:id', requireAdmin, async (req, res) => {
       return res.status(400).json({ error: 'Cannot delete product that has been ordered' });
     }
     
-    await db.run('DELETE FROM products WHERE id = ?', [id]);
+    // Carts and price lists holding the product lose that line
+    await withTransaction(async (tx) => {
+      await tx.run('DELETE FROM cart_items WHERE product_id = ?', [id]);
+      await tx.run('DELETE FROM price_list_items WHERE product_id = ?', [id]);
+      await tx.run('DELETE FROM products WHERE id = ?', [id]);
+    });
     
     res.json({ message: 'Product deleted successfully' });
   } catch (error) {
@@ -279,9 +454,10 @@ router.delete('/:id', requireAdmin, async (req, res) => {
 });
 
 // Update stock quantity (admin only)
-router.patch('/:id/stock', requireAdmin, [
-  body('quantity').isInt().withMessage('Valid quantity is required'),
+router.patch('/:id/stock', authenticateToken, requirePermission('inventory.adjust'), [
+  body('quantity').isInt({ min: 0 }).withMessage('Valid quantity is required'),
   body('type').isIn(['in', 'out', 'adjustment']).withMessage('Valid transaction type is required'),
+  body('reason').optional().isIn(STOCK_REASONS).withMessage('Valid reason code is required'),
   body('notes').optional()
 ], async (req, res) => {
   try {
@@ -291,40 +467,52 @@ router.patch('/:id/stock', requireAdmin, [
     }
 
     const { id } = req.params;
-    const { quantity, type, notes } = req.body;
-    const db = getDatabase();
-    
-    // Get current product
-    const product = await db.get('SELECT id, stock_quantity FROM products WHERE id = ?', [id]);
-    if (!product) {
-      return res.status(404).json({ error: 'Product not found' });
+    const { quantity, type, reason = null, notes = null } = req.body;
+
+    if (type !== 'adjustment' && quantity === 0) {
+      return res.status(400).json({ error: 'Quantity must be greater than zero' });
     }
-    
-    let newQuantity = product.stock_quantity;
-    if (type === 'in') {
-      newQuantity += quantity;
-    } else if (type === 'out') {
-      newQuantity -= quantity;
-      if (newQuantity < 0) {
-        return res.status(400).json({ error: 'Insufficient stock' });
+
+    const allocatedBackorders = await withTransaction(async (tx) => {
+      // Get current product
+      const product = await tx.get('SELECT id, stock_quantity, reserved_quantity FROM products WHERE id = ?', [id]);
+      if (!product) {
+        throw new HttpError(404, 'Product not found');
       }
-    } else if (type === 'adjustment') {
-      newQuantity = quantity;
-    }
-    
-    // Update stock quantity
-    await db.run('UPDATE products SET stock_quantity = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [newQuantity, id]);
-    
-    // Record transaction
-    await db.run(`
-      INSERT INTO inventory_transactions (
-        product_id, transaction_type, quantity, reference_type, notes, created_by
-      ) VALUES (?, ?, ?, ?, ?, ?)
-    `, [id, type, quantity, 'manual', notes, req.user.id]);
-    
+
+      let newQuantity = product.stock_quantity;
+      if (type === 'in') {
+        newQuantity += quantity;
+      } else if (type === 'out') {
+        newQuantity -= quantity;
+        // Stock reserved for open orders cannot be issued elsewhere
+        if (newQuantity < product.reserved_quantity) {
+          throw new HttpError(400, `Only ${product.stock_quantity - product.reserved_quantity} unit(s) are available; the rest is reserved for open orders`);
+        }
+      } else if (type === 'adjustment') {
+        newQuantity = quantity;
+      }
+
+      // Update stock quantity
+      await tx.run('UPDATE products SET stock_quantity = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [newQuantity, id]);
+
+      // Record transaction
+      await tx.run(`
+        INSERT INTO inventory_transactions (
+          product_id, transaction_type, quantity, reference_type, balance_after, reason, notes, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [id, type, quantity, 'manual', newQuantity, reason, notes, req.user.id]);
+
+      await notifyLowStock(tx, id, product.stock_quantity - product.reserved_quantity, newQuantity - product.reserved_quantity);
+
+      return allocateBackorders(tx, id);
+    });
+
+    const db = getDatabase();
     const updatedProduct = await db.get(`
       SELECT 
         p.*,
+        p.stock_quantity - p.reserved_quantity as available_quantity,
         c.name as category_name,
         c.description as category_description
       FROM products p
@@ -334,27 +522,32 @@ router.patch('/:id/stock', requireAdmin, [
     
     res.json({
       message: 'Stock updated successfully',
-      product: updatedProduct
+      product: updatedProduct,
+      allocated_backorders: allocatedBackorders
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Update stock error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Get low stock products
-router.get('/low-stock/list', requireAnyRole, async (req, res) => {
+router.get('/low-stock/list', authenticateToken, requirePermission('inventory.view'), async (req, res) => {
   try {
     const db = getDatabase();
     
     const lowStockProducts = await db.all(`
       SELECT 
         p.*,
+        p.stock_quantity - p.reserved_quantity as available_quantity,
         c.name as category_name
       FROM products p
       LEFT JOIN categories c ON p.category_id = c.id
-      WHERE p.stock_quantity <= p.min_stock_level AND p.status = 'active'
-      ORDER BY p.stock_quantity ASC
+      WHERE p.stock_quantity - p.reserved_quantity <= p.min_stock_level AND p.status = 'active'
+      ORDER BY available_quantity ASC
     `);
     
     res.json({ products: lowStockProducts });
@@ -1,14 +1,68 @@
 import express from 'express';
 import { body, validationResult, query } from 'express-validator';
-import { authenticateToken, requireAdmin, requireAnyRole } from '../middleware/auth.js';
-import { getDatabase } from '../database/init.js';
+import { requirePermission, hasPermission } from '../middleware/auth.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
 
 const router = express.Router();
 
+// Users participate in a project as its manager or through a listed agency
+const PARTICIPANT_CONDITION = `(p.manager_id = ? OR EXISTS (
+  SELECT 1 FROM project_agencies pa WHERE pa.project_id = p.id AND pa.agency_id = ?
+))`;
+
+export const isProjectParticipant = async (db, projectId, user) => {
+  const project = await db.get(`
+    SELECT p.id FROM projects p WHERE p.id = ? AND ${PARTICIPANT_CONDITION}
+  `, [projectId, user.id, user.agency_id]);
+  return !!project;
+};
+
+// Replace the participating agencies of a project
+const setProjectAgencies = async (tx, projectId, agencyIds) => {
+  const uniqueIds = [...new Set(agencyIds.map(Number))];
+
+  for (const agencyId of uniqueIds) {
+    const agency = await tx.get('SELECT id FROM agencies WHERE id = ?', [agencyId]);
+    if (!agency) {
+      throw new HttpError(400, `Agency ${agencyId} not found`);
+    }
+  }
+
+  await tx.run('DELETE FROM project_agencies WHERE project_id = ?', [projectId]);
+  for (const agencyId of uniqueIds) {
+    await tx.run('INSERT INTO project_agencies (project_id, agency_id) VALUES (?, ?)', [projectId, agencyId]);
+  }
+};
+
+// Depot staff who manage projects or follow the dashboard see every project and all of its orders;
+// everyone else sees only projects they participate in, and only their own agency's orders in them
+const canViewAllProjects = (user) => hasPermission(user, 'projects.manage') || hasPermission(user, 'dashboard.view');
+
+// Orders the user can see on a project they participate in, matching canViewOrder
+const OWN_ORDERS_CONDITION = '(o.agency_id = ? OR o.user_id = ?)';
+
+// Order totals per project; cancelled and rejected orders no longer count against the budget.
+// Participants' totals only cover their own orders, so bind their agency and user id when asked to
+const projectSpendJoin = (ownOrdersOnly) => `
+  LEFT JOIN (
+    SELECT o.project_id, COUNT(*) as order_count, SUM(o.total_amount) as spent
+    FROM orders o
+    WHERE o.status NOT IN ('cancelled', 'rejected') AND o.project_id IS NOT NULL${ownOrdersOnly ? ` AND ${OWN_ORDERS_CONDITION}` : ''}
+    GROUP BY o.project_id
+  ) ps ON ps.project_id = p.id
+`;
+
+const parseAgencyIds = (project) => ({
+  ...project,
+  agency_ids: project.agency_ids ? project.agency_ids.split(',').map(Number) : []
+});
+
 // Get all projects with optional filtering
-router.get('/', requireAnyRole, [
+router.get('/', [
   query('status').optional().isIn(['planning', 'in_progress', 'completed', 'on_hold']),
   query('manager_id').optional().isInt(),
+  query('participating').optional().isBoolean(),
   query('page').optional().isInt({ min: 1 }),
   query('limit').optional().isInt({ min: 1, max: 100 })
 ], async (req, res) => {
@@ -18,8 +72,9 @@ router.get('/', requireAnyRole, [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { status, manager_id, page = 1, limit = 20 } = req.query;
+    const { status, manager_id, participating, page = 1, limit = 20 } = req.query;
     const db = getDatabase();
+    const viewAll = canViewAllProjects(req.user);
     
     let whereClause = 'WHERE 1=1';
     const params = [];
@@ -34,6 +89,12 @@ router.get('/', requireAnyRole, [
       params.push(manager_id);
     }
 
+    // Only projects the current user may order against, which is all anyone but depot staff can see
+    if (participating === 'true' || !viewAll) {
+      whereClause += ` AND ${PARTICIPANT_CONDITION}`;
+      params.push(req.user.id, req.user.agency_id);
+    }
+
     const offset = (page - 1) * limit;
     
     // Get total count
@@ -43,21 +104,26 @@ router.get('/', requireAnyRole, [
       ${whereClause}
     `, params);
     
-    // Get projects with manager info
+    // Get projects with manager info and spend to date
     const projects = await db.all(`
       SELECT 
         p.*,
         u.name as manager_name,
-        u.agency_name as manager_agency
+        ma.name as manager_agency,
+        COALESCE(ps.spent, 0) as spent,
+        COALESCE(ps.order_count, 0) as order_count,
+        (SELECT GROUP_CONCAT(pa.agency_id) FROM project_agencies pa WHERE pa.project_id = p.id) as agency_ids
       FROM projects p
       LEFT JOIN users u ON p.manager_id = u.id
+      LEFT JOIN agencies ma ON u.agency_id = ma.id
+      ${projectSpendJoin(!viewAll)}
       ${whereClause}
       ORDER BY p.created_at DESC
       LIMIT ? OFFSET ?
-    `, [...params, limit, offset]);
+    `, [...(viewAll ? [] : [req.user.agency_id, req.user.id]), ...params, limit, offset]);
 
     res.json({
-      projects,
+      projects: projects.map(parseAgencyIds),
       pagination: {
         page: parseInt(page),
         limit: parseInt(limit),
@@ -72,39 +138,58 @@ router.get('/', requireAnyRole, [
 });
 
 // Get single project by ID
-router.get('/:id', requireAnyRole, async (req, res) => {
+router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
     const db = getDatabase();
+    const viewAll = canViewAllProjects(req.user);
     
     const project = await db.get(`
       SELECT 
         p.*,
         u.name as manager_name,
-        u.agency_name as manager_agency
+        ma.name as manager_agency,
+        COALESCE(ps.spent, 0) as spent,
+        COALESCE(ps.order_count, 0) as order_count
       FROM projects p
       LEFT JOIN users u ON p.manager_id = u.id
+      LEFT JOIN agencies ma ON u.agency_id = ma.id
+      ${projectSpendJoin(!viewAll)}
       WHERE p.id = ?
-    `, [id]);
+    `, viewAll ? [id] : [req.user.agency_id, req.user.id, id]);
     
     if (!project) {
       return res.status(404).json({ error: 'Project not found' });
     }
     
+    if (!viewAll && !(await isProjectParticipant(db, id, req.user))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    
+    // Get participating agencies
+    const agencies = await db.all(`
+      SELECT a.id, a.name
+      FROM project_agencies pa
+      JOIN agencies a ON pa.agency_id = a.id
+      WHERE pa.project_id = ?
+      ORDER BY a.name
+    `, [id]);
+    
     // Get project orders
     const orders = await db.all(`
       SELECT 
         o.*,
         u.name as user_name,
-        u.agency_name
+        a.name as agency_name
       FROM orders o
       LEFT JOIN users u ON o.user_id = u.id
-      WHERE o.project_id = ?
+      LEFT JOIN agencies a ON o.agency_id = a.id
+      WHERE o.project_id = ?${viewAll ? '' : ` AND ${OWN_ORDERS_CONDITION}`}
       ORDER BY o.created_at DESC
-    `, [id]);
+    `, viewAll ? [id] : [id, req.user.agency_id, req.user.id]);
     
     res.json({ 
-      project: { ...project, orders }
+      project: { ...project, agencies, agency_ids: agencies.map(agency => agency.id), orders }
     });
   } catch (error) {
     console.error('Get project error:', error);
@@ -112,15 +197,80 @@ router.get('/:id', requireAnyRole, async (req, res) => {
   }
 });
 
+// Get budget consumption for a project
+router.get('/:id/spend', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+    
+    const project = await db.get('SELECT id, name, budget FROM projects WHERE id = ?', [id]);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    
+    const viewAll = canViewAllProjects(req.user);
+    if (!viewAll && !(await isProjectParticipant(db, id, req.user))) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+    
+    const byStatus = await db.all(`
+      SELECT status, COUNT(*) as order_count, SUM(total_amount) as amount
+      FROM orders
+      WHERE project_id = ?
+      GROUP BY status
+    `, [id]);
+    
+    // Orders placed by admins have no agency and are grouped together. Participants only see
+    // their own agency's share; the totals above still cover the whole budget
+    const byAgency = await db.all(`
+      SELECT 
+        o.agency_id,
+        COALESCE(a.name, 'Administrators') as agency_name,
+        COUNT(o.id) as order_count,
+        SUM(o.total_amount) as amount
+      FROM orders o
+      LEFT JOIN agencies a ON o.agency_id = a.id
+      WHERE o.project_id = ? AND o.status NOT IN ('cancelled', 'rejected')${viewAll ? '' : ` AND ${OWN_ORDERS_CONDITION}`}
+      GROUP BY o.agency_id
+      ORDER BY amount DESC
+    `, viewAll ? [id] : [id, req.user.agency_id, req.user.id]);
+    
+    const committed = byStatus
+      .filter(row => row.status !== 'cancelled' && row.status !== 'rejected')
+      .reduce((sum, row) => sum + row.amount, 0);
+    const delivered = byStatus.find(row => row.status === 'delivered')?.amount || 0;
+    const budget = project.budget;
+    
+    res.json({
+      spend: {
+        project_id: project.id,
+        project_name: project.name,
+        budget,
+        committed,
+        delivered,
+        remaining: budget != null ? budget - committed : null,
+        percent_used: budget ? Math.round((committed / budget) * 1000) / 10 : null,
+        by_status: byStatus,
+        by_agency: byAgency
+      }
+    });
+  } catch (error) {
+    console.error('Get project spend error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Create new project (admin only)
-router.post('/', requireAdmin, [
+router.post('/', requirePermission('projects.manage'), [
   body('name').notEmpty().withMessage('Project name is required'),
   body('description').optional(),
   body('status').isIn(['planning', 'in_progress', 'completed', 'on_hold']).withMessage('Valid status is required'),
-  body('start_date').optional().isISO8601().withMessage('Valid start date is required'),
-  body('end_date').optional().isISO8601().withMessage('Valid end date is required'),
-  body('budget').optional().isFloat({ min: 0 }).withMessage('Valid budget is required'),
-  body('manager_id').optional().isInt().withMessage('Valid manager ID is required')
+  body('start_date').optional({ nullable: true }).isISO8601().withMessage('Valid start date is required'),
+  body('end_date').optional({ nullable: true }).isISO8601().withMessage('Valid end date is required'),
+  body('budget').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Valid budget is required'),
+  body('manager_id').optional({ nullable: true }).isInt().withMessage('Valid manager ID is required'),
+  body('agency_ids').optional().isArray().withMessage('Agency IDs must be an array'),
+  body('agency_ids.*').isInt().withMessage('Valid agency ID is required')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -128,7 +278,7 @@ router.post('/', requireAdmin, [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { name, description, status, start_date, end_date, budget, manager_id } = req.body;
+    const { name, description, status, start_date, end_date, budget, manager_id, agency_ids = [] } = req.body;
     const db = getDatabase();
     
     // Validate manager if provided
@@ -139,41 +289,53 @@ router.post('/', requireAdmin, [
       }
     }
     
-    const result = await db.run(`
-      INSERT INTO projects (
-        name, description, status, start_date, end_date, budget, manager_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [name, description, status, start_date, end_date, budget, manager_id]);
+    const projectId = await withTransaction(async (tx) => {
+      const result = await tx.run(`
+        INSERT INTO projects (
+          name, description, status, start_date, end_date, budget, manager_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [name, description, status, start_date, end_date, budget, manager_id]);
+      
+      await setProjectAgencies(tx, result.lastID, agency_ids);
+      
+      return result.lastID;
+    });
     
     const newProject = await db.get(`
       SELECT 
         p.*,
         u.name as manager_name,
-        u.agency_name as manager_agency
+        ma.name as manager_agency
       FROM projects p
       LEFT JOIN users u ON p.manager_id = u.id
+      LEFT JOIN agencies ma ON u.agency_id = ma.id
       WHERE p.id = ?
-    `, [result.lastID]);
+    `, [projectId]);
     
     res.status(201).json({
       message: 'Project created successfully',
       project: newProject
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Create project error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Update project (admin only)
-router.put('/:id', requireAdmin, [
+router.put('/:id', requirePermission('projects.manage'), [
   body('name').optional().notEmpty().withMessage('Project name cannot be empty'),
   body('description').optional(),
   body('status').optional().isIn(['planning', 'in_progress', 'completed', 'on_hold']).withMessage('Valid status is required'),
-  body('start_date').optional().isISO8601().withMessage('Valid start date is required'),
-  body('end_date').optional().isISO8601().withMessage('Valid end date is required'),
-  body('budget').optional().isFloat({ min: 0 }).withMessage('Valid budget is required'),
-  body('manager_id').optional().isInt().withMessage('Valid manager ID is required')
+  body('start_date').optional({ nullable: true }).isISO8601().withMessage('Valid start date is required'),
+  body('end_date').optional({ nullable: true }).isISO8601().withMessage('Valid end date is required'),
+  body('budget').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Valid budget is required'),
+  body('manager_id').optional({ nullable: true }).isInt().withMessage('Valid manager ID is required'),
+  body('agency_ids').optional().isArray().withMessage('Agency IDs must be an array'),
+  body('agency_ids.*').isInt().withMessage('Valid agency ID is required')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -182,7 +344,7 @@ router.put('/:id', requireAdmin, [
     }
 
     const { id } = req.params;
-    const updateData = req.body;
+    const { agency_ids, ...updateData } = req.body;
     const db = getDatabase();
     
     // Check if project exists
@@ -209,26 +371,33 @@ router.put('/:id', requireAdmin, [
       }
     });
     
-    if (updateFields.length === 0) {
+    if (updateFields.length === 0 && agency_ids === undefined) {
       return res.status(400).json({ error: 'No fields to update' });
     }
     
     updateFields.push('updated_at = CURRENT_TIMESTAMP');
     updateValues.push(id);
     
-    await db.run(`
-      UPDATE projects 
-      SET ${updateFields.join(', ')}
-      WHERE id = ?
-    `, updateValues);
+    await withTransaction(async (tx) => {
+      await tx.run(`
+        UPDATE projects 
+        SET ${updateFields.join(', ')}
+        WHERE id = ?
+      `, updateValues);
+      
+      if (agency_ids !== undefined) {
+        await setProjectAgencies(tx, id, agency_ids);
+      }
+    });
     
     const updatedProject = await db.get(`
       SELECT 
         p.*,
         u.name as manager_name,
-        u.agency_name as manager_agency
+        ma.name as manager_agency
       FROM projects p
       LEFT JOIN users u ON p.manager_id = u.id
+      LEFT JOIN agencies ma ON u.agency_id = ma.id
       WHERE p.id = ?
     `, [id]);
     
@@ -237,13 +406,16 @@ router.put('/:id', requireAdmin, [
       project: updatedProject
     });
   } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('Update project error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Delete project (admin only)
-router.delete('/:id', requireAdmin, async (req, res) => {
+router.delete('/:id', requirePermission('projects.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const db = getDatabase();
@@ -260,7 +432,10 @@ router.delete('/:id', requireAdmin, async (req, res) => {
       return res.status(400).json({ error: 'Cannot delete project that has orders' });
     }
     
-    await db.run('DELETE FROM projects WHERE id = ?', [id]);
+    await withTransaction(async (tx) => {
+      await tx.run('DELETE FROM project_agencies WHERE project_id = ?', [id]);
+      await tx.run('DELETE FROM projects WHERE id = ?', [id]);
+    });
     
     res.json({ message: 'Project deleted successfully' });
   } catch (error) {
@@ -270,7 +445,7 @@ router.delete('/:id', requireAdmin, async (req, res) => {
 });
 
 // Get project statistics
-router.get('/stats/overview', requireAnyRole, async (req, res) => {
+router.get('/stats/overview', async (req, res) => {
   try {
     const db = getDatabase();
     
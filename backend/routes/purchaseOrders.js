@@ -0,0 +1,374 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { requirePermission } from '../middleware/auth.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
+import { allocateBackorders } from './orders.js';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = express.Router();
+
+// Allowed purchase order status changes; receiving goods moves an order to
+// partially_received / received on its own
+const PURCHASE_ORDER_STATUS_TRANSITIONS = {
+  draft: ['ordered', 'cancelled'],
+  ordered: ['cancelled'],
+  partially_received: ['cancelled'],
+  received: [],
+  cancelled: []
+};
+
+const RECEIVABLE_STATUSES = ['ordered', 'partially_received'];
+
+const getPurchaseOrderWithItems = async (db, id) => {
+  const purchaseOrder = await db.get(`
+    SELECT
+      po.*,
+      s.name as supplier_name,
+      s.email as supplier_email,
+      u.name as created_by_name
+    FROM purchase_orders po
+    LEFT JOIN suppliers s ON po.supplier_id = s.id
+    LEFT JOIN users u ON po.created_by = u.id
+    WHERE po.id = ?
+  `, [id]);
+
+  if (!purchaseOrder) return null;
+
+  const items = await db.all(`
+    SELECT
+      poi.*,
+      p.name as product_name,
+      p.sku,
+      p.stock_quantity
+    FROM purchase_order_items poi
+    LEFT JOIN products p ON poi.product_id = p.id
+    WHERE poi.purchase_order_id = ?
+    ORDER BY poi.id
+  `, [id]);
+
+  return { ...purchaseOrder, items };
+};
+
+// Get all purchase orders with optional filtering
+router.get('/', requirePermission('purchasing.view'), [
+  query('status').optional().isIn(Object.keys(PURCHASE_ORDER_STATUS_TRANSITIONS)),
+  query('supplier_id').optional().isInt(),
+  query('search').optional().isString(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { status, supplier_id, search, page = 1, limit = 20 } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (status) {
+      whereClause += ' AND po.status = ?';
+      params.push(status);
+    }
+
+    if (supplier_id) {
+      whereClause += ' AND po.supplier_id = ?';
+      params.push(supplier_id);
+    }
+
+    if (search) {
+      whereClause += ' AND (po.po_number LIKE ? OR s.name LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm);
+    }
+
+    const offset = (page - 1) * limit;
+
+    // Get total count
+    const countResult = await db.get(`
+      SELECT COUNT(*) as total
+      FROM purchase_orders po
+      LEFT JOIN suppliers s ON po.supplier_id = s.id
+      ${whereClause}
+    `, params);
+
+    // Get purchase orders with supplier info and receiving progress
+    const purchaseOrders = await db.all(`
+      SELECT
+        po.*,
+        s.name as supplier_name,
+        (SELECT COUNT(*) FROM purchase_order_items poi WHERE poi.purchase_order_id = po.id) as item_count,
+        (SELECT COALESCE(SUM(quantity_ordered), 0) FROM purchase_order_items poi WHERE poi.purchase_order_id = po.id) as units_ordered,
+        (SELECT COALESCE(SUM(quantity_received), 0) FROM purchase_order_items poi WHERE poi.purchase_order_id = po.id) as units_received
+      FROM purchase_orders po
+      LEFT JOIN suppliers s ON po.supplier_id = s.id
+      ${whereClause}
+      ORDER BY po.created_at DESC, po.id DESC
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+
+    res.json({
+      purchase_orders: purchaseOrders,
+      pagination: {
+        page: parseInt(page),
+        limit: parseInt(limit),
+        total: countResult.total,
+        pages: Math.ceil(countResult.total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get purchase orders error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single purchase order by ID
+router.get('/:id', requirePermission('purchasing.view'), async (req, res) => {
+  try {
+    const purchaseOrder = await getPurchaseOrderWithItems(getDatabase(), req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({ error: 'Purchase order not found' });
+    }
+
+    res.json({ purchase_order: purchaseOrder });
+  } catch (error) {
+    console.error('Get purchase order error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create new purchase order
+router.post('/', requirePermission('purchasing.manage'), [
+  body('supplier_id').isInt().withMessage('Valid supplier ID is required'),
+  body('status').optional().isIn(['draft', 'ordered']),
+  body('expected_delivery_date').optional({ checkFalsy: true }).isISO8601().withMessage('Valid expected delivery date is required'),
+  body('notes').optional(),
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.product_id').isInt().withMessage('Valid product ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Valid quantity is required'),
+  body('items.*.unit_cost').isFloat({ min: 0 }).withMessage('Valid unit cost is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { supplier_id, status = 'draft', expected_delivery_date, notes, items } = req.body;
+
+    const purchaseOrderId = await withTransaction(async (tx) => {
+      const supplier = await tx.get('SELECT id, status FROM suppliers WHERE id = ?', [supplier_id]);
+      if (!supplier) {
+        throw new HttpError(400, 'Supplier not found');
+      }
+      if (supplier.status !== 'active') {
+        throw new HttpError(400, 'Supplier is inactive');
+      }
+
+      let totalAmount = 0;
+      for (const item of items) {
+        const product = await tx.get('SELECT id FROM products WHERE id = ?', [item.product_id]);
+        if (!product) {
+          throw new HttpError(400, `Product ${item.product_id} not found`);
+        }
+        totalAmount += item.quantity * item.unit_cost;
+      }
+
+      // Generate purchase order number
+      const poNumber = `PO-${Date.now()}-${uuidv4().substring(0, 8).toUpperCase()}`;
+
+      const result = await tx.run(`
+        INSERT INTO purchase_orders (
+          po_number, supplier_id, status, expected_delivery_date, total_amount, notes, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `, [poNumber, supplier_id, status, expected_delivery_date || null, totalAmount, notes, req.user.id]);
+
+      for (const item of items) {
+        await tx.run(`
+          INSERT INTO purchase_order_items (
+            purchase_order_id, product_id, quantity_ordered, unit_cost, total_cost
+          ) VALUES (?, ?, ?, ?, ?)
+        `, [result.lastID, item.product_id, item.quantity, item.unit_cost, item.quantity * item.unit_cost]);
+      }
+
+      return result.lastID;
+    });
+
+    const purchaseOrder = await getPurchaseOrderWithItems(getDatabase(), purchaseOrderId);
+
+    res.status(201).json({
+      message: 'Purchase order created successfully',
+      purchase_order: purchaseOrder
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Create purchase order error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update purchase order status
+router.patch('/:id/status', requirePermission('purchasing.manage'), [
+  body('status').isIn(Object.keys(PURCHASE_ORDER_STATUS_TRANSITIONS)).withMessage('Valid status is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { status } = req.body;
+
+    await withTransaction(async (tx) => {
+      const purchaseOrder = await tx.get('SELECT id, status FROM purchase_orders WHERE id = ?', [id]);
+      if (!purchaseOrder) {
+        throw new HttpError(404, 'Purchase order not found');
+      }
+
+      if (!PURCHASE_ORDER_STATUS_TRANSITIONS[purchaseOrder.status].includes(status)) {
+        throw new HttpError(400, `Cannot change purchase order status from ${purchaseOrder.status} to ${status}`);
+      }
+
+      await tx.run(`
+        UPDATE purchase_orders
+        SET status = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [status, id]);
+    });
+
+    const purchaseOrder = await getPurchaseOrderWithItems(getDatabase(), id);
+
+    res.json({
+      message: 'Purchase order status updated successfully',
+      purchase_order: purchaseOrder
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Update purchase order status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Receive goods against a purchase order
+router.post('/:id/receive', requirePermission('purchasing.receive'), [
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.item_id').isInt().withMessage('Valid purchase order item ID is required'),
+  body('items.*.quantity').isInt({ min: 0 }).withMessage('Valid quantity is required'),
+  body('notes').optional()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { items, notes } = req.body;
+
+    // Stock, line progress, ledger entries and status change commit together
+    const receivedItems = await withTransaction(async (tx) => {
+      const purchaseOrder = await tx.get('SELECT id, po_number, status FROM purchase_orders WHERE id = ?', [id]);
+      if (!purchaseOrder) {
+        throw new HttpError(404, 'Purchase order not found');
+      }
+
+      if (!RECEIVABLE_STATUSES.includes(purchaseOrder.status)) {
+        throw new HttpError(400, `Cannot receive goods for a ${purchaseOrder.status} purchase order`);
+      }
+
+      const received = [];
+      for (const item of items) {
+        if (item.quantity === 0) continue;
+
+        const line = await tx.get(`
+          SELECT poi.*, p.name as product_name
+          FROM purchase_order_items poi
+          LEFT JOIN products p ON poi.product_id = p.id
+          WHERE poi.id = ? AND poi.purchase_order_id = ?
+        `, [item.item_id, id]);
+        if (!line) {
+          throw new HttpError(400, `Item ${item.item_id} is not on this purchase order`);
+        }
+
+        const remaining = line.quantity_ordered - line.quantity_received;
+        if (item.quantity > remaining) {
+          throw new HttpError(400, `Only ${remaining} unit(s) of ${line.product_name} are still expected`);
+        }
+
+        await tx.run(`
+          UPDATE purchase_order_items
+          SET quantity_received = quantity_received + ?
+          WHERE id = ?
+        `, [item.quantity, line.id]);
+
+        await tx.run(`
+          UPDATE products
+          SET stock_quantity = stock_quantity + ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `, [item.quantity, line.product_id]);
+
+        const { stock_quantity: newStock } = await tx.get('SELECT stock_quantity FROM products WHERE id = ?', [line.product_id]);
+
+        // Record inventory transaction
+        await tx.run(`
+          INSERT INTO inventory_transactions (
+            product_id, transaction_type, quantity, reference_type, reference_id, balance_after, reason, notes, created_by
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `, [line.product_id, 'in', item.quantity, 'purchase_order', id, newStock, 'received', notes || `Received on ${purchaseOrder.po_number}`, req.user.id]);
+
+        const allocated = await allocateBackorders(tx, line.product_id);
+
+        received.push({
+          product_id: line.product_id,
+          product_name: line.product_name,
+          quantity: item.quantity,
+          stock_quantity: newStock,
+          allocated_to_backorders: allocated.reduce((sum, allocation) => sum + allocation.quantity, 0)
+        });
+      }
+
+      if (received.length === 0) {
+        throw new HttpError(400, 'Enter a quantity for at least one item');
+      }
+
+      const outstanding = await tx.get(`
+        SELECT COUNT(*) as count
+        FROM purchase_order_items
+        WHERE purchase_order_id = ? AND quantity_received < quantity_ordered
+      `, [id]);
+
+      await tx.run(`
+        UPDATE purchase_orders
+        SET status = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [outstanding.count === 0 ? 'received' : 'partially_received', id]);
+
+      return received;
+    });
+
+    const purchaseOrder = await getPurchaseOrderWithItems(getDatabase(), id);
+
+    res.json({
+      message: 'Goods received successfully',
+      purchase_order: purchaseOrder,
+      received_items: receivedItems
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Receive purchase order error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,414 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { requirePermission, requireRequester, hasPermission } from '../middleware/auth.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { HttpError } from '../utils/errors.js';
+import { canViewOrder, allocateBackorders, roundCents } from './orders.js';
+import { notifyOrderUpdate, notifyReturnReviewers } from './notifications.js';
+import { v4 as uuidv4 } from 'uuid';
+
+const router = express.Router();
+
+const RETURN_STATUSES = ['requested', 'approved', 'rejected', 'received'];
+
+const RETURN_SELECT = `
+  SELECT
+    r.*,
+    o.order_number,
+    o.user_id as order_user_id,
+    o.agency_id,
+    a.name as agency_name,
+    u.name as requested_by_name,
+    rv.name as reviewed_by_name,
+    rc.name as received_by_name
+  FROM returns r
+  JOIN orders o ON r.order_id = o.id
+  LEFT JOIN agencies a ON o.agency_id = a.id
+  LEFT JOIN users u ON r.requested_by = u.id
+  LEFT JOIN users rv ON r.reviewed_by = rv.id
+  LEFT JOIN users rc ON r.received_by = rc.id
+`;
+
+// A return is visible to whoever can see the order it belongs to
+const canViewReturn = (user, rma) => canViewOrder(user, { user_id: rma.order_user_id, agency_id: rma.agency_id });
+
+const getReturnItems = (db, returnId) => db.all(`
+  SELECT
+    ri.*,
+    oi.product_id,
+    oi.unit_price,
+    oi.quantity as ordered_quantity,
+    oi.tax_amount as line_tax_amount,
+    p.name as product_name,
+    p.sku
+  FROM return_items ri
+  JOIN order_items oi ON ri.order_item_id = oi.id
+  LEFT JOIN products p ON oi.product_id = p.id
+  WHERE ri.return_id = ?
+  ORDER BY ri.id
+`, [returnId]);
+
+const getReturn = async (db, id) => {
+  const rma = await db.get(`${RETURN_SELECT} WHERE r.id = ?`, [id]);
+  if (!rma) return null;
+  return { ...rma, items: await getReturnItems(db, id) };
+};
+
+// Get returns; users without orders.view_all only see their agency's returns
+router.get('/', [
+  query('status').optional().isIn(RETURN_STATUSES),
+  query('order_id').optional().isInt(),
+  query('search').optional().isString(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { status, order_id, search, page = 1, limit = 20 } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (!hasPermission(req.user, 'orders.view_all')) {
+      whereClause += ' AND (o.agency_id = ? OR o.user_id = ?)';
+      params.push(req.user.agency_id, req.user.id);
+    }
+
+    if (status) {
+      whereClause += ' AND r.status = ?';
+      params.push(status);
+    }
+
+    if (order_id) {
+      whereClause += ' AND r.order_id = ?';
+      params.push(order_id);
+    }
+
+    if (search) {
+      whereClause += ' AND (r.rma_number LIKE ? OR o.order_number LIKE ? OR a.name LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm);
+    }
+
+    const offset = (page - 1) * limit;
+
+    const countResult = await db.get(`
+      SELECT COUNT(*) as total
+      FROM returns r
+      JOIN orders o ON r.order_id = o.id
+      LEFT JOIN agencies a ON o.agency_id = a.id
+      ${whereClause}
+    `, params);
+
+    const returns = await db.all(`
+      ${RETURN_SELECT}
+      ${whereClause}
+      ORDER BY r.created_at DESC, r.id DESC
+      LIMIT ? OFFSET ?
+    `, [...params, limit, offset]);
+
+    for (const rma of returns) {
+      rma.items = await getReturnItems(db, rma.id);
+    }
+
+    res.json({
+      returns,
+      pagination: {
+        page: parseInt(page),
+        limit: parseInt(limit),
+        total: countResult.total,
+        pages: Math.ceil(countResult.total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get returns error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single return by ID
+router.get('/:id', async (req, res) => {
+  try {
+    const db = getDatabase();
+    const rma = await getReturn(db, req.params.id);
+
+    if (!rma) {
+      return res.status(404).json({ error: 'Return not found' });
+    }
+
+    if (!canViewReturn(req.user, rma)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    res.json({ return: rma });
+  } catch (error) {
+    console.error('Get return error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Request a return of delivered order lines
+router.post('/', requirePermission('orders.create'), requireRequester, [
+  body('order_id').isInt().withMessage('Valid order ID is required'),
+  body('reason').trim().notEmpty().withMessage('A reason for the return is required'),
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.order_item_id').isInt().withMessage('Valid order item ID is required'),
+  body('items.*.quantity').isInt({ min: 0 }).withMessage('Valid quantity is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { order_id, reason, items } = req.body;
+    const lines = items.filter(item => item.quantity > 0);
+    if (lines.length === 0) {
+      return res.status(400).json({ error: 'Enter a quantity for at least one item' });
+    }
+
+    const db = getDatabase();
+
+    const returnId = await withTransaction(async (tx) => {
+      const order = await tx.get('SELECT id, order_number, user_id, agency_id, status FROM orders WHERE id = ?', [order_id]);
+      if (!order) {
+        throw new HttpError(404, 'Order not found');
+      }
+
+      if (!canViewOrder(req.user, order)) {
+        throw new HttpError(403, 'Access denied');
+      }
+
+      if (order.status !== 'delivered') {
+        throw new HttpError(400, 'Only delivered orders can be returned');
+      }
+
+      const rmaNumber = `RMA-${Date.now()}-${uuidv4().substring(0, 8).toUpperCase()}`;
+      const result = await tx.run(`
+        INSERT INTO returns (rma_number, order_id, status, reason, requested_by)
+        VALUES (?, ?, 'requested', ?, ?)
+      `, [rmaNumber, order.id, reason, req.user.id]);
+
+      for (const line of lines) {
+        // Units already returned or on another open return cannot be claimed twice
+        const item = await tx.get(`
+          SELECT
+            oi.id,
+            oi.shipped_quantity - oi.returned_quantity - (
+              SELECT COALESCE(SUM(ri.quantity), 0)
+              FROM return_items ri
+              JOIN returns r ON ri.return_id = r.id
+              WHERE ri.order_item_id = oi.id AND r.status IN ('requested', 'approved')
+            ) as returnable_quantity,
+            p.name as product_name
+          FROM order_items oi
+          LEFT JOIN products p ON oi.product_id = p.id
+          WHERE oi.id = ? AND oi.order_id = ?
+        `, [line.order_item_id, order.id]);
+        if (!item) {
+          throw new HttpError(400, `Item ${line.order_item_id} is not on this order`);
+        }
+
+        if (line.quantity > item.returnable_quantity) {
+          throw new HttpError(400, `Only ${item.returnable_quantity} unit(s) of ${item.product_name} can be returned`);
+        }
+
+        await tx.run(`
+          INSERT INTO return_items (return_id, order_item_id, quantity)
+          VALUES (?, ?, ?)
+        `, [result.lastID, item.id, line.quantity]);
+      }
+
+      await notifyReturnReviewers(tx, `Return ${rmaNumber} requested`,
+        `${req.user.name} wants to return items from order ${order.order_number}: ${reason}`);
+
+      return result.lastID;
+    });
+
+    const newReturn = await getReturn(db, returnId);
+
+    res.status(201).json({
+      message: 'Return requested successfully',
+      return: newReturn
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Create return error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Approve or reject a requested return
+router.patch('/:id/review', requirePermission('returns.manage'), [
+  body('decision').isIn(['approve', 'reject']).withMessage('Decision must be approve or reject'),
+  body('notes').if(body('decision').equals('reject')).trim().notEmpty().withMessage('A reason is required when rejecting a return'),
+  body('notes').optional().trim()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { decision, notes } = req.body;
+    const db = getDatabase();
+
+    await withTransaction(async (tx) => {
+      const rma = await tx.get(`${RETURN_SELECT} WHERE r.id = ?`, [id]);
+      if (!rma) {
+        throw new HttpError(404, 'Return not found');
+      }
+
+      if (rma.status !== 'requested') {
+        throw new HttpError(400, `Cannot review a ${rma.status} return`);
+      }
+
+      const status = decision === 'approve' ? 'approved' : 'rejected';
+
+      await tx.run(`
+        UPDATE returns
+        SET status = ?, review_notes = ?, reviewed_by = ?, reviewed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [status, notes || null, req.user.id, id]);
+
+      await notifyOrderUpdate(tx, rma.requested_by,
+        decision === 'approve' ? `Return ${rma.rma_number} was approved` : `Return ${rma.rma_number} was rejected`,
+        notes ? `${req.user.name}: ${notes}` : `Send the items back to the depot, quoting ${rma.rma_number}`);
+    });
+
+    const updatedReturn = await getReturn(db, id);
+
+    res.json({
+      message: decision === 'approve' ? 'Return approved' : 'Return rejected',
+      return: updatedReturn
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Review return error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Receive the goods of an approved return, restocking or scrapping each line, and credit the order
+router.post('/:id/receive', requirePermission('returns.manage'), [
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.return_item_id').isInt().withMessage('Valid return item ID is required'),
+  body('items.*.disposition').isIn(['restock', 'scrap']).withMessage('Disposition must be restock or scrap'),
+  body('notes').optional().trim()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { items, notes } = req.body;
+    const db = getDatabase();
+
+    // Stock, ledger entries, order credit and backorder allocations commit together
+    const allocatedBackorders = await withTransaction(async (tx) => {
+      const rma = await tx.get(`${RETURN_SELECT} WHERE r.id = ?`, [id]);
+      if (!rma) {
+        throw new HttpError(404, 'Return not found');
+      }
+
+      if (rma.status !== 'approved') {
+        throw new HttpError(400, 'Only approved returns can be received');
+      }
+
+      const returnItems = await getReturnItems(tx, id);
+      const dispositions = new Map(items.map(item => [Number(item.return_item_id), item.disposition]));
+      const undecided = returnItems.find(item => !dispositions.has(item.id));
+      if (undecided) {
+        throw new HttpError(400, `Choose whether to restock or scrap ${undecided.product_name}`);
+      }
+
+      let goodsCredit = 0;
+      let taxCredit = 0;
+      const restockedProducts = new Set();
+      for (const item of returnItems) {
+        const disposition = dispositions.get(item.id);
+
+        await tx.run('UPDATE return_items SET disposition = ? WHERE id = ?', [disposition, item.id]);
+        await tx.run('UPDATE order_items SET returned_quantity = returned_quantity + ? WHERE id = ?', [item.quantity, item.order_item_id]);
+        // Returned units are credited with their share of the tax charged on the line
+        goodsCredit += item.quantity * item.unit_price;
+        taxCredit += item.line_tax_amount * item.quantity / item.ordered_quantity;
+
+        // Scrapped goods never reach the shelf, so only restocked lines touch stock and the ledger
+        if (disposition === 'restock') {
+          await tx.run(`
+            UPDATE products
+            SET stock_quantity = stock_quantity + ?, updated_at = CURRENT_TIMESTAMP
+            WHERE id = ?
+          `, [item.quantity, item.product_id]);
+
+          const { stock_quantity: newStock } = await tx.get('SELECT stock_quantity FROM products WHERE id = ?', [item.product_id]);
+
+          await tx.run(`
+            INSERT INTO inventory_transactions (
+              product_id, transaction_type, quantity, reason, reference_type, reference_id, balance_after, notes, created_by
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `, [item.product_id, 'in', item.quantity, 'returned', 'return', rma.id, newStock, `Return ${rma.rma_number} for order ${rma.order_number}`, req.user.id]);
+
+          restockedProducts.add(item.product_id);
+        }
+      }
+      goodsCredit = roundCents(goodsCredit);
+      taxCredit = roundCents(taxCredit);
+      const credit = roundCents(goodsCredit + taxCredit);
+
+      await tx.run(`
+        UPDATE returns
+        SET status = 'received', credit_amount = ?, receipt_notes = ?, received_by = ?, received_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [credit, notes || null, req.user.id, id]);
+
+      // The goods and tax shares come off the order's subtotal and tax, so its total stays their sum
+      const order = await tx.get('SELECT subtotal_amount, tax_amount FROM orders WHERE id = ?', [rma.order_id]);
+      const subtotal = roundCents(Math.max(order.subtotal_amount - goodsCredit, 0));
+      const tax = roundCents(Math.max(order.tax_amount - taxCredit, 0));
+      await tx.run(`
+        UPDATE orders
+        SET subtotal_amount = ?, tax_amount = ?, total_amount = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [subtotal, tax, roundCents(subtotal + tax), rma.order_id]);
+
+      await notifyOrderUpdate(tx, rma.requested_by, `Return ${rma.rma_number} was received`,
+        `$${credit.toFixed(2)} credited to order ${rma.order_number}`);
+
+      const allocated = [];
+      for (const productId of restockedProducts) {
+        allocated.push(...await allocateBackorders(tx, productId));
+      }
+      return allocated;
+    });
+
+    const updatedReturn = await getReturn(db, id);
+
+    res.json({
+      message: 'Return received successfully',
+      return: updatedReturn,
+      allocated_backorders: allocatedBackorders
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Receive return error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
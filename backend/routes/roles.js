@@ -0,0 +1,208 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { requirePermission, hasPermission, getRolePermissions } from '../middleware/auth.js';
+import { PERMISSIONS, ALL_PERMISSIONS, ADMIN_ROLE } from '../middleware/permissions.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+
+const router = express.Router();
+
+const ROLE_SELECT = `
+  SELECT
+    r.*,
+    (SELECT GROUP_CONCAT(rp.permission) FROM role_permissions rp WHERE rp.role_id = r.id) as permissions,
+    (SELECT COUNT(*) FROM users u WHERE u.role = r.name) as user_count
+  FROM roles r
+`;
+
+// Stored grants come back as a comma-separated list; admins implicitly hold everything
+const formatRole = (role) => ({
+  ...role,
+  is_system: !!role.is_system,
+  permissions: role.name === ADMIN_ROLE ? ALL_PERMISSIONS : (role.permissions ? role.permissions.split(',') : [])
+});
+
+const setRolePermissions = async (tx, roleId, permissions) => {
+  await tx.run('DELETE FROM role_permissions WHERE role_id = ?', [roleId]);
+  for (const permission of new Set(permissions)) {
+    await tx.run('INSERT INTO role_permissions (role_id, permission) VALUES (?, ?)', [roleId, permission]);
+  }
+};
+
+// Role managers cannot hand out access they do not have themselves
+const findUngrantable = (user, permissions) => permissions.find(permission => !hasPermission(user, permission));
+
+// Nor can user managers, by assigning or inviting someone to a role that carries more than they have
+export const findUngrantableInRole = async (db, user, role) => findUngrantable(user, await getRolePermissions(db, role));
+
+const permissionValidators = [
+  body('permissions').optional().isArray().withMessage('Permissions must be an array'),
+  body('permissions.*').isIn(ALL_PERMISSIONS).withMessage('Unknown permission')
+];
+
+// Get all roles with their permissions and member counts
+router.get('/', requirePermission('users.view'), async (req, res) => {
+  try {
+    const db = getDatabase();
+
+    const roles = await db.all(`${ROLE_SELECT} ORDER BY r.is_system DESC, r.label ASC`);
+
+    res.json({ roles: roles.map(formatRole) });
+  } catch (error) {
+    console.error('Get roles error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the catalogue of permissions a role can be granted
+router.get('/permissions', requirePermission('users.view'), (req, res) => {
+  res.json({
+    permissions: Object.entries(PERMISSIONS).map(([key, description]) => ({ key, description }))
+  });
+});
+
+// Create new role
+router.post('/', requirePermission('roles.manage'), [
+  body('name').trim().matches(/^[a-z][a-z0-9_]*$/).withMessage('Name must be lowercase letters, numbers and underscores'),
+  body('label').trim().notEmpty().withMessage('Label is required'),
+  body('description').optional(),
+  ...permissionValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, label, description, permissions = [] } = req.body;
+    const db = getDatabase();
+
+    const existingRole = await db.get('SELECT id FROM roles WHERE name = ?', [name]);
+    if (existingRole) {
+      return res.status(400).json({ error: 'Role name already exists' });
+    }
+
+    const ungrantable = findUngrantable(req.user, permissions);
+    if (ungrantable) {
+      return res.status(403).json({ error: `You cannot grant the ${ungrantable} permission` });
+    }
+
+    const roleId = await withTransaction(async (tx) => {
+      const result = await tx.run(`
+        INSERT INTO roles (name, label, description)
+        VALUES (?, ?, ?)
+      `, [name, label, description]);
+      await setRolePermissions(tx, result.lastID, permissions);
+      return result.lastID;
+    });
+
+    const newRole = await db.get(`${ROLE_SELECT} WHERE r.id = ?`, [roleId]);
+
+    res.status(201).json({
+      message: 'Role created successfully',
+      role: formatRole(newRole)
+    });
+  } catch (error) {
+    console.error('Create role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update role label, description and permissions; the name is referenced by users and stays fixed
+router.put('/:id', requirePermission('roles.manage'), [
+  body('label').optional().trim().notEmpty().withMessage('Label cannot be empty'),
+  body('description').optional(),
+  ...permissionValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { label, description, permissions } = req.body;
+    const db = getDatabase();
+
+    const role = await db.get('SELECT id, name FROM roles WHERE id = ?', [id]);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    if (role.name === ADMIN_ROLE && permissions !== undefined) {
+      return res.status(400).json({ error: 'The administrator role always has every permission' });
+    }
+
+    if (permissions !== undefined) {
+      const ungrantable = findUngrantable(req.user, permissions);
+      if (ungrantable) {
+        return res.status(403).json({ error: `You cannot grant the ${ungrantable} permission` });
+      }
+    }
+
+    await withTransaction(async (tx) => {
+      if (label !== undefined || description !== undefined) {
+        await tx.run(`
+          UPDATE roles
+          SET label = COALESCE(?, label), description = COALESCE(?, description), updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `, [label ?? null, description ?? null, id]);
+      }
+      if (permissions !== undefined) {
+        await setRolePermissions(tx, id, permissions);
+      }
+    });
+
+    const updatedRole = await db.get(`${ROLE_SELECT} WHERE r.id = ?`, [id]);
+
+    res.json({
+      message: 'Role updated successfully',
+      role: formatRole(updatedRole)
+    });
+  } catch (error) {
+    console.error('Update role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete role
+router.delete('/:id', requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const role = await db.get('SELECT id, name, is_system FROM roles WHERE id = ?', [id]);
+    if (!role) {
+      return res.status(404).json({ error: 'Role not found' });
+    }
+
+    if (role.is_system) {
+      return res.status(400).json({ error: 'System roles cannot be deleted' });
+    }
+
+    const user = await db.get('SELECT id FROM users WHERE role = ? LIMIT 1', [role.name]);
+    if (user) {
+      return res.status(400).json({ error: 'Cannot delete role that is assigned to users' });
+    }
+
+    const invitation = await db.get(`
+      SELECT id FROM invitations
+      WHERE role = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+      LIMIT 1
+    `, [role.name]);
+    if (invitation) {
+      return res.status(400).json({ error: 'Cannot delete role that has pending invitations; revoke them first' });
+    }
+
+    await withTransaction(async (tx) => {
+      await tx.run('DELETE FROM role_permissions WHERE role_id = ?', [id]);
+      await tx.run('DELETE FROM roles WHERE id = ?', [id]);
+    });
+
+    res.json({ message: 'Role deleted successfully' });
+  } catch (error) {
+    console.error('Delete role error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
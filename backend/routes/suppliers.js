@@ -0,0 +1,211 @@
+import express from 'express';
+import { body, validationResult, query } from 'express-validator';
+import { requirePermission } from '../middleware/auth.js';
+import { getDatabase } from '../database/init.js';
+
+const router = express.Router();
+
+// Get all suppliers with optional filtering
+router.get('/', requirePermission('purchasing.view'), [
+  query('status').optional().isIn(['active', 'inactive']),
+  query('search').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { status, search } = req.query;
+    const db = getDatabase();
+
+    let whereClause = 'WHERE 1=1';
+    const params = [];
+
+    if (status) {
+      whereClause += ' AND s.status = ?';
+      params.push(status);
+    }
+
+    if (search) {
+      whereClause += ' AND (s.name LIKE ? OR s.contact_name LIKE ? OR s.email LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm);
+    }
+
+    const suppliers = await db.all(`
+      SELECT
+        s.*,
+        COUNT(po.id) as purchase_order_count,
+        COALESCE(SUM(CASE WHEN po.status IN ('ordered', 'partially_received') THEN 1 ELSE 0 END), 0) as open_purchase_orders
+      FROM suppliers s
+      LEFT JOIN purchase_orders po ON po.supplier_id = s.id
+      ${whereClause}
+      GROUP BY s.id
+      ORDER BY s.name ASC
+    `, params);
+
+    res.json({ suppliers });
+  } catch (error) {
+    console.error('Get suppliers error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get single supplier by ID
+router.get('/:id', requirePermission('purchasing.view'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const supplier = await db.get('SELECT * FROM suppliers WHERE id = ?', [id]);
+    if (!supplier) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+
+    res.json({ supplier });
+  } catch (error) {
+    console.error('Get supplier error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create new supplier
+router.post('/', requirePermission('purchasing.manage'), [
+  body('name').trim().notEmpty().withMessage('Supplier name is required'),
+  body('contact_name').optional(),
+  body('email').optional({ checkFalsy: true }).isEmail().withMessage('Valid email is required'),
+  body('phone').optional(),
+  body('address').optional(),
+  body('notes').optional(),
+  body('status').optional().isIn(['active', 'inactive'])
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, contact_name, email, phone, address, notes, status = 'active' } = req.body;
+    const db = getDatabase();
+
+    // Check if name already exists
+    const existingSupplier = await db.get('SELECT id FROM suppliers WHERE name = ? COLLATE NOCASE', [name]);
+    if (existingSupplier) {
+      return res.status(400).json({ error: 'Supplier name already exists' });
+    }
+
+    const result = await db.run(`
+      INSERT INTO suppliers (name, contact_name, email, phone, address, notes, status)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [name, contact_name, email, phone, address, notes, status]);
+
+    const newSupplier = await db.get('SELECT * FROM suppliers WHERE id = ?', [result.lastID]);
+
+    res.status(201).json({
+      message: 'Supplier created successfully',
+      supplier: newSupplier
+    });
+  } catch (error) {
+    console.error('Create supplier error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update supplier
+router.put('/:id', requirePermission('purchasing.manage'), [
+  body('name').optional().trim().notEmpty().withMessage('Supplier name cannot be empty'),
+  body('contact_name').optional(),
+  body('email').optional({ checkFalsy: true }).isEmail().withMessage('Valid email is required'),
+  body('phone').optional(),
+  body('address').optional(),
+  body('notes').optional(),
+  body('status').optional().isIn(['active', 'inactive'])
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const db = getDatabase();
+
+    // Check if supplier exists
+    const existingSupplier = await db.get('SELECT id FROM suppliers WHERE id = ?', [id]);
+    if (!existingSupplier) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+
+    // Check if new name is taken by another supplier
+    if (req.body.name) {
+      const duplicate = await db.get('SELECT id FROM suppliers WHERE name = ? COLLATE NOCASE AND id != ?', [req.body.name, id]);
+      if (duplicate) {
+        return res.status(400).json({ error: 'Supplier name already exists' });
+      }
+    }
+
+    const allowedFields = ['name', 'contact_name', 'email', 'phone', 'address', 'notes', 'status'];
+    const updateFields = [];
+    const updateValues = [];
+
+    allowedFields.forEach(field => {
+      if (req.body[field] !== undefined) {
+        updateFields.push(`${field} = ?`);
+        updateValues.push(req.body[field]);
+      }
+    });
+
+    if (updateFields.length === 0) {
+      return res.status(400).json({ error: 'No fields to update' });
+    }
+
+    updateFields.push('updated_at = CURRENT_TIMESTAMP');
+    updateValues.push(id);
+
+    await db.run(`
+      UPDATE suppliers
+      SET ${updateFields.join(', ')}
+      WHERE id = ?
+    `, updateValues);
+
+    const updatedSupplier = await db.get('SELECT * FROM suppliers WHERE id = ?', [id]);
+
+    res.json({
+      message: 'Supplier updated successfully',
+      supplier: updatedSupplier
+    });
+  } catch (error) {
+    console.error('Update supplier error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete supplier
+router.delete('/:id', requirePermission('purchasing.manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    // Check if supplier exists
+    const supplier = await db.get('SELECT id FROM suppliers WHERE id = ?', [id]);
+    if (!supplier) {
+      return res.status(404).json({ error: 'Supplier not found' });
+    }
+
+    // Suppliers with purchase history are kept for the audit trail
+    const purchaseOrder = await db.get('SELECT id FROM purchase_orders WHERE supplier_id = ? LIMIT 1', [id]);
+    if (purchaseOrder) {
+      return res.status(400).json({ error: 'Cannot delete supplier that has purchase orders; mark it inactive instead' });
+    }
+
+    await db.run('DELETE FROM suppliers WHERE id = ?', [id]);
+
+    res.json({ message: 'Supplier deleted successfully' });
+  } catch (error) {
+    console.error('Delete supplier error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,180 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import { requirePermission } from '../middleware/auth.js';
+import { getDatabase } from '../database/init.js';
+
+const router = express.Router();
+
+const TAX_RATE_SELECT = `
+  SELECT
+    t.*,
+    c.name as category_name
+  FROM tax_rates t
+  LEFT JOIN categories c ON t.category_id = c.id
+`;
+
+const rateValidators = (optional) => [
+  optional
+    ? body('name').optional().trim().notEmpty().withMessage('Tax rate name cannot be empty')
+    : body('name').trim().notEmpty().withMessage('Tax rate name is required'),
+  optional
+    ? body('rate').optional().isFloat({ min: 0, max: 100 }).withMessage('Rate must be a percentage between 0 and 100')
+    : body('rate').isFloat({ min: 0, max: 100 }).withMessage('Rate must be a percentage between 0 and 100'),
+  body('category_id').optional({ nullable: true }).isInt().withMessage('Valid category ID is required'),
+  body('region').optional({ nullable: true }).isString()
+];
+
+// Regions are matched case-insensitively; a blank region means the rate applies to every region
+const normalizeRegion = (region) => (region && region.trim()) || null;
+
+const sameRegion = (a, b) => normalizeRegion(a)?.toLowerCase() === normalizeRegion(b)?.toLowerCase();
+
+export const getTaxRates = (db) => db.all('SELECT * FROM tax_rates');
+
+// The most specific rate for a product's category delivered to a region: a rate for both the
+// category and the region wins over one for the category, which wins over one for the region,
+// which wins over the default rate that names neither. Without any match the line is untaxed
+export const findTaxRate = (rates, categoryId, region) => {
+  let best = null;
+  let bestScore = -1;
+  for (const rate of rates) {
+    if (rate.category_id != null && rate.category_id !== categoryId) continue;
+    if (rate.region != null && !sameRegion(rate.region, region)) continue;
+    const score = (rate.category_id != null ? 2 : 0) + (rate.region != null ? 1 : 0);
+    if (score > bestScore) {
+      best = rate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Each category and region pair has at most one rate
+const findDuplicateRate = (db, categoryId, region, excludeId) => db.get(`
+  SELECT id FROM tax_rates
+  WHERE category_id IS ? AND LOWER(region) IS LOWER(?) AND id != ?
+`, [categoryId, region, excludeId ?? 0]);
+
+// Get all tax rates, with the delivery regions they cover for checkout
+router.get('/', async (req, res) => {
+  try {
+    const db = getDatabase();
+
+    const taxRates = await db.all(`${TAX_RATE_SELECT} ORDER BY c.name IS NOT NULL, c.name ASC, t.region IS NOT NULL, t.region ASC`);
+    const regions = [...new Map(taxRates.filter(rate => rate.region).map(rate => [rate.region.toLowerCase(), rate.region])).values()].sort();
+
+    res.json({ tax_rates: taxRates, regions });
+  } catch (error) {
+    console.error('Get tax rates error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create new tax rate
+router.post('/', requirePermission('pricing.manage'), rateValidators(false), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { name, rate } = req.body;
+    const categoryId = req.body.category_id ?? null;
+    const region = normalizeRegion(req.body.region);
+    const db = getDatabase();
+
+    if (categoryId) {
+      const category = await db.get('SELECT id FROM categories WHERE id = ?', [categoryId]);
+      if (!category) {
+        return res.status(400).json({ error: 'Category not found' });
+      }
+    }
+
+    if (await findDuplicateRate(db, categoryId, region)) {
+      return res.status(400).json({ error: 'A tax rate for this category and region already exists' });
+    }
+
+    const result = await db.run(`
+      INSERT INTO tax_rates (name, rate, category_id, region)
+      VALUES (?, ?, ?, ?)
+    `, [name, rate, categoryId, region]);
+
+    const newRate = await db.get(`${TAX_RATE_SELECT} WHERE t.id = ?`, [result.lastID]);
+
+    res.status(201).json({
+      message: 'Tax rate created successfully',
+      tax_rate: newRate
+    });
+  } catch (error) {
+    console.error('Create tax rate error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update tax rate; orders already placed keep the rate they were charged
+router.put('/:id', requirePermission('pricing.manage'), rateValidators(true), async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const existingRate = await db.get('SELECT * FROM tax_rates WHERE id = ?', [id]);
+    if (!existingRate) {
+      return res.status(404).json({ error: 'Tax rate not found' });
+    }
+
+    const categoryId = req.body.category_id !== undefined ? req.body.category_id : existingRate.category_id;
+    const region = req.body.region !== undefined ? normalizeRegion(req.body.region) : existingRate.region;
+
+    if (categoryId) {
+      const category = await db.get('SELECT id FROM categories WHERE id = ?', [categoryId]);
+      if (!category) {
+        return res.status(400).json({ error: 'Category not found' });
+      }
+    }
+
+    if (await findDuplicateRate(db, categoryId, region, id)) {
+      return res.status(400).json({ error: 'A tax rate for this category and region already exists' });
+    }
+
+    await db.run(`
+      UPDATE tax_rates
+      SET name = ?, rate = ?, category_id = ?, region = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `, [req.body.name ?? existingRate.name, req.body.rate ?? existingRate.rate, categoryId, region, id]);
+
+    const updatedRate = await db.get(`${TAX_RATE_SELECT} WHERE t.id = ?`, [id]);
+
+    res.json({
+      message: 'Tax rate updated successfully',
+      tax_rate: updatedRate
+    });
+  } catch (error) {
+    console.error('Update tax rate error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete tax rate
+router.delete('/:id', requirePermission('pricing.manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const db = getDatabase();
+
+    const result = await db.run('DELETE FROM tax_rates WHERE id = ?', [id]);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'Tax rate not found' });
+    }
+
+    res.json({ message: 'Tax rate deleted successfully' });
+  } catch (error) {
+    console.error('Delete tax rate error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,13 +1,43 @@
 import express from 'express';
 import { body, validationResult, query } from 'express-validator';
-import { authenticateToken, requireAdmin } from '../middleware/auth.js';
-import { getDatabase } from '../database/init.js';
+import bcrypt from 'bcryptjs';
+import { requirePermission, AGENCY_ROLES } from '../middleware/auth.js';
+import { ADMIN_ROLE, AGENCY_ROLE } from '../middleware/permissions.js';
+import { getDatabase, withTransaction } from '../database/init.js';
+import { findUngrantableInRole } from './roles.js';
 
 const router = express.Router();
 
-// Get all users (admin only)
-router.get('/', requireAdmin, [
-  query('role').optional().isIn(['admin', 'agency']),
+const USER_COLUMNS = `
+  u.id, u.username, u.email, u.role, r.label as role_label, u.name, u.agency_id, u.agency_role, a.name as agency_name,
+  u.phone, u.address, u.status, u.created_at, u.updated_at
+`;
+
+const USER_FROM = 'FROM users u LEFT JOIN roles r ON u.role = r.name LEFT JOIN agencies a ON u.agency_id = a.id';
+
+// Count the admins that can still sign in, optionally ignoring one user
+const countActiveAdmins = async (db, excludeUserId = null) => {
+  const result = await db.get(`
+    SELECT COUNT(*) as count FROM users
+    WHERE role = ? AND status = 'active' AND id != ?
+  `, [ADMIN_ROLE, excludeUserId ?? 0]);
+  return result.count;
+};
+
+// Only admins may change admin accounts, so user managers cannot lock them out
+const canManageUser = (actor, target) => actor.role === ADMIN_ROLE || target.role !== ADMIN_ROLE;
+
+const revokeUserSessions = (db, userId) => db.run(`
+  UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+  WHERE user_id = ? AND revoked_at IS NULL
+`, [userId]);
+
+// Get all users
+router.get('/', requirePermission('users.view'), [
+  query('role').optional().isString(),
+  query('status').optional().isIn(['active', 'disabled']),
+  query('agency_id').optional().isInt(),
+  query('search').optional().isString(),
   query('page').optional().isInt({ min: 1 }),
   query('limit').optional().isInt({ min: 1, max: 100 })
 ], async (req, res) => {
@@ -17,33 +47,50 @@ router.get('/', requireAdmin, [
       return res.status(400).json({ errors: errors.array() });
     }
 
-    const { role, page = 1, limit = 20 } = req.query;
+    const { role, status, agency_id, search, page = 1, limit = 20 } = req.query;
     const db = getDatabase();
     
     let whereClause = 'WHERE 1=1';
     const params = [];
     
     if (role) {
-      whereClause += ' AND role = ?';
+      whereClause += ' AND u.role = ?';
       params.push(role);
     }
+    
+    if (status) {
+      whereClause += ' AND u.status = ?';
+      params.push(status);
+    }
+    
+    if (agency_id) {
+      whereClause += ' AND u.agency_id = ?';
+      params.push(agency_id);
+    }
+    
+    if (search) {
+      whereClause += ' AND (u.name LIKE ? OR u.username LIKE ? OR u.email LIKE ? OR a.name LIKE ?)';
+      const searchTerm = `%${search}%`;
+      params.push(searchTerm, searchTerm, searchTerm, searchTerm);
+    }
 
     const offset = (page - 1) * limit;
     
     // Get total count
     const countResult = await db.get(`
       SELECT COUNT(*) as total
-      FROM users
+      ${USER_FROM}
       ${whereClause}
     `, params);
     
     // Get users (excluding password hash)
     const users = await db.all(`
       SELECT 
-        id, username, email, role, name, agency_name, phone, address, created_at, updated_at
-      FROM users
+        ${USER_COLUMNS},
+        (SELECT COUNT(*) FROM orders o WHERE o.user_id = u.id) as order_count
+      ${USER_FROM}
       ${whereClause}
-      ORDER BY created_at DESC
+      ORDER BY u.created_at DESC
       LIMIT ? OFFSET ?
     `, [...params, limit, offset]);
 
@@ -62,17 +109,16 @@ router.get('/', requireAdmin, [
   }
 });
 
-// Get single user by ID (admin only)
-router.get('/:id', requireAdmin, async (req, res) => {
+// Get single user by ID
+router.get('/:id', requirePermission('users.view'), async (req, res) => {
   try {
     const { id } = req.params;
     const db = getDatabase();
     
     const user = await db.get(`
-      SELECT 
-        id, username, email, role, name, agency_name, phone, address, created_at, updated_at
-      FROM users
-      WHERE id = ?
+      SELECT ${USER_COLUMNS}
+      ${USER_FROM}
+      WHERE u.id = ?
     `, [id]);
     
     if (!user) {
@@ -86,12 +132,13 @@ router.get('/:id', requireAdmin, async (req, res) => {
   }
 });
 
-// Update user (admin only)
-router.put('/:id', requireAdmin, [
+// Update user
+router.put('/:id', requirePermission('users.manage'), [
   body('name').optional().notEmpty().withMessage('Name cannot be empty'),
   body('email').optional().isEmail().withMessage('Valid email is required'),
-  body('role').optional().isIn(['admin', 'agency']).withMessage('Valid role is required'),
-  body('agency_name').optional(),
+  body('role').optional().isString().notEmpty().withMessage('Valid role is required'),
+  body('agency_id').optional({ nullable: true }).isInt().withMessage('Valid agency ID is required'),
+  body('agency_role').optional({ nullable: true }).isIn(AGENCY_ROLES).withMessage('Valid agency role is required'),
   body('phone').optional(),
   body('address').optional()
 ], async (req, res) => {
@@ -106,11 +153,40 @@ router.put('/:id', requireAdmin, [
     const db = getDatabase();
     
     // Check if user exists
-    const existingUser = await db.get('SELECT id FROM users WHERE id = ?', [id]);
+    const existingUser = await db.get('SELECT id, role, agency_id, agency_role FROM users WHERE id = ?', [id]);
     if (!existingUser) {
       return res.status(404).json({ error: 'User not found' });
     }
     
+    if (!canManageUser(req.user, existingUser) || (updateData.role === ADMIN_ROLE && req.user.role !== ADMIN_ROLE)) {
+      return res.status(403).json({ error: 'Only administrators can manage administrator accounts' });
+    }
+    
+    if (updateData.role) {
+      const role = await db.get('SELECT id FROM roles WHERE name = ?', [updateData.role]);
+      if (!role) {
+        return res.status(400).json({ error: 'Role not found' });
+      }
+      
+      if (updateData.role !== existingUser.role) {
+        const ungrantable = await findUngrantableInRole(db, req.user, updateData.role);
+        if (ungrantable) {
+          return res.status(403).json({ error: `You cannot assign a role with the ${ungrantable} permission` });
+        }
+      }
+    }
+    
+    if (existingUser.id === req.user.id && updateData.role && updateData.role !== existingUser.role) {
+      return res.status(400).json({ error: 'You cannot change your own role' });
+    }
+    
+    // Prevent demoting the last admin
+    if (existingUser.role === ADMIN_ROLE && updateData.role && updateData.role !== ADMIN_ROLE) {
+      if (await countActiveAdmins(db, existingUser.id) === 0) {
+        return res.status(400).json({ error: 'Cannot change the role of the last admin user' });
+      }
+    }
+    
     // Check if email is already taken by another user
     if (updateData.email) {
       const emailUser = await db.get('SELECT id FROM users WHERE email = ? AND id != ?', [updateData.email, id]);
@@ -119,13 +195,32 @@ router.put('/:id', requireAdmin, [
       }
     }
     
+    // Agency users must belong to an agency with a role in it; depot staff belong to none
+    const role = updateData.role || existingUser.role;
+    if (role === AGENCY_ROLE) {
+      const agencyId = updateData.agency_id !== undefined ? updateData.agency_id : existingUser.agency_id;
+      const agencyRole = updateData.agency_role !== undefined ? updateData.agency_role : existingUser.agency_role;
+      if (!agencyId || !agencyRole) {
+        return res.status(400).json({ error: 'Agency users need an agency and an agency role' });
+      }
+      const agency = await db.get('SELECT id FROM agencies WHERE id = ?', [agencyId]);
+      if (!agency) {
+        return res.status(400).json({ error: 'Agency not found' });
+      }
+    } else {
+      updateData.agency_id = null;
+      updateData.agency_role = null;
+    }
+    
+    // Status and password have their own endpoints
+    const allowedFields = ['name', 'email', 'role', 'agency_id', 'agency_role', 'phone', 'address'];
     const updateFields = [];
     const updateValues = [];
     
-    Object.keys(updateData).forEach(key => {
-      if (updateData[key] !== undefined) {
-        updateFields.push(`${key} = ?`);
-        updateValues.push(updateData[key]);
+    allowedFields.forEach(field => {
+      if (updateData[field] !== undefined) {
+        updateFields.push(`${field} = ?`);
+        updateValues.push(updateData[field]);
       }
     });
     
@@ -143,10 +238,9 @@ router.put('/:id', requireAdmin, [
     `, updateValues);
     
     const updatedUser = await db.get(`
-      SELECT 
-        id, username, email, role, name, agency_name, phone, address, created_at, updated_at
-      FROM users
-      WHERE id = ?
+      SELECT ${USER_COLUMNS}
+      ${USER_FROM}
+      WHERE u.id = ?
     `, [id]);
     
     res.json({
@@ -159,8 +253,97 @@ router.put('/:id', requireAdmin, [
   }
 });
 
-// Delete user (admin only)
-router.delete('/:id', requireAdmin, async (req, res) => {
+// Disable or enable a user account
+router.patch('/:id/status', requirePermission('users.manage'), [
+  body('status').isIn(['active', 'disabled']).withMessage('Status must be active or disabled')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const { status } = req.body;
+    const db = getDatabase();
+    
+    const user = await db.get('SELECT id, role FROM users WHERE id = ?', [id]);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    if (!canManageUser(req.user, user)) {
+      return res.status(403).json({ error: 'Only administrators can manage administrator accounts' });
+    }
+    
+    if (status === 'disabled') {
+      if (user.id === req.user.id) {
+        return res.status(400).json({ error: 'You cannot disable your own account' });
+      }
+      if (user.role === ADMIN_ROLE && await countActiveAdmins(db, user.id) === 0) {
+        return res.status(400).json({ error: 'Cannot disable the last admin user' });
+      }
+    }
+    
+    // Disabling signs the user out everywhere
+    await withTransaction(async (tx) => {
+      await tx.run('UPDATE users SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [status, id]);
+      if (status === 'disabled') {
+        await revokeUserSessions(tx, id);
+      }
+    });
+    
+    const updatedUser = await db.get(`SELECT ${USER_COLUMNS} ${USER_FROM} WHERE u.id = ?`, [id]);
+    
+    res.json({
+      message: status === 'disabled' ? 'User disabled successfully' : 'User enabled successfully',
+      user: updatedUser
+    });
+  } catch (error) {
+    console.error('Update user status error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reset a user's password
+router.post('/:id/reset-password', requirePermission('users.manage'), [
+  body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    const db = getDatabase();
+    
+    const user = await db.get('SELECT id, role FROM users WHERE id = ?', [id]);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    
+    if (!canManageUser(req.user, user)) {
+      return res.status(403).json({ error: 'Only administrators can manage administrator accounts' });
+    }
+    
+    const passwordHash = await bcrypt.hash(req.body.password, 10);
+    
+    // Existing sessions were opened with the old password
+    await withTransaction(async (tx) => {
+      await tx.run('UPDATE users SET password_hash = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [passwordHash, id]);
+      await revokeUserSessions(tx, id);
+    });
+    
+    res.json({ message: 'Password reset successfully' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete user
+router.delete('/:id', requirePermission('users.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const db = getDatabase();
@@ -171,9 +354,17 @@ router.delete('/:id', requireAdmin, async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
     
+    if (user.id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+    
+    if (!canManageUser(req.user, user)) {
+      return res.status(403).json({ error: 'Only administrators can manage administrator accounts' });
+    }
+    
     // Prevent deleting the last admin
-    if (user.role === 'admin') {
-      const adminCount = await db.get('SELECT COUNT(*) as count FROM users WHERE role = "admin"', []);
+    if (user.role === ADMIN_ROLE) {
+      const adminCount = await db.get('SELECT COUNT(*) as count FROM users WHERE role = ?', [ADMIN_ROLE]);
       if (adminCount.count <= 1) {
         return res.status(400).json({ error: 'Cannot delete the last admin user' });
       }
@@ -185,7 +376,11 @@ router.delete('/:id', requireAdmin, async (req, res) => {
       return res.status(400).json({ error: 'Cannot delete user that has orders' });
     }
     
-    await db.run('DELETE FROM users WHERE id = ?', [id]);
+    await withTransaction(async (tx) => {
+      await tx.run('DELETE FROM sessions WHERE user_id = ?', [id]);
+      await tx.run('DELETE FROM notifications WHERE user_id = ?', [id]);
+      await tx.run('DELETE FROM users WHERE id = ?', [id]);
+    });
     
     res.json({ message: 'User deleted successfully' });
   } catch (error) {
@@ -195,7 +390,7 @@ router.delete('/:id', requireAdmin, async (req, res) => {
 });
 
 // Get user statistics
-router.get('/stats/overview', requireAdmin, async (req, res) => {
+router.get('/stats/overview', requirePermission('users.view'), async (req, res) => {
   try {
     const db = getDatabase();
     
@@ -203,7 +398,8 @@ router.get('/stats/overview', requireAdmin, async (req, res) => {
       SELECT 
         COUNT(*) as total_users,
         SUM(CASE WHEN role = 'admin' THEN 1 ELSE 0 END) as admin_users,
-        SUM(CASE WHEN role = 'agency' THEN 1 ELSE 0 END) as agency_users
+        SUM(CASE WHEN role = 'agency' THEN 1 ELSE 0 END) as agency_users,
+        SUM(CASE WHEN status = 'disabled' THEN 1 ELSE 0 END) as disabled_users
       FROM users
     `);
     
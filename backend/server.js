@@ -10,12 +10,25 @@ import { dirname, join } from 'path';
 import authRoutes from './routes/auth.js';
 import projectsRoutes from './routes/projects.js';
 import productsRoutes from './routes/products.js';
+import categoriesRoutes from './routes/categories.js';
 import ordersRoutes from './routes/orders.js';
 import usersRoutes from './routes/users.js';
 import dashboardRoutes from './routes/dashboard.js';
+import inventoryRoutes from './routes/inventory.js';
+import notificationsRoutes from './routes/notifications.js';
+import suppliersRoutes from './routes/suppliers.js';
+import purchaseOrdersRoutes from './routes/purchaseOrders.js';
+import invitationsRoutes from './routes/invitations.js';
+import agenciesRoutes from './routes/agencies.js';
+import rolesRoutes from './routes/roles.js';
+import returnsRoutes from './routes/returns.js';
+import cartRoutes from './routes/cart.js';
+import taxRatesRoutes from './routes/taxRates.js';
+import priceListsRoutes from './routes/priceLists.js';
 
 // Import database initialization
 import { initDatabase } from './database/init.js';
+import { authenticateToken, getJwtSecret } from './middleware/auth.js';
 
 dotenv.config();
 
@@ -60,11 +73,23 @@ app.get('/api/health', (req, res) => {
 
 // API routes
 app.use('/api/auth', authRoutes);
-app.use('/api/projects', projectsRoutes);
+app.use('/api/projects', authenticateToken, projectsRoutes);
 app.use('/api/products', productsRoutes);
-app.use('/api/orders', ordersRoutes);
-app.use('/api/users', usersRoutes);
-app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/categories', categoriesRoutes);
+app.use('/api/orders', authenticateToken, ordersRoutes);
+app.use('/api/users', authenticateToken, usersRoutes);
+app.use('/api/dashboard', authenticateToken, dashboardRoutes);
+app.use('/api/inventory', authenticateToken, inventoryRoutes);
+app.use('/api/notifications', authenticateToken, notificationsRoutes);
+app.use('/api/suppliers', authenticateToken, suppliersRoutes);
+app.use('/api/purchase-orders', authenticateToken, purchaseOrdersRoutes);
+app.use('/api/invitations', authenticateToken, invitationsRoutes);
+app.use('/api/agencies', authenticateToken, agenciesRoutes);
+app.use('/api/roles', authenticateToken, rolesRoutes);
+app.use('/api/returns', authenticateToken, returnsRoutes);
+app.use('/api/cart', authenticateToken, cartRoutes);
+app.use('/api/tax-rates', authenticateToken, taxRatesRoutes);
+app.use('/api/price-lists', authenticateToken, priceListsRoutes);
 
 // Error handling middleware
 app.use((err, req, res, next) => {
@@ -83,6 +108,8 @@ app.use('*', (req, res) => {
 // Initialize database and start server
 const startServer = async () => {
   try {
+    // Fail fast when no signing secret is configured in production
+    getJwtSecret();
     await initDatabase();
     console.log('✅ Database initialized successfully');
     
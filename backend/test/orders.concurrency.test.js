@@ -0,0 +1,157 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import express from 'express';
+
+// Orders placed at the same moment must share out stock without reserving or shipping more than is on
+// hand. Runs the real routes against a scratch database seeded like a fresh install
+const scratchDir = mkdtempSync(join(tmpdir(), 'fence-flow-test-'));
+process.env.DB_PATH = join(scratchDir, 'inventory.db');
+
+const { initDatabase, getDatabase } = await import('../database/init.js');
+const { authenticateToken } = await import('../middleware/auth.js');
+const { default: authRoutes } = await import('../routes/auth.js');
+const { default: ordersRoutes } = await import('../routes/orders.js');
+
+const STOCK = 10;
+const ORDER_COUNT = 25;
+
+let server;
+let baseUrl;
+let productId;
+let countedProductId;
+
+const api = async (method, path, token, body) => {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token && { Authorization: `Bearer ${token}` })
+    },
+    body: body && JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const login = async (username, password) => {
+  const { body } = await api('POST', '/auth/login', null, { username, password });
+  return body.token;
+};
+
+const getStock = (id = productId) => getDatabase().get(`
+  SELECT
+    p.stock_quantity,
+    p.reserved_quantity,
+    (SELECT COALESCE(SUM(oi.reserved_quantity), 0) FROM order_items oi WHERE oi.product_id = p.id) as line_reserved,
+    (SELECT COALESCE(SUM(oi.shipped_quantity), 0) FROM order_items oi WHERE oi.product_id = p.id) as line_shipped
+  FROM products p
+  WHERE p.id = ?
+`, [id]);
+
+before(async () => {
+  await initDatabase();
+
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  app.use('/api/orders', authenticateToken, ordersRoutes);
+  await new Promise(resolve => {
+    server = app.listen(0, resolve);
+  });
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  const [product, countedProduct] = await getDatabase().all("SELECT id FROM products WHERE status = 'active' ORDER BY id LIMIT 2");
+  productId = product.id;
+  countedProductId = countedProduct.id;
+  await getDatabase().run('UPDATE products SET stock_quantity = ?, reserved_quantity = 0 WHERE id IN (?, ?)', [STOCK, productId, countedProductId]);
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await getDatabase().close();
+  rmSync(scratchDir, { recursive: true, force: true });
+});
+
+test('concurrent orders never reserve more than is in stock', async () => {
+  const token = await login('agency1', 'agency123');
+
+  const responses = await Promise.all(Array.from({ length: ORDER_COUNT }, () => (
+    api('POST', '/orders', token, { items: [{ product_id: productId, quantity: 1 }] })
+  )));
+
+  assert.ok(responses.every(response => response.status === 201), 'every order is accepted');
+
+  const stock = await getStock();
+  assert.equal(stock.reserved_quantity, STOCK, 'all stock is reserved');
+  assert.equal(stock.line_reserved, stock.reserved_quantity, 'order lines account for every reserved unit');
+
+  const reservedOrders = responses.filter(response => response.body.order.items[0].reserved_quantity === 1);
+  const backorderedOrders = responses.filter(response => response.body.order.items[0].backordered_quantity === 1);
+  assert.equal(reservedOrders.length, STOCK, 'one order per unit in stock is reserved');
+  assert.equal(backorderedOrders.length, ORDER_COUNT - STOCK, 'the rest are backordered');
+});
+
+test('concurrent shipments never ship more than is on hand', async () => {
+  const token = await login('admin', 'admin123');
+  const orders = await getDatabase().all(`
+    SELECT o.id, oi.id as order_item_id
+    FROM orders o
+    JOIN order_items oi ON oi.order_id = o.id
+    WHERE oi.product_id = ?
+  `, [productId]);
+
+  for (const order of orders) {
+    await api('PATCH', `/orders/${order.id}/status`, token, { status: 'approved' });
+    await api('PATCH', `/orders/${order.id}/status`, token, { status: 'processing' });
+  }
+
+  // Every order asks to ship a unit, reserved or not; only the reserved ones may leave
+  const responses = await Promise.all(orders.map(order => (
+    api('POST', `/orders/${order.id}/shipments`, token, { items: [{ order_item_id: order.order_item_id, quantity: 1 }] })
+  )));
+
+  assert.equal(responses.filter(response => response.status === 201).length, STOCK, 'one shipment per unit in stock');
+  assert.ok(responses.every(response => response.status === 201 || response.status === 400), 'the rest are refused');
+
+  const stock = await getStock();
+  assert.equal(stock.stock_quantity, 0, 'stock is shipped out without going negative');
+  assert.equal(stock.reserved_quantity, 0, 'no reservations are left behind');
+  assert.equal(stock.line_shipped, STOCK, 'order lines account for every shipped unit');
+});
+
+test('concurrent shipments stop at what is on hand after a stock count comes up short', async () => {
+  const agencyToken = await login('agency1', 'agency123');
+  const adminToken = await login('admin', 'admin123');
+
+  const placed = await Promise.all(Array.from({ length: STOCK }, () => (
+    api('POST', '/orders', agencyToken, { items: [{ product_id: countedProductId, quantity: 1 }] })
+  )));
+  const orders = placed.map(response => response.body.order);
+  assert.ok(orders.every(order => order.items[0].reserved_quantity === 1), 'every order is reserved');
+
+  for (const order of orders) {
+    await api('PATCH', `/orders/${order.id}/status`, adminToken, { status: 'approved' });
+    await api('PATCH', `/orders/${order.id}/status`, adminToken, { status: 'processing' });
+  }
+
+  // The count finds half the units missing, so only the on-hand check stands between the reserved
+  // lines and negative stock
+  const onHand = STOCK / 2;
+  await getDatabase().run('UPDATE products SET stock_quantity = ? WHERE id = ?', [onHand, countedProductId]);
+
+  const responses = await Promise.all(orders.map(order => (
+    api('POST', `/orders/${order.id}/shipments`, adminToken, { items: [{ order_item_id: order.items[0].id, quantity: 1 }] })
+  )));
+
+  assert.equal(responses.filter(response => response.status === 201).length, onHand, 'one shipment per unit on hand');
+  const refused = responses.filter(response => response.status === 400);
+  assert.equal(refused.length, STOCK - onHand, 'the rest are refused');
+  assert.ok(refused.every(response => /on hand/.test(response.body.error)), 'refused for lack of stock on hand');
+
+  const stock = await getStock(countedProductId);
+  assert.equal(stock.stock_quantity, 0, 'stock is shipped out without going negative');
+  assert.equal(stock.line_shipped, onHand, 'order lines account for every shipped unit');
+  assert.equal(stock.line_reserved, stock.reserved_quantity, 'unshipped lines keep their reservations');
+});
@@ -0,0 +1,8 @@
+// Raised inside a transaction to abort it with a client-facing error; route handlers answer with its
+// status and message instead of a 500
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
@@ -0,0 +1,40 @@
+import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { UsersManager } from "./UsersManager";
+import { AgenciesManager } from "./AgenciesManager";
+import { InvitationsManager } from "./InvitationsManager";
+import { RolesManager } from "./RolesManager";
+
+export const AccountsManager = () => {
+  const [activeTab, setActiveTab] = useState("users");
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">User Management</h2>
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="agencies">Agencies</TabsTrigger>
+          <TabsTrigger value="invitations">Invitations</TabsTrigger>
+          <TabsTrigger value="roles">Roles</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="users">
+          <UsersManager />
+        </TabsContent>
+
+        <TabsContent value="agencies">
+          <AgenciesManager />
+        </TabsContent>
+
+        <TabsContent value="invitations">
+          <InvitationsManager />
+        </TabsContent>
+
+        <TabsContent value="roles">
+          <RolesManager />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -0,0 +1,303 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Building2, Plus, Edit, Trash2, Mail, Phone } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface Agency {
+  id: number;
+  name: string;
+  contact_email?: string;
+  phone?: string;
+  address?: string;
+  approval_threshold?: number | null;
+  user_count: number;
+  order_count: number;
+}
+
+interface AgencyFormData {
+  name: string;
+  contact_email: string;
+  phone: string;
+  address: string;
+  approval_threshold: string;
+}
+
+const EMPTY_FORM: AgencyFormData = {
+  name: "",
+  contact_email: "",
+  phone: "",
+  address: "",
+  approval_threshold: ""
+};
+
+export const AgenciesManager = () => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "users.manage");
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedAgency, setSelectedAgency] = useState<Agency | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<AgencyFormData>(EMPTY_FORM);
+  const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; agency: Agency | null }>({ open: false, agency: null });
+
+  // Fetch agencies from backend
+  const fetchAgencies = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/agencies");
+      if (response.ok) {
+        const data = await response.json();
+        setAgencies(data.agencies || []);
+      } else {
+        toast.error("Failed to fetch agencies");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAgencies();
+  }, []);
+
+  const handleInputChange = (field: keyof AgencyFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openAddModal = () => {
+    setSelectedAgency(null);
+    setFormData(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEditModal = (agency: Agency) => {
+    setSelectedAgency(agency);
+    setFormData({
+      name: agency.name,
+      contact_email: agency.contact_email || "",
+      phone: agency.phone || "",
+      address: agency.address || "",
+      approval_threshold: agency.approval_threshold != null ? agency.approval_threshold.toString() : ""
+    });
+    setShowForm(true);
+  };
+
+  // Create or update agency
+  const handleSaveAgency = async () => {
+    if (!formData.name.trim()) {
+      toast.error("Agency name is required");
+      return;
+    }
+
+    try {
+      const response = await apiFetch(selectedAgency ? `/agencies/${selectedAgency.id}` : "/agencies", {
+        method: selectedAgency ? "PUT" : "POST",
+        body: JSON.stringify({ ...formData, name: formData.name.trim() })
+      });
+
+      if (response.ok) {
+        toast.success(selectedAgency ? "Agency updated successfully" : "Agency added successfully");
+        setShowForm(false);
+        fetchAgencies();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to save agency");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Delete agency
+  const handleDeleteAgency = async (agencyId: number) => {
+    try {
+      const response = await apiFetch(`/agencies/${agencyId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("Agency deleted successfully");
+        fetchAgencies();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete agency");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading agencies...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Agencies</h3>
+        {canManage && (
+          <Button onClick={openAddModal} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Agency
+          </Button>
+        )}
+      </div>
+
+      {/* Agencies List */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {agencies.map((agency) => (
+          <Card key={agency.id} className="hover:shadow-md transition-shadow">
+            <CardHeader>
+              <CardTitle className="text-lg">{agency.name}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-1 text-sm text-gray-600">
+                {agency.contact_email && (
+                  <div className="flex items-center gap-2"><Mail className="h-4 w-4" />{agency.contact_email}</div>
+                )}
+                {agency.phone && (
+                  <div className="flex items-center gap-2"><Phone className="h-4 w-4" />{agency.phone}</div>
+                )}
+              </div>
+              <div className="text-sm text-gray-600 mt-3">
+                {agency.approval_threshold != null
+                  ? `Orders over $${agency.approval_threshold.toLocaleString()} need agency approval`
+                  : "No order value approval limit"}
+              </div>
+              <div className="text-sm text-gray-600 mt-1">
+                {agency.user_count} users &middot; {agency.order_count} orders
+              </div>
+              {canManage && (
+                <div className="mt-4 flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEditModal(agency)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmDelete({ open: true, agency })}
+                    disabled={agency.user_count > 0 || agency.order_count > 0}
+                    title={agency.user_count > 0 || agency.order_count > 0 ? "Agencies with users or orders cannot be deleted" : undefined}
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {agencies.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Building2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No agencies yet</h3>
+            <p className="text-gray-600">Add an agency before inviting its staff.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add / Edit Agency Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedAgency ? "Edit Agency" : "Add New Agency"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="agency-name">Agency Name</Label>
+              <Input
+                id="agency-name"
+                value={formData.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                placeholder="Enter agency name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="agency-email">Contact Email</Label>
+                <Input
+                  id="agency-email"
+                  type="email"
+                  value={formData.contact_email}
+                  onChange={(e) => handleInputChange("contact_email", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="agency-phone">Phone</Label>
+                <Input
+                  id="agency-phone"
+                  value={formData.phone}
+                  onChange={(e) => handleInputChange("phone", e.target.value)}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="agency-address">Address</Label>
+              <Textarea
+                id="agency-address"
+                value={formData.address}
+                onChange={(e) => handleInputChange("address", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="agency-threshold">Approval Threshold ($)</Label>
+              <Input
+                id="agency-threshold"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.approval_threshold}
+                onChange={(e) => handleInputChange("approval_threshold", e.target.value)}
+                placeholder="Leave empty for no limit"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Requesters' orders above this total wait for an agency approver before reaching the depot.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveAgency}>{selectedAgency ? "Update Agency" : "Add Agency"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        open={confirmDelete.open}
+        title="Delete Agency?"
+        description={`Are you sure you want to delete "${confirmDelete.agency?.name}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDelete({ open: false, agency: null })}
+        onConfirm={() => {
+          if (confirmDelete.agency) handleDeleteAgency(confirmDelete.agency.id);
+          setConfirmDelete({ open: false, agency: null });
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,283 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tags, Plus, Edit, Trash2, Search } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface Category {
+  id: number;
+  name: string;
+  description?: string;
+  requires_agency_approval: number;
+  product_count: number;
+  active_product_count: number;
+  created_at: string;
+}
+
+interface CategoryFormData {
+  name: string;
+  description: string;
+  requires_agency_approval: boolean;
+}
+
+export const CategoriesManager = () => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "categories.manage");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<CategoryFormData>({ name: "", description: "", requires_agency_approval: false });
+  const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; category: Category | null }>({ open: false, category: null });
+
+  // Fetch categories from backend
+  const fetchCategories = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/categories");
+      if (response.ok) {
+        const data = await response.json();
+        setCategories(data.categories || []);
+      } else {
+        toast.error("Failed to fetch categories");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const openAddModal = () => {
+    setSelectedCategory(null);
+    setFormData({ name: "", description: "", requires_agency_approval: false });
+    setShowForm(true);
+  };
+
+  const openEditModal = (category: Category) => {
+    setSelectedCategory(category);
+    setFormData({
+      name: category.name,
+      description: category.description || "",
+      requires_agency_approval: !!category.requires_agency_approval
+    });
+    setShowForm(true);
+  };
+
+  // Create or update category
+  const handleSaveCategory = async () => {
+    if (!formData.name.trim()) {
+      toast.error("Category name is required");
+      return;
+    }
+
+    try {
+      const response = await apiFetch(selectedCategory ? `/categories/${selectedCategory.id}` : "/categories", {
+        method: selectedCategory ? "PUT" : "POST",
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          description: formData.description,
+          requires_agency_approval: formData.requires_agency_approval
+        })
+      });
+
+      if (response.ok) {
+        toast.success(selectedCategory ? "Category updated successfully" : "Category added successfully");
+        setShowForm(false);
+        fetchCategories();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to save category");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Delete category
+  const handleDeleteCategory = async (categoryId: number) => {
+    try {
+      const response = await apiFetch(`/categories/${categoryId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("Category deleted successfully");
+        fetchCategories();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete category");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const filteredCategories = categories.filter(category =>
+    category.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (category.description && category.description.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading categories...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Product Categories</h2>
+        {canManage && (
+          <Button onClick={openAddModal} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        )}
+      </div>
+
+      {/* Search */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Search categories..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Categories List */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {filteredCategories.map((category) => (
+          <Card key={category.id} className="hover:shadow-md transition-shadow">
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <CardTitle className="text-lg">{category.name}</CardTitle>
+                <Badge variant="secondary">{category.product_count} Products</Badge>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600">{category.description || "No description"}</p>
+              <div className="text-sm text-gray-600 mt-2">{category.active_product_count} active</div>
+              {!!category.requires_agency_approval && (
+                <Badge className="bg-orange-100 text-orange-800 mt-2">Requires agency approval</Badge>
+              )}
+              {canManage && (
+                <div className="mt-4 flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEditModal(category)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmDelete({ open: true, category })}
+                    disabled={category.product_count > 0}
+                    title={category.product_count > 0 ? "Move or delete this category's products first" : undefined}
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {filteredCategories.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Tags className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No categories found</h3>
+            <p className="text-gray-600">Add a category to start organizing products.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add / Edit Category Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedCategory ? "Edit Category" : "Add New Category"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="category-name">Category Name</Label>
+              <Input
+                id="category-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Enter category name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="category-description">Description</Label>
+              <Textarea
+                id="category-description"
+                value={formData.description}
+                onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Enter description"
+              />
+            </div>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="category-requires-approval"
+                checked={formData.requires_agency_approval}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, requires_agency_approval: checked === true }))}
+              />
+              <Label htmlFor="category-requires-approval" className="font-normal leading-tight">
+                <span className="font-medium">Requires agency approval</span>
+                <span className="block text-xs text-gray-500">Requesters' orders containing these products wait for an agency approver.</span>
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveCategory}>{selectedCategory ? "Update Category" : "Add Category"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        open={confirmDelete.open}
+        title="Delete Category?"
+        description={`Are you sure you want to delete "${confirmDelete.category?.name}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDelete({ open: false, category: null })}
+        onConfirm={() => {
+          if (confirmDelete.category) handleDeleteCategory(confirmDelete.category.id);
+          setConfirmDelete({ open: false, category: null });
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import { useState, useEffect, useRef } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { RefreshCw, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+
+interface DashboardSummary {
+  totalProjects: number;
+  completedProjects: number;
+  ongoingProjects: number;
+  totalProducts: number;
+  readyProducts: number;
+  inProductionProducts: number;
+  underMaintenanceProducts: number;
+  totalOrders: number;
+  pendingOrders: number;
+  systemStatus: string;
+}
+
+interface WeeklyTrend {
+  week_start: string;
+  orders: number;
+  order_value: number;
+  stock_outs: number;
+}
+
+interface AgencySpend {
+  agency: string;
+  orders: number;
+  spend: number;
+}
+
+interface LowStockProduct {
+  id: number;
+  name: string;
+  sku: string;
+  stock_quantity: number;
+  available_quantity: number;
+  min_stock_level: number;
+  category_name?: string;
+}
+
+// Every refresh makes three requests against the API's per-IP rate limit, which the rest of the session shares
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const TREND_WEEKS = 12;
+
+const ordersChartConfig = {
+  orders: { label: "Orders", color: "hsl(217, 91%, 60%)" }
+} satisfies ChartConfig;
+
+const stockOutChartConfig = {
+  stock_outs: { label: "Stock-outs", color: "hsl(0, 84%, 60%)" }
+} satisfies ChartConfig;
+
+const spendChartConfig = {
+  spend: { label: "Spend", color: "hsl(142, 71%, 45%)" }
+} satisfies ChartConfig;
+
+export const DashboardOverview = () => {
+  const { apiFetch } = useApi();
+  const [stats, setStats] = useState<DashboardSummary | null>(null);
+  const [weekly, setWeekly] = useState<WeeklyTrend[]>([]);
+  const [spendPerAgency, setSpendPerAgency] = useState<AgencySpend[]>([]);
+  const [lowStock, setLowStock] = useState<LowStockProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const failingRef = useRef(false);
+
+  // Fetch summary counts and trend series from backend
+  const fetchDashboard = async () => {
+    let failure: string | null = null;
+    try {
+      const [summaryResponse, trendsResponse, lowStockResponse] = await Promise.all([
+        apiFetch("/dashboard/summary"),
+        apiFetch(`/dashboard/trends?weeks=${TREND_WEEKS}`),
+        apiFetch("/products/low-stock/list")
+      ]);
+
+      if (summaryResponse.ok) {
+        setStats(await summaryResponse.json());
+      } else {
+        failure = "Failed to fetch dashboard summary";
+      }
+
+      if (trendsResponse.ok) {
+        const data = await trendsResponse.json();
+        setWeekly(data.weekly || []);
+        setSpendPerAgency(data.spendPerAgency || []);
+      } else {
+        failure = failure || "Failed to fetch dashboard trends";
+      }
+
+      if (lowStockResponse.ok) {
+        const data = await lowStockResponse.json();
+        setLowStock(data.products || []);
+      } else {
+        failure = failure || "Failed to fetch low-stock products";
+      }
+
+      if (!failure) setLastUpdated(new Date());
+    } catch (error) {
+      failure = "Network error";
+    } finally {
+      // Only the first failure is reported; later refreshes stay quiet until one succeeds again
+      if (failure && !failingRef.current) toast.error(failure);
+      failingRef.current = !!failure;
+      setLoading(false);
+    }
+  };
+
+  // Refresh in the background only while the dashboard is on screen
+  useEffect(() => {
+    fetchDashboard();
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") fetchDashboard();
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const formatWeek = (weekStart: string) => {
+    return new Date(`${weekStart}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  };
+
+  if (loading || !stats) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading dashboard...</p>
+      </div>
+    );
+  }
+
+  const completion = stats.totalProjects > 0 ? (stats.completedProjects / stats.totalProjects) * 100 : 0;
+
+  return (
+    <div>
+      <div className="flex justify-end items-center gap-2 mb-4 text-sm text-gray-500">
+        {lastUpdated && <span>Last updated {lastUpdated.toLocaleTimeString()}</span>}
+        <Button variant="ghost" size="sm" onClick={fetchDashboard}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Total Projects</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600">{stats.totalProjects}</div>
+            <div className="flex gap-2 mt-2">
+              <Badge variant="secondary">{stats.completedProjects} Complete</Badge>
+              <Badge variant="outline">{stats.ongoingProjects} Ongoing</Badge>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Total Products</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{stats.totalProducts}</div>
+            <div className="text-sm text-gray-500 mt-1">{stats.readyProducts} Ready to Ship</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">Active Orders</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-orange-600">{stats.totalOrders}</div>
+            <div className="text-sm text-gray-500 mt-1">{stats.pendingOrders} Pending</div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-600">System Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{stats.systemStatus}</div>
+            <div className="text-sm text-gray-500 mt-1">All systems operational</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Low Stock Alerts */}
+      <Card className="mb-6">
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-orange-500" />
+              Low Stock
+            </CardTitle>
+            <Badge variant={lowStock.length > 0 ? "destructive" : "secondary"}>{lowStock.length} at or below threshold</Badge>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {lowStock.length === 0 ? (
+            <p className="text-sm text-gray-600">All active products are above their reorder threshold.</p>
+          ) : (
+            <div className="space-y-3">
+              {lowStock.map((product) => (
+                <div key={product.id} className="flex justify-between items-center border-b last:border-b-0 pb-3 last:pb-0">
+                  <div>
+                    <div className="font-medium">{product.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {product.sku}{product.category_name && ` · ${product.category_name}`}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className={`font-semibold ${product.available_quantity <= 0 ? "text-red-600" : "text-orange-600"}`}>
+                      {product.available_quantity <= 0 ? "Out of stock" : `${product.available_quantity} available`}
+                    </div>
+                    <div className="text-xs text-gray-500">Threshold {product.min_stock_level}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Weekly Trends */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Orders per Week</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={ordersChartConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={weekly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week_start" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+                <Bar dataKey="orders" fill="var(--color-orders)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stock-out Events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={stockOutChartConfig} className="h-64 w-full aspect-auto">
+              <LineChart data={weekly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week_start" tickFormatter={formatWeek} tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                <ChartTooltip content={<ChartTooltipContent labelFormatter={formatWeek} />} />
+                <Line dataKey="stock_outs" type="monotone" stroke="var(--color-stock_outs)" strokeWidth={2} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Spend per Agency (last {TREND_WEEKS} weeks)</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {spendPerAgency.length === 0 ? (
+            <p className="text-sm text-gray-600">No orders placed in this period.</p>
+          ) : (
+            <ChartContainer config={spendChartConfig} className="h-64 w-full aspect-auto">
+              <BarChart data={spendPerAgency} layout="vertical">
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={(value) => `$${value.toLocaleString()}`} />
+                <YAxis type="category" dataKey="agency" tickLine={false} axisLine={false} width={140} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="spend" fill="var(--color-spend)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Project Progress Overview */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Project Completion Progress</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span>Overall Project Completion</span>
+                <span>{Math.round(completion)}%</span>
+              </div>
+              <Progress value={completion} className="h-2" />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Product Status Overview */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Product Inventory Status</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="text-center p-4 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">{stats.readyProducts}</div>
+              <div className="text-sm text-green-700">Ready Products</div>
+            </div>
+            <div className="text-center p-4 bg-blue-50 rounded-lg">
+              <div className="text-2xl font-bold text-blue-600">{stats.inProductionProducts}</div>
+              <div className="text-sm text-blue-700">In Production</div>
+            </div>
+            <div className="text-center p-4 bg-orange-50 rounded-lg">
+              <div className="text-2xl font-bold text-orange-600">{stats.underMaintenanceProducts}</div>
+              <div className="text-sm text-orange-700">Under Maintenance</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
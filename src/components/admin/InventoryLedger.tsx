@@ -0,0 +1,413 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BookOpen } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { PaginationControls } from "@/components/ui/PaginationControls";
+import { ProductPicker, ProductOption } from "@/components/ui/ProductPicker";
+
+interface InventoryTransaction {
+  id: number;
+  product_id: number;
+  product_name?: string;
+  sku?: string;
+  transaction_type: string;
+  quantity: number;
+  reference_type?: string;
+  reference_id?: number;
+  order_number?: string;
+  po_number?: string;
+  rma_number?: string;
+  balance_after?: number | null;
+  reason?: string | null;
+  notes?: string;
+  created_by: number;
+  created_by_name?: string;
+  created_at: string;
+}
+
+interface UserOption {
+  id: number;
+  name: string;
+  role: string;
+  role_label?: string;
+}
+
+interface LedgerFilters {
+  product_id: string;
+  type: string;
+  reference_type: string;
+  reference_id: string;
+  user_id: string;
+  from: string;
+  to: string;
+}
+
+interface InventoryLedgerProps {
+  onOpenOrder?: (orderId: number) => void;
+  onOpenPurchaseOrder?: (purchaseOrderId: number) => void;
+  onOpenReturn?: (returnId: number) => void;
+}
+
+const PAGE_SIZE = 25;
+
+// Older movements are backfilled from current stock, which cannot reach past a stock count adjustment
+const UNKNOWN_BALANCE = "Not recorded; this movement predates an adjustment that set stock outright";
+
+const EMPTY_FILTERS: LedgerFilters = {
+  product_id: "all",
+  type: "all",
+  reference_type: "all",
+  reference_id: "",
+  user_id: "all",
+  from: "",
+  to: ""
+};
+
+export const InventoryLedger = ({ onOpenOrder, onOpenPurchaseOrder, onOpenReturn }: InventoryLedgerProps) => {
+  const { apiFetch } = useApi();
+  const [transactions, setTransactions] = useState<InventoryTransaction[]>([]);
+  const [filterProduct, setFilterProduct] = useState<ProductOption | null>(null);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<LedgerFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalTransactions, setTotalTransactions] = useState(0);
+  const [selectedTransaction, setSelectedTransaction] = useState<InventoryTransaction | null>(null);
+
+  // Fetch a page of ledger entries from backend
+  const fetchTransactions = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value && value !== "all") params.set(key, value);
+      });
+
+      const response = await apiFetch(`/inventory/transactions?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setTransactions(data.transactions || []);
+        setTotalPages(Math.max(data.pagination?.pages || 1, 1));
+        setTotalTransactions(data.pagination?.total || 0);
+      } else {
+        toast.error("Failed to fetch inventory transactions");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch users for the filter dropdown; the product filter searches as you type
+  const fetchFilterOptions = async () => {
+    try {
+      const response = await apiFetch("/users?limit=100");
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users || []);
+      }
+    } catch (error) {
+      console.error("Network error fetching ledger filter options");
+    }
+  };
+
+  useEffect(() => {
+    fetchTransactions();
+  }, [page, filters]);
+
+  useEffect(() => {
+    fetchFilterOptions();
+  }, []);
+
+  const handleFilterChange = (field: keyof LedgerFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+    setPage(1);
+  };
+
+  const selectFilterProduct = (product: ProductOption | null) => {
+    setFilterProduct(product);
+    handleFilterChange("product_id", product ? product.id.toString() : "all");
+  };
+
+  const getTypeBadge = (type: string) => {
+    switch (type) {
+      case "in": return <Badge className="bg-green-100 text-green-800">In</Badge>;
+      case "out": return <Badge className="bg-orange-100 text-orange-800">Out</Badge>;
+      case "adjustment": return <Badge className="bg-blue-100 text-blue-800">Adjustment</Badge>;
+      default: return <Badge variant="secondary">{type}</Badge>;
+    }
+  };
+
+  // Adjustments record the new absolute level, other movements a signed change
+  const formatQuantity = (transaction: InventoryTransaction) => {
+    switch (transaction.transaction_type) {
+      case "in": return <span className="text-green-700">+{transaction.quantity}</span>;
+      case "out": return <span className="text-orange-700">-{transaction.quantity}</span>;
+      default: return <span className="text-blue-700">={transaction.quantity}</span>;
+    }
+  };
+
+  const formatReason = (reason: string) => {
+    const label = reason.replace(/_/g, " ");
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  };
+
+  const renderReference = (transaction: InventoryTransaction) => {
+    if (transaction.reference_type === "order" && transaction.reference_id) {
+      return (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={() => onOpenOrder?.(transaction.reference_id as number)}
+        >
+          {transaction.order_number || `Order #${transaction.reference_id}`}
+        </Button>
+      );
+    }
+    if (transaction.reference_type === "purchase_order" && transaction.reference_id) {
+      return (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={() => onOpenPurchaseOrder?.(transaction.reference_id as number)}
+        >
+          {transaction.po_number || `PO #${transaction.reference_id}`}
+        </Button>
+      );
+    }
+    if (transaction.reference_type === "return" && transaction.reference_id) {
+      return (
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0"
+          onClick={() => onOpenReturn?.(transaction.reference_id as number)}
+        >
+          {transaction.rma_number || `Return #${transaction.reference_id}`}
+        </Button>
+      );
+    }
+    if (transaction.reference_type === "manual") {
+      return (
+        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedTransaction(transaction)}>
+          Manual adjustment
+        </Button>
+      );
+    }
+    return <span className="text-gray-600">{transaction.reference_type || "N/A"}</span>;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Inventory Ledger</h2>
+        <Badge variant="secondary">{totalTransactions} Transactions</Badge>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Product</Label>
+              <ProductPicker value={filterProduct} onChange={selectFilterProduct} clearLabel="All Products" />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={filters.type} onValueChange={(value) => handleFilterChange("type", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  <SelectItem value="in">In</SelectItem>
+                  <SelectItem value="out">Out</SelectItem>
+                  <SelectItem value="adjustment">Adjustment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Reference</Label>
+              <div className="flex gap-2">
+                <Select value={filters.reference_type} onValueChange={(value) => handleFilterChange("reference_type", value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    <SelectItem value="order">Order</SelectItem>
+                    <SelectItem value="purchase_order">Purchase Order</SelectItem>
+                    <SelectItem value="manual">Manual</SelectItem>
+                    <SelectItem value="return">Return</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  placeholder="ID"
+                  value={filters.reference_id}
+                  onChange={(e) => handleFilterChange("reference_id", e.target.value)}
+                  className="w-24"
+                />
+              </div>
+            </div>
+            <div>
+              <Label>User</Label>
+              <Select value={filters.user_id} onValueChange={(value) => handleFilterChange("user_id", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>
+                      {user.name} ({user.role_label || user.role})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="ledger-from">From</Label>
+              <Input
+                id="ledger-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => handleFilterChange("from", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ledger-to">To</Label>
+              <Input
+                id="ledger-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => handleFilterChange("to", e.target.value)}
+              />
+            </div>
+            <div className="flex items-end">
+              <Button variant="outline" onClick={() => { setFilters(EMPTY_FILTERS); setFilterProduct(null); setPage(1); }}>
+                Clear Filters
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Ledger Table */}
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading transactions...</p>
+            </div>
+          ) : transactions.length === 0 ? (
+            <div className="p-8 text-center">
+              <BookOpen className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No transactions found</h3>
+              <p className="text-gray-600">Stock movements from orders and adjustments will appear here.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Reason / Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((transaction) => (
+                  <TableRow key={transaction.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(transaction.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{transaction.product_name || `Product #${transaction.product_id}`}</div>
+                      {transaction.sku && <div className="text-xs text-gray-500">{transaction.sku}</div>}
+                    </TableCell>
+                    <TableCell>{getTypeBadge(transaction.transaction_type)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatQuantity(transaction)}</TableCell>
+                    <TableCell className="text-right">
+                      {transaction.balance_after ?? <span title={UNKNOWN_BALANCE}>—</span>}
+                    </TableCell>
+                    <TableCell>{renderReference(transaction)}</TableCell>
+                    <TableCell>{transaction.created_by_name || "N/A"}</TableCell>
+                    <TableCell className="max-w-xs truncate text-gray-600">
+                      {transaction.reason && <Badge variant="outline" className="mr-2">{formatReason(transaction.reason)}</Badge>}
+                      {transaction.notes || ""}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PaginationControls
+        page={page}
+        totalPages={totalPages}
+        totalItems={totalTransactions}
+        itemLabel="transactions"
+        onPageChange={setPage}
+      />
+
+      {/* Manual Adjustment Details Modal */}
+      <Dialog open={!!selectedTransaction} onOpenChange={(open) => { if (!open) setSelectedTransaction(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Manual Stock Adjustment</DialogTitle>
+            <DialogDescription>
+              {selectedTransaction && (
+                <div className="space-y-2 mt-2">
+                  <div><b>Product:</b> {selectedTransaction.product_name} ({selectedTransaction.sku})</div>
+                  <div><b>Type:</b> {selectedTransaction.transaction_type}</div>
+                  <div><b>Quantity:</b> {selectedTransaction.quantity}</div>
+                  <div><b>Reason:</b> {selectedTransaction.reason ? formatReason(selectedTransaction.reason) : "N/A"}</div>
+                  <div><b>Balance After:</b> {selectedTransaction.balance_after ?? UNKNOWN_BALANCE}</div>
+                  <div><b>Recorded By:</b> {selectedTransaction.created_by_name || "N/A"}</div>
+                  <div><b>Date:</b> {new Date(selectedTransaction.created_at).toLocaleString()}</div>
+                  <div><b>Notes:</b> {selectedTransaction.notes || "N/A"}</div>
+                </div>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                if (selectedTransaction) {
+                  selectFilterProduct({
+                    id: selectedTransaction.product_id,
+                    name: selectedTransaction.product_name || `Product #${selectedTransaction.product_id}`,
+                    sku: selectedTransaction.sku || ""
+                  });
+                }
+                setSelectedTransaction(null);
+              }}
+            >
+              Show Product History
+            </Button>
+            <Button onClick={() => setSelectedTransaction(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,443 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Mail, Plus, Copy, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface Invitation {
+  id: number;
+  email: string;
+  role: string;
+  role_label?: string;
+  agency_name?: string;
+  agency_role?: string;
+  status: string;
+  expires_at: string;
+  created_at: string;
+  created_by_name?: string;
+  accepted_username?: string;
+}
+
+interface InvitationFormData {
+  email: string;
+  role: string;
+  agency_id: string;
+  agency_role: string;
+  expires_in_days: string;
+}
+
+interface Agency {
+  id: number;
+  name: string;
+}
+
+interface Role {
+  name: string;
+  label: string;
+}
+
+const EMPTY_FORM: InvitationFormData = {
+  email: "",
+  role: "agency",
+  agency_id: "none",
+  agency_role: "requester",
+  expires_in_days: "7"
+};
+
+const AGENCY_ROLE_LABELS: Record<string, string> = {
+  requester: "Requester",
+  approver: "Approver",
+  viewer: "Viewer"
+};
+
+export const InvitationsManager = () => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "users.manage");
+  // Only administrators may invite administrators
+  const isAdmin = user?.role === "admin";
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<InvitationFormData>(EMPTY_FORM);
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [confirmRevoke, setConfirmRevoke] = useState<{ open: boolean; invitation: Invitation | null }>({ open: false, invitation: null });
+
+  // Fetch invitations from backend
+  const fetchInvitations = async () => {
+    try {
+      setLoading(true);
+      const params = statusFilter !== "all" ? `?status=${statusFilter}` : "";
+      const response = await apiFetch(`/invitations${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setInvitations(data.invitations || []);
+      } else {
+        toast.error("Failed to fetch invitations");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch agencies that agency staff can be invited to
+  const fetchAgencies = async () => {
+    try {
+      const response = await apiFetch("/agencies");
+      if (response.ok) {
+        const data = await response.json();
+        setAgencies(data.agencies || []);
+      } else {
+        console.error("Failed to fetch agencies");
+      }
+    } catch (error) {
+      console.error("Network error fetching agencies");
+    }
+  };
+
+  // Fetch the roles an invitation can grant
+  const fetchRoles = async () => {
+    try {
+      const response = await apiFetch("/roles");
+      if (response.ok) {
+        const data = await response.json();
+        setRoles(data.roles || []);
+      } else {
+        console.error("Failed to fetch roles");
+      }
+    } catch (error) {
+      console.error("Network error fetching roles");
+    }
+  };
+
+  useEffect(() => {
+    fetchAgencies();
+    fetchRoles();
+  }, []);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [statusFilter]);
+
+  const handleInputChange = (field: keyof InvitationFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openAddModal = () => {
+    setFormData(EMPTY_FORM);
+    setInviteLink(null);
+    setShowForm(true);
+  };
+
+  // Create invitation and show its one-time link
+  const handleCreateInvitation = async () => {
+    const isAgencyInvite = formData.role === "agency";
+    if (isAgencyInvite && formData.agency_id === "none") {
+      toast.error("Select the agency to invite this user to");
+      return;
+    }
+
+    try {
+      const response = await apiFetch("/invitations", {
+        method: "POST",
+        body: JSON.stringify({
+          email: formData.email.trim(),
+          role: formData.role,
+          agency_id: isAgencyInvite ? parseInt(formData.agency_id) : undefined,
+          agency_role: isAgencyInvite ? formData.agency_role : undefined,
+          expires_in_days: parseInt(formData.expires_in_days)
+        })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setInviteLink(`${window.location.origin}/accept-invite?token=${data.token}`);
+        toast.success("Invitation created successfully");
+        fetchInvitations();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to create invitation");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const copyInviteLink = async () => {
+    if (!inviteLink) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      toast.success("Invitation link copied");
+    } catch (error) {
+      toast.error("Could not copy the link; copy it manually");
+    }
+  };
+
+  // Revoke invitation
+  const handleRevokeInvitation = async (invitationId: number) => {
+    try {
+      const response = await apiFetch(`/invitations/${invitationId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("Invitation revoked successfully");
+        fetchInvitations();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to revoke invitation");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "pending":
+        return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+      case "accepted":
+        return <Badge className="bg-green-100 text-green-800">Accepted</Badge>;
+      case "revoked":
+        return <Badge className="bg-red-100 text-red-800">Revoked</Badge>;
+      case "expired":
+        return <Badge variant="secondary">Expired</Badge>;
+      default:
+        return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Invitations</h3>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="accepted">Accepted</SelectItem>
+              <SelectItem value="revoked">Revoked</SelectItem>
+              <SelectItem value="expired">Expired</SelectItem>
+            </SelectContent>
+          </Select>
+          {canManage && (
+            <Button onClick={openAddModal} className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Invite User
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading invitations...</p>
+        </div>
+      ) : invitations.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Mail className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No invitations</h3>
+            <p className="text-gray-600">Invite agency staff or administrators to create their accounts.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Agency</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Invited By</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => (
+                  <TableRow key={invitation.id}>
+                    <TableCell>{invitation.email}</TableCell>
+                    <TableCell>{invitation.role_label || invitation.role}</TableCell>
+                    <TableCell>
+                      {invitation.agency_name || "—"}
+                      {invitation.agency_role && (
+                        <div className="text-xs text-gray-500">{AGENCY_ROLE_LABELS[invitation.agency_role]}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {getStatusBadge(invitation.status)}
+                      {invitation.accepted_username && (
+                        <div className="text-xs text-gray-500 mt-1">as {invitation.accepted_username}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(invitation.expires_at).toLocaleString()}</TableCell>
+                    <TableCell>{invitation.created_by_name || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {canManage && invitation.status === "pending" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setConfirmRevoke({ open: true, invitation })}
+                          className="text-red-600 border-red-300 hover:bg-red-50"
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Revoke
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Create Invitation Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              The invitation link lets the recipient set their own username and password.
+            </DialogDescription>
+          </DialogHeader>
+          {inviteLink ? (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Send this link to {formData.email}. It is shown only once and works a single time.
+              </p>
+              <div className="flex gap-2">
+                <Input value={inviteLink} readOnly onFocus={(e) => e.target.select()} />
+                <Button variant="outline" onClick={copyInviteLink}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => setShowForm(false)}>Done</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="invite-email">Email</Label>
+                  <Input
+                    id="invite-email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => handleInputChange("email", e.target.value)}
+                    placeholder="name@agency.gov"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="invite-role">Role</Label>
+                    <Select value={formData.role} onValueChange={(value) => handleInputChange("role", value)}>
+                      <SelectTrigger id="invite-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {roles.filter(role => isAdmin || role.name !== "admin").map((role) => (
+                          <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="invite-expiry">Expires In</Label>
+                    <Select value={formData.expires_in_days} onValueChange={(value) => handleInputChange("expires_in_days", value)}>
+                      <SelectTrigger id="invite-expiry">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">1 day</SelectItem>
+                        <SelectItem value="3">3 days</SelectItem>
+                        <SelectItem value="7">7 days</SelectItem>
+                        <SelectItem value="14">14 days</SelectItem>
+                        <SelectItem value="30">30 days</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {formData.role === "agency" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="invite-agency">Agency</Label>
+                      <Select value={formData.agency_id} onValueChange={(value) => handleInputChange("agency_id", value)}>
+                        <SelectTrigger id="invite-agency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Select an agency</SelectItem>
+                          {agencies.map((agency) => (
+                            <SelectItem key={agency.id} value={agency.id.toString()}>{agency.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor="invite-agency-role">Agency Role</Label>
+                      <Select value={formData.agency_role} onValueChange={(value) => handleInputChange("agency_role", value)}>
+                        <SelectTrigger id="invite-agency-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(AGENCY_ROLE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreateInvitation}>Create Invitation</Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Revoke Dialog */}
+      <ConfirmDialog
+        open={confirmRevoke.open}
+        title="Revoke Invitation?"
+        description={`The invitation for ${confirmRevoke.invitation?.email} will stop working.`}
+        confirmLabel="Revoke"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmRevoke({ open: false, invitation: null })}
+        onConfirm={() => {
+          if (confirmRevoke.invitation) handleRevokeInvitation(confirmRevoke.invitation.id);
+          setConfirmRevoke({ open: false, invitation: null });
+        }}
+      />
+    </div>
+  );
+};
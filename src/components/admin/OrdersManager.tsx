@@ -1,76 +1,447 @@
-
+import { useState, useEffect, useContext } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, User, Package, DollarSign } from "lucide-react";
-
-export const OrdersManager = () => {
-  // Mock orders data
-  const orders = [
-    {
-      id: "ORD-001",
-      agencyName: "Defense Agency Alpha",
-      orderDate: "2024-06-20",
-      status: "pending",
-      items: [
-        { name: "Steel Security Fence Panel", quantity: 50, price: 150 },
-        { name: "Concrete Fence Posts", quantity: 25, price: 80 }
-      ],
-      totalAmount: 9500,
-      deliveryDate: "2024-07-15"
-    },
-    {
-      id: "ORD-002",
-      agencyName: "Border Security Corp",
-      orderDate: "2024-06-22",
-      status: "processing",
-      items: [
-        { name: "Barbed Wire Coils", quantity: 30, price: 45 },
-        { name: "Electronic Gate System", quantity: 2, price: 2500 }
-      ],
-      totalAmount: 6350,
-      deliveryDate: "2024-07-20"
-    },
-    {
-      id: "ORD-003",
-      agencyName: "Military Installations Ltd",
-      orderDate: "2024-06-25",
-      status: "shipped",
-      items: [
-        { name: "Chain Link Fencing", quantity: 100, price: 25 }
-      ],
-      totalAmount: 2500,
-      deliveryDate: "2024-07-01"
-    },
-    {
-      id: "ORD-004",
-      agencyName: "Airport Security Services",
-      orderDate: "2024-06-26",
-      status: "delivered",
-      items: [
-        { name: "Steel Security Fence Panel", quantity: 75, price: 150 },
-        { name: "Concrete Fence Posts", quantity: 40, price: 80 }
-      ],
-      totalAmount: 14450,
-      deliveryDate: "2024-06-28"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, User, Package, DollarSign, Search, Eye, Loader2, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { OrderStatusTimeline } from "@/components/ui/OrderStatusTimeline";
+import { OrderFulfillment, FulfillmentItem, Shipment } from "@/components/ui/OrderFulfillment";
+import { PaginationControls } from "@/components/ui/PaginationControls";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface OrderItem extends FulfillmentItem {
+  product_id: number;
+}
+
+interface Order {
+  id: number;
+  order_number: string;
+  user_id: number;
+  user_name?: string;
+  agency_name?: string;
+  project_id?: number;
+  project_name?: string;
+  status: string;
+  subtotal_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  shipping_address?: string;
+  delivery_region?: string;
+  notes?: string;
+  item_count?: number;
+  backordered_units?: number;
+  created_at: string;
+  updated_at: string;
+  items?: OrderItem[];
+  shipments?: Shipment[];
+}
+
+interface OrderStats {
+  total_orders: number;
+  awaiting_approval_orders: number;
+  pending_orders: number;
+  approved_orders: number;
+  processing_orders: number;
+  partially_shipped_orders: number;
+  shipped_orders: number;
+  delivered_orders: number;
+  cancelled_orders: number;
+  rejected_orders: number;
+}
+
+interface StatusAction {
+  status: string;
+  label: string;
+  className: string;
+}
+
+interface ShipmentFormData {
+  quantities: { [orderItemId: number]: string };
+  carrier: string;
+  tracking_number: string;
+  notes: string;
+}
+
+const EMPTY_SHIPMENT_FORM: ShipmentFormData = {
+  quantities: {},
+  carrier: "",
+  tracking_number: "",
+  notes: ""
+};
+
+const PAGE_SIZE = 10;
+
+// Forward transitions offered for each status, mirroring the server's transition
+// graph; cancellation and shipments are handled separately and agency approval is decided by the agency
+const STATUS_ACTIONS: { [key: string]: StatusAction } = {
+  pending: { status: "approved", label: "Approve", className: "bg-blue-600 hover:bg-blue-700" },
+  approved: { status: "processing", label: "Process Order", className: "bg-blue-600 hover:bg-blue-700" },
+  shipped: { status: "delivered", label: "Mark as Delivered", className: "bg-green-600 hover:bg-green-700" }
+};
+
+const CANCELLABLE_STATUSES = ["awaiting_agency_approval", "pending", "approved", "processing"];
+
+const SHIPPABLE_STATUSES = ["processing", "partially_shipped"];
+
+// Orders whose unshipped units can be cancelled, ending the order with what has shipped
+const CLOSABLE_STATUSES = ["partially_shipped"];
+
+interface OrdersManagerProps {
+  // Order to open in the details dialog, e.g. when following a ledger link
+  focusOrderId?: number | null;
+  onFocusHandled?: () => void;
+}
+
+export const OrdersManager = ({ focusOrderId, onFocusHandled }: OrdersManagerProps) => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "orders.manage");
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [stats, setStats] = useState<OrderStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalOrders, setTotalOrders] = useState(0);
+  const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+  const [updatingOrderId, setUpdatingOrderId] = useState<number | null>(null);
+  const [statusNotes, setStatusNotes] = useState("");
+  const [confirmCancel, setConfirmCancel] = useState<{ open: boolean; order: Order | null }>({ open: false, order: null });
+  const [confirmCloseShort, setConfirmCloseShort] = useState<{ open: boolean; order: Order | null }>({ open: false, order: null });
+  const [shipmentOrder, setShipmentOrder] = useState<Order | null>(null);
+  const [shipmentForm, setShipmentForm] = useState<ShipmentFormData>(EMPTY_SHIPMENT_FORM);
+  const [shipmentSubmitting, setShipmentSubmitting] = useState(false);
+
+  // Fetch a page of orders from backend
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (searchTerm) params.set("search", searchTerm);
+
+      const response = await apiFetch(`/orders?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setOrders(data.orders || []);
+        setTotalPages(Math.max(data.pagination?.pages || 1, 1));
+        setTotalOrders(data.pagination?.total || 0);
+      } else {
+        toast.error("Failed to fetch orders");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch status counts across all orders
+  const fetchStats = async () => {
+    try {
+      const response = await apiFetch("/orders/stats/overview");
+      if (response.ok) {
+        const data = await response.json();
+        setStats(data.stats);
+      } else {
+        console.error("Failed to fetch order stats");
+      }
+    } catch (error) {
+      console.error("Network error fetching order stats");
+    }
+  };
+
+  useEffect(() => {
+    fetchOrders();
+  }, [page, statusFilter, searchTerm]);
+
+  useEffect(() => {
+    fetchStats();
+  }, []);
+
+  // Fetch a single order with its items
+  const fetchOrderDetails = async (orderId: number) => {
+    try {
+      setDetailsLoading(true);
+      const response = await apiFetch(`/orders/${orderId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedOrder(data.order);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to fetch order details");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setDetailsLoading(false);
     }
-  ];
+  };
+
+  const openDetails = (order: Order) => {
+    setSelectedOrder(order);
+    setStatusNotes("");
+    setShowDetails(true);
+    fetchOrderDetails(order.id);
+  };
+
+  useEffect(() => {
+    if (focusOrderId) {
+      setSelectedOrder(null);
+      setStatusNotes("");
+      setShowDetails(true);
+      fetchOrderDetails(focusOrderId);
+      onFocusHandled?.();
+    }
+  }, [focusOrderId]);
+
+  // Move an order to a new status
+  const handleStatusChange = async (order: Order, status: string) => {
+    // Notes typed in the details dialog apply to actions taken on that order
+    const notes = showDetails && selectedOrder?.id === order.id ? statusNotes.trim() : "";
+
+    try {
+      setUpdatingOrderId(order.id);
+      const response = await apiFetch(`/orders/${order.id}/status`, {
+        method: "PATCH",
+        body: JSON.stringify({ status, notes: notes || undefined })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        if (status === "cancelled" && data.released_items?.length) {
+          const units = data.released_items.reduce((sum: number, item: OrderItem) => sum + item.quantity, 0);
+          toast.success(`Order ${order.order_number} cancelled. ${units} reserved units released.`);
+        } else {
+          toast.success(`Order ${order.order_number} updated to ${getStatusLabel(status)}`);
+        }
+        fetchOrders();
+        fetchStats();
+        if (showDetails && selectedOrder?.id === order.id) {
+          setStatusNotes("");
+          fetchOrderDetails(order.id);
+        }
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to update order status");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  // Load the order's lines and offer every reserved unit for the shipment
+  const openShipmentDialog = async (order: Order) => {
+    try {
+      setUpdatingOrderId(order.id);
+      const response = await apiFetch(`/orders/${order.id}`);
+      if (response.ok) {
+        const data = await response.json();
+        const quantities: { [orderItemId: number]: string } = {};
+        (data.order.items || []).forEach((item: OrderItem) => {
+          quantities[item.id] = item.reserved_quantity.toString();
+        });
+        setShipmentOrder(data.order);
+        setShipmentForm({ ...EMPTY_SHIPMENT_FORM, quantities });
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to fetch order details");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  // Record a shipment of the entered quantities
+  const handleCreateShipment = async () => {
+    if (!shipmentOrder) return;
+
+    const items = (shipmentOrder.items || [])
+      .map(item => ({ order_item_id: item.id, quantity: parseInt(shipmentForm.quantities[item.id]) || 0 }))
+      .filter(item => item.quantity > 0);
+    if (items.length === 0) {
+      toast.error("Enter a quantity for at least one item");
+      return;
+    }
+
+    try {
+      setShipmentSubmitting(true);
+      const response = await apiFetch(`/orders/${shipmentOrder.id}/shipments`, {
+        method: "POST",
+        body: JSON.stringify({
+          items,
+          carrier: shipmentForm.carrier.trim() || undefined,
+          tracking_number: shipmentForm.tracking_number.trim() || undefined,
+          notes: shipmentForm.notes.trim() || undefined
+        })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(data.order.status === "shipped"
+          ? `Order ${shipmentOrder.order_number} fully shipped`
+          : `Shipment ${data.shipment.shipment_number} recorded; the rest of the order is still outstanding`);
+        setShipmentOrder(null);
+        fetchOrders();
+        fetchStats();
+        if (showDetails && selectedOrder?.id === shipmentOrder.id) {
+          setSelectedOrder(data.order);
+        }
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to record shipment");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setShipmentSubmitting(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearchTerm(searchInput.trim());
+  };
+
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case "awaiting_agency_approval": return "Awaiting Agency Approval";
+      case "pending": return "Pending";
+      case "approved": return "Approved";
+      case "processing": return "Processing";
+      case "partially_shipped": return "Partially Shipped";
+      case "shipped": return "Shipped";
+      case "delivered": return "Delivered";
+      case "cancelled": return "Cancelled";
+      case "rejected": return "Rejected";
+      default: return status;
+    }
+  };
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case "awaiting_agency_approval": return <Badge className="bg-orange-100 text-orange-800">Awaiting Agency Approval</Badge>;
       case "pending": return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
+      case "approved": return <Badge className="bg-cyan-100 text-cyan-800">Approved</Badge>;
       case "processing": return <Badge className="bg-blue-100 text-blue-800">Processing</Badge>;
+      case "partially_shipped": return <Badge className="bg-indigo-100 text-indigo-800">Partially Shipped</Badge>;
       case "shipped": return <Badge className="bg-purple-100 text-purple-800">Shipped</Badge>;
       case "delivered": return <Badge className="bg-green-100 text-green-800">Delivered</Badge>;
+      case "cancelled": return <Badge className="bg-red-100 text-red-800">Cancelled</Badge>;
+      case "rejected": return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
       default: return <Badge variant="secondary">{status}</Badge>;
     }
   };
 
-  const statusCounts = {
-    pending: orders.filter(o => o.status === "pending").length,
-    processing: orders.filter(o => o.status === "processing").length,
-    shipped: orders.filter(o => o.status === "shipped").length,
-    delivered: orders.filter(o => o.status === "delivered").length
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric"
+    });
+  };
+
+  // Cancel the units of a partially shipped order that have not shipped
+  const handleCloseShort = async (order: Order) => {
+    const notes = showDetails && selectedOrder?.id === order.id ? statusNotes.trim() : "";
+
+    try {
+      setUpdatingOrderId(order.id);
+      const response = await apiFetch(`/orders/${order.id}/close-short`, {
+        method: "POST",
+        body: JSON.stringify({ notes: notes || undefined })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Order ${order.order_number} closed short. ${data.cancelled_units} unshipped units cancelled.`);
+        fetchOrders();
+        fetchStats();
+        if (showDetails && selectedOrder?.id === order.id) {
+          setStatusNotes("");
+          fetchOrderDetails(order.id);
+        }
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to close order");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setUpdatingOrderId(null);
+    }
+  };
+
+  const renderActions = (order: Order) => {
+    if (!canManage) return null;
+
+    const action = STATUS_ACTIONS[order.status];
+    const isUpdating = updatingOrderId === order.id;
+
+    return (
+      <>
+        {action && (
+          <Button
+            size="sm"
+            className={action.className}
+            disabled={isUpdating}
+            onClick={() => handleStatusChange(order, action.status)}
+          >
+            {isUpdating && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {action.label}
+          </Button>
+        )}
+        {SHIPPABLE_STATUSES.includes(order.status) && (
+          <Button
+            size="sm"
+            className="bg-purple-600 hover:bg-purple-700"
+            disabled={isUpdating}
+            onClick={() => openShipmentDialog(order)}
+          >
+            {isUpdating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Truck className="h-4 w-4 mr-1" />}
+            Record Shipment
+          </Button>
+        )}
+        {CANCELLABLE_STATUSES.includes(order.status) && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isUpdating}
+            onClick={() => setConfirmCancel({ open: true, order })}
+            className="text-red-600 border-red-300 hover:bg-red-50"
+          >
+            Cancel Order
+          </Button>
+        )}
+        {CLOSABLE_STATUSES.includes(order.status) && (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isUpdating}
+            onClick={() => setConfirmCloseShort({ open: true, order })}
+            className="text-red-600 border-red-300 hover:bg-red-50"
+          >
+            Close Short
+          </Button>
+        )}
+      </>
+    );
   };
 
   return (
@@ -78,8 +449,9 @@ export const OrdersManager = () => {
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Order Management</h2>
         <div className="flex gap-2">
-          <Badge variant="secondary">{orders.length} Total Orders</Badge>
-          <Badge className="bg-yellow-100 text-yellow-800">{statusCounts.pending} Pending</Badge>
+          <Badge variant="secondary">{stats?.total_orders ?? 0} Total Orders</Badge>
+          <Badge className="bg-orange-100 text-orange-800">{stats?.awaiting_approval_orders ?? 0} Awaiting Agency</Badge>
+          <Badge className="bg-yellow-100 text-yellow-800">{stats?.pending_orders ?? 0} Pending</Badge>
         </div>
       </div>
 
@@ -87,100 +459,322 @@ export const OrdersManager = () => {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card className="bg-yellow-50 border-yellow-200">
           <CardContent className="p-4 text-center">
-            <div className="text-2xl font-bold text-yellow-700">{statusCounts.pending}</div>
+            <div className="text-2xl font-bold text-yellow-700">{stats?.pending_orders ?? 0}</div>
             <div className="text-sm text-yellow-600">Pending</div>
           </CardContent>
         </Card>
         <Card className="bg-blue-50 border-blue-200">
           <CardContent className="p-4 text-center">
-            <div className="text-2xl font-bold text-blue-700">{statusCounts.processing}</div>
-            <div className="text-sm text-blue-600">Processing</div>
+            <div className="text-2xl font-bold text-blue-700">
+              {(stats?.approved_orders ?? 0) + (stats?.processing_orders ?? 0)}
+            </div>
+            <div className="text-sm text-blue-600">Approved / Processing</div>
           </CardContent>
         </Card>
         <Card className="bg-purple-50 border-purple-200">
           <CardContent className="p-4 text-center">
-            <div className="text-2xl font-bold text-purple-700">{statusCounts.shipped}</div>
-            <div className="text-sm text-purple-600">Shipped</div>
+            <div className="text-2xl font-bold text-purple-700">
+              {(stats?.partially_shipped_orders ?? 0) + (stats?.shipped_orders ?? 0)}
+            </div>
+            <div className="text-sm text-purple-600">Partially / Fully Shipped</div>
           </CardContent>
         </Card>
         <Card className="bg-green-50 border-green-200">
           <CardContent className="p-4 text-center">
-            <div className="text-2xl font-bold text-green-700">{statusCounts.delivered}</div>
+            <div className="text-2xl font-bold text-green-700">{stats?.delivered_orders ?? 0}</div>
             <div className="text-sm text-green-600">Delivered</div>
           </CardContent>
         </Card>
       </div>
 
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <form onSubmit={handleSearch} className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by order number, user or agency..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </form>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1); }}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="awaiting_agency_approval">Awaiting Agency Approval</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="processing">Processing</SelectItem>
+                <SelectItem value="partially_shipped">Partially Shipped</SelectItem>
+                <SelectItem value="shipped">Shipped</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Orders List */}
-      <div className="grid gap-6">
-        {orders.map((order) => (
-          <Card key={order.id} className="hover:shadow-md transition-shadow">
-            <CardHeader>
-              <div className="flex justify-between items-start">
-                <div>
-                  <CardTitle className="text-lg">Order {order.id}</CardTitle>
-                  <div className="flex items-center gap-4 text-sm text-gray-600 mt-2">
-                    <div className="flex items-center gap-1">
-                      <User className="h-4 w-4" />
-                      {order.agencyName}
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Calendar className="h-4 w-4" />
-                      {order.orderDate}
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <DollarSign className="h-4 w-4" />
-                      ${order.totalAmount.toLocaleString()}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading orders...</p>
+        </div>
+      ) : orders.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No orders found</h3>
+            <p className="text-gray-600">Try adjusting the filters to find what you're looking for.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6">
+          {orders.map((order) => (
+            <Card key={order.id} className="hover:shadow-md transition-shadow">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg">Order {order.order_number}</CardTitle>
+                    <div className="flex items-center gap-4 text-sm text-gray-600 mt-2">
+                      <div className="flex items-center gap-1">
+                        <User className="h-4 w-4" />
+                        {order.agency_name || order.user_name}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        {formatDate(order.created_at)}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <DollarSign className="h-4 w-4" />
+                        ${order.total_amount.toLocaleString()}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Package className="h-4 w-4" />
+                        {order.item_count ?? 0} items
+                      </div>
                     </div>
                   </div>
-                </div>
-                {getStatusBadge(order.status)}
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                <div>
-                  <h4 className="font-semibold text-sm text-gray-700 mb-2">Order Items:</h4>
-                  <div className="space-y-1">
-                    {order.items.map((item, index) => (
-                      <div key={index} className="flex justify-between items-center text-sm bg-gray-50 p-2 rounded">
-                        <div className="flex items-center gap-2">
-                          <Package className="h-4 w-4 text-gray-500" />
-                          <span>{item.name}</span>
-                        </div>
-                        <div className="text-right">
-                          <div>Qty: {item.quantity}</div>
-                          <div className="text-gray-600">${item.price} each</div>
-                        </div>
-                      </div>
-                    ))}
+                  <div className="flex flex-col items-end gap-1">
+                    {getStatusBadge(order.status)}
+                    {(order.backordered_units ?? 0) > 0 && (
+                      <Badge className="bg-orange-100 text-orange-800">{order.backordered_units} units backordered</Badge>
+                    )}
                   </div>
                 </div>
-                
-                <div className="flex justify-between items-center pt-3 border-t">
+              </CardHeader>
+              <CardContent>
+                <div className="flex justify-between items-center">
                   <div>
-                    <div className="text-sm text-gray-600">Expected Delivery</div>
-                    <div className="font-semibold">{order.deliveryDate}</div>
+                    <div className="text-sm text-gray-600">Project</div>
+                    <div className="font-semibold">{order.project_name || "N/A"}</div>
                   </div>
                   <div className="flex gap-2">
-                    <Button variant="outline" size="sm">View Details</Button>
-                    {order.status === "pending" && (
-                      <Button size="sm" className="bg-blue-600 hover:bg-blue-700">
-                        Process Order
-                      </Button>
-                    )}
-                    {order.status === "processing" && (
-                      <Button size="sm" className="bg-purple-600 hover:bg-purple-700">
-                        Mark as Shipped
-                      </Button>
-                    )}
+                    <Button variant="outline" size="sm" onClick={() => openDetails(order)}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      View Details
+                    </Button>
+                    {renderActions(order)}
                   </div>
                 </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <PaginationControls
+        page={page}
+        totalPages={totalPages}
+        totalItems={totalOrders}
+        itemLabel="orders"
+        onPageChange={setPage}
+      />
+
+      {/* Order Details Modal */}
+      <Dialog open={showDetails} onOpenChange={setShowDetails}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Order {selectedOrder?.order_number}</DialogTitle>
+            <DialogDescription>
+              {selectedOrder && `Placed by ${selectedOrder.user_name}${selectedOrder.agency_name ? ` (${selectedOrder.agency_name})` : ""} on ${formatDate(selectedOrder.created_at)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {!selectedOrder && detailsLoading && (
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading order...
+            </div>
+          )}
+          {selectedOrder && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div><b>Status:</b> {getStatusBadge(selectedOrder.status)}</div>
+                <div>
+                  <b>Total:</b> ${selectedOrder.total_amount.toLocaleString()}
+                  {selectedOrder.tax_amount > 0 && (
+                    <span className="text-gray-600"> (incl. ${selectedOrder.tax_amount.toFixed(2)} tax)</span>
+                  )}
+                </div>
+                <div><b>Project:</b> {selectedOrder.project_name || "N/A"}</div>
+                <div><b>Last Updated:</b> {formatDate(selectedOrder.updated_at)}</div>
+                <div className="col-span-2"><b>Shipping Address:</b> {selectedOrder.shipping_address || "N/A"}</div>
+                {selectedOrder.delivery_region && (
+                  <div className="col-span-2"><b>Delivery Region:</b> {selectedOrder.delivery_region}</div>
+                )}
+                {selectedOrder.notes && (
+                  <div className="col-span-2"><b>Notes:</b> {selectedOrder.notes}</div>
+                )}
               </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+
+              <div>
+                <h4 className="font-semibold text-sm text-gray-700 mb-2">Order Items:</h4>
+                {detailsLoading && !selectedOrder.items ? (
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Loading items...
+                  </div>
+                ) : (
+                  <OrderFulfillment items={selectedOrder.items || []} shipments={selectedOrder.shipments} />
+                )}
+              </div>
+
+              <div>
+                <h4 className="font-semibold text-sm text-gray-700 mb-2">Status History:</h4>
+                <OrderStatusTimeline orderId={selectedOrder.id} refreshKey={selectedOrder.status} />
+              </div>
+
+              {(STATUS_ACTIONS[selectedOrder.status] || CANCELLABLE_STATUSES.includes(selectedOrder.status) || CLOSABLE_STATUSES.includes(selectedOrder.status)) && (
+                <div>
+                  <Label htmlFor="status-notes">Status Change Note (Optional)</Label>
+                  <Textarea
+                    id="status-notes"
+                    value={statusNotes}
+                    onChange={(e) => setStatusNotes(e.target.value)}
+                    placeholder="Reason or reference for the next status change..."
+                    rows={2}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            {selectedOrder && renderActions(selectedOrder)}
+            <Button variant="outline" onClick={() => setShowDetails(false)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Record Shipment Modal */}
+      <Dialog open={!!shipmentOrder} onOpenChange={(open) => !open && setShipmentOrder(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Record Shipment</DialogTitle>
+            <DialogDescription>
+              Order {shipmentOrder?.order_number}. Only reserved units can ship; backordered units follow once stock arrives.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {(shipmentOrder?.items || []).filter(item => item.quantity > item.shipped_quantity).map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                  <div>
+                    <div className="font-medium">{item.product_name}</div>
+                    <div className="text-xs text-gray-500">
+                      {item.shipped_quantity} of {item.quantity} shipped &middot; {item.reserved_quantity} ready
+                      {item.backordered_quantity > 0 && ` · ${item.backordered_quantity} backordered`}
+                    </div>
+                  </div>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={item.reserved_quantity}
+                    value={shipmentForm.quantities[item.id] ?? ""}
+                    onChange={(e) => setShipmentForm(prev => ({
+                      ...prev,
+                      quantities: { ...prev.quantities, [item.id]: e.target.value }
+                    }))}
+                    disabled={item.reserved_quantity === 0}
+                    className="w-24"
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="shipment-carrier">Carrier</Label>
+                <Input
+                  id="shipment-carrier"
+                  value={shipmentForm.carrier}
+                  onChange={(e) => setShipmentForm(prev => ({ ...prev, carrier: e.target.value }))}
+                  placeholder="e.g. FedEx"
+                />
+              </div>
+              <div>
+                <Label htmlFor="shipment-tracking">Tracking Number</Label>
+                <Input
+                  id="shipment-tracking"
+                  value={shipmentForm.tracking_number}
+                  onChange={(e) => setShipmentForm(prev => ({ ...prev, tracking_number: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="shipment-notes">Notes (Optional)</Label>
+              <Textarea
+                id="shipment-notes"
+                value={shipmentForm.notes}
+                onChange={(e) => setShipmentForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShipmentOrder(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreateShipment} disabled={shipmentSubmitting} className="bg-purple-600 hover:bg-purple-700">
+              {shipmentSubmitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Record Shipment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Cancel Dialog */}
+      <ConfirmDialog
+        open={confirmCancel.open}
+        title="Cancel Order?"
+        description={`Cancelling order ${confirmCancel.order?.order_number ?? ""} will release all of its reserved stock. This action cannot be undone.`}
+        confirmLabel="Cancel Order"
+        cancelLabel="Keep Order"
+        onCancel={() => setConfirmCancel({ open: false, order: null })}
+        onConfirm={() => {
+          if (confirmCancel.order) handleStatusChange(confirmCancel.order, "cancelled");
+          setConfirmCancel({ open: false, order: null });
+        }}
+      />
+
+      {/* Confirm Close Short Dialog */}
+      <ConfirmDialog
+        open={confirmCloseShort.open}
+        title="Close Order Short?"
+        description={`Closing order ${confirmCloseShort.order?.order_number ?? ""} short cancels every unit that has not shipped, releases the stock reserved for them and removes them from the order total. This action cannot be undone.`}
+        confirmLabel="Close Short"
+        cancelLabel="Keep Order"
+        onCancel={() => setConfirmCloseShort({ open: false, order: null })}
+        onConfirm={() => {
+          if (confirmCloseShort.order) handleCloseShort(confirmCloseShort.order);
+          setConfirmCloseShort({ open: false, order: null });
+        }}
+      />
     </div>
   );
 };
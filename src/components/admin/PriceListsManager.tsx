@@ -0,0 +1,564 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Eye, FileText, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { ProductPicker, ProductOption } from "@/components/ui/ProductPicker";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface PriceListItem {
+  id: number;
+  product_id: number;
+  product_name: string;
+  sku: string;
+  min_quantity: number;
+  unit_price: number;
+  list_price: number;
+}
+
+interface PriceList {
+  id: number;
+  name: string;
+  agency_id: number;
+  agency_name: string;
+  contract_reference: string | null;
+  effective_from: string | null;
+  effective_to: string | null;
+  notes: string | null;
+  item_count: number;
+  in_effect: number;
+  items?: PriceListItem[];
+}
+
+interface AgencyOption {
+  id: number;
+  name: string;
+}
+
+interface TierForm {
+  product: ProductOption | null;
+  min_quantity: string;
+  unit_price: string;
+}
+
+interface PriceListFormData {
+  name: string;
+  agency_id: string;
+  contract_reference: string;
+  effective_from: string;
+  effective_to: string;
+  notes: string;
+  items: TierForm[];
+}
+
+const EMPTY_TIER: TierForm = { product: null, min_quantity: "1", unit_price: "" };
+
+const EMPTY_FORM: PriceListFormData = {
+  name: "",
+  agency_id: "",
+  contract_reference: "",
+  effective_from: "",
+  effective_to: "",
+  notes: "",
+  items: [EMPTY_TIER]
+};
+
+export const PriceListsManager = () => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "pricing.manage");
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [agencies, setAgencies] = useState<AgencyOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedList, setSelectedList] = useState<PriceList | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState<PriceListFormData>(EMPTY_FORM);
+  const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; priceList: PriceList | null }>({ open: false, priceList: null });
+  const [viewedList, setViewedList] = useState<PriceList | null>(null);
+
+  // Fetch price lists from backend
+  const fetchPriceLists = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/price-lists");
+      if (response.ok) {
+        const data = await response.json();
+        setPriceLists(data.price_lists || []);
+      } else {
+        toast.error("Failed to fetch price lists");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch agencies for the form; products are searched as each price is filled in
+  const fetchFormOptions = async () => {
+    try {
+      const response = await apiFetch("/agencies");
+      if (response.ok) {
+        const data = await response.json();
+        setAgencies(data.agencies || []);
+      }
+    } catch (error) {
+      console.error("Network error fetching price list form options");
+    }
+  };
+
+  useEffect(() => {
+    fetchPriceLists();
+    if (canManage) fetchFormOptions();
+  }, []);
+
+  const openAddModal = () => {
+    setSelectedList(null);
+    setFormData(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  // Fetch a single price list with its quantity breaks
+  const fetchPriceListDetails = async (priceListId: number): Promise<PriceList | null> => {
+    try {
+      const response = await apiFetch(`/price-lists/${priceListId}`);
+      if (response.ok) {
+        const data = await response.json();
+        return data.price_list;
+      }
+      const error = await response.json();
+      toast.error(error.error || "Failed to fetch price list");
+    } catch (error) {
+      toast.error("Network error");
+    }
+    return null;
+  };
+
+  const openDetails = async (priceList: PriceList) => {
+    const details = await fetchPriceListDetails(priceList.id);
+    if (details) setViewedList(details);
+  };
+
+  const openEditModal = async (priceList: PriceList) => {
+    const details = await fetchPriceListDetails(priceList.id);
+    if (details) {
+      setSelectedList(details);
+      setFormData({
+        name: details.name,
+        agency_id: details.agency_id.toString(),
+        contract_reference: details.contract_reference || "",
+        effective_from: details.effective_from || "",
+        effective_to: details.effective_to || "",
+        notes: details.notes || "",
+        items: (details.items || []).map(item => ({
+          product: { id: item.product_id, name: item.product_name, sku: item.sku, price: item.list_price },
+          min_quantity: item.min_quantity.toString(),
+          unit_price: item.unit_price.toString()
+        }))
+      });
+      setShowForm(true);
+    }
+  };
+
+  const updateTier = (index: number, field: "min_quantity" | "unit_price", value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier))
+    }));
+  };
+
+  const selectTierProduct = (index: number, product: ProductOption | null) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map((tier, i) => (i === index ? { ...tier, product } : tier))
+    }));
+  };
+
+  const addTier = () => {
+    setFormData(prev => ({ ...prev, items: [...prev.items, EMPTY_TIER] }));
+  };
+
+  const removeTier = (index: number) => {
+    setFormData(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }));
+  };
+
+  // Create or update price list
+  const handleSavePriceList = async () => {
+    if (!formData.name.trim()) {
+      toast.error("Price list name is required");
+      return;
+    }
+    if (!formData.agency_id) {
+      toast.error("Select an agency");
+      return;
+    }
+    if (formData.items.some(tier => !tier.product || !(parseInt(tier.min_quantity) > 0) || tier.unit_price === "")) {
+      toast.error("Each price needs a product, minimum quantity and unit price");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await apiFetch(selectedList ? `/price-lists/${selectedList.id}` : "/price-lists", {
+        method: selectedList ? "PUT" : "POST",
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          agency_id: parseInt(formData.agency_id),
+          contract_reference: formData.contract_reference.trim() || null,
+          effective_from: formData.effective_from || null,
+          effective_to: formData.effective_to || null,
+          notes: formData.notes.trim() || null,
+          items: formData.items.map(tier => ({
+            product_id: tier.product?.id,
+            min_quantity: parseInt(tier.min_quantity),
+            unit_price: parseFloat(tier.unit_price)
+          }))
+        })
+      });
+
+      if (response.ok) {
+        toast.success(selectedList ? "Price list updated successfully" : "Price list added successfully");
+        setShowForm(false);
+        fetchPriceLists();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to save price list");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Delete price list
+  const handleDeletePriceList = async (priceListId: number) => {
+    try {
+      const response = await apiFetch(`/price-lists/${priceListId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("Price list deleted successfully");
+        fetchPriceLists();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete price list");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(`${dateString}T00:00:00`).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric"
+    });
+  };
+
+  const getEffectiveBadge = (priceList: PriceList) => {
+    if (priceList.in_effect) {
+      return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+    }
+    if (priceList.effective_from && priceList.effective_from > new Date().toISOString().slice(0, 10)) {
+      return <Badge className="bg-blue-100 text-blue-800">Scheduled</Badge>;
+    }
+    return <Badge variant="secondary">Expired</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading price lists...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Price Lists</h3>
+          <p className="text-sm text-gray-600">
+            Agencies pay the lowest contract price among the quantity breaks an order line reaches.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={openAddModal} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Price List
+          </Button>
+        )}
+      </div>
+
+      {priceLists.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No price lists</h3>
+            <p className="text-gray-600">Every agency orders at catalog prices until a price list is added.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Agency</TableHead>
+                  <TableHead>Contract</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Prices</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {priceLists.map((priceList) => (
+                  <TableRow key={priceList.id}>
+                    <TableCell>{priceList.name}</TableCell>
+                    <TableCell>{priceList.agency_name}</TableCell>
+                    <TableCell>{priceList.contract_reference || "—"}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span>
+                          {priceList.effective_from ? formatDate(priceList.effective_from) : "Open"}
+                          {" – "}
+                          {priceList.effective_to ? formatDate(priceList.effective_to) : "Open"}
+                        </span>
+                        {getEffectiveBadge(priceList)}
+                      </div>
+                    </TableCell>
+                    <TableCell>{priceList.item_count}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        {canManage ? (
+                          <>
+                            <Button variant="outline" size="sm" onClick={() => openEditModal(priceList)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setConfirmDelete({ open: true, priceList })}
+                              className="text-red-600 border-red-300 hover:bg-red-50"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Button variant="outline" size="sm" onClick={() => openDetails(priceList)}>
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add / Edit Price List Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedList ? "Edit Price List" : "Add Price List"}</DialogTitle>
+            <DialogDescription>
+              Leave a date open for a contract without a start or end. Orders already placed keep the prices they were charged.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="price-list-name">Name</Label>
+                <Input
+                  id="price-list-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g. 2026 office supplies contract"
+                />
+              </div>
+              <div>
+                <Label htmlFor="price-list-agency">Agency</Label>
+                <Select value={formData.agency_id} onValueChange={(value) => setFormData(prev => ({ ...prev, agency_id: value }))}>
+                  <SelectTrigger id="price-list-agency">
+                    <SelectValue placeholder="Select agency" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agencies.map((agency) => (
+                      <SelectItem key={agency.id} value={agency.id.toString()}>{agency.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="price-list-contract">Contract Reference</Label>
+                <Input
+                  id="price-list-contract"
+                  value={formData.contract_reference}
+                  onChange={(e) => setFormData(prev => ({ ...prev, contract_reference: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="price-list-from">Effective From</Label>
+                <Input
+                  id="price-list-from"
+                  type="date"
+                  value={formData.effective_from}
+                  onChange={(e) => setFormData(prev => ({ ...prev, effective_from: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="price-list-to">Effective To</Label>
+                <Input
+                  id="price-list-to"
+                  type="date"
+                  value={formData.effective_to}
+                  onChange={(e) => setFormData(prev => ({ ...prev, effective_to: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Prices</Label>
+              {formData.items.map((tier, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-6">
+                    <ProductPicker status="active" value={tier.product} onChange={(product) => selectTierProduct(index, product)} />
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="1"
+                    placeholder="Min qty"
+                    value={tier.min_quantity}
+                    onChange={(e) => updateTier(index, "min_quantity", e.target.value)}
+                  />
+                  <Input
+                    className="col-span-3"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Unit price"
+                    value={tier.unit_price}
+                    onChange={(e) => updateTier(index, "unit_price", e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="col-span-1"
+                    onClick={() => removeTier(index)}
+                    disabled={formData.items.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addTier}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Price
+              </Button>
+              <p className="text-xs text-gray-500">
+                Add the same product again with a higher minimum quantity for a quantity break.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="price-list-notes">Notes</Label>
+              <Textarea
+                id="price-list-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePriceList} disabled={submitting}>
+              {selectedList ? "Update Price List" : "Add Price List"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Price List Details Modal */}
+      <Dialog open={!!viewedList} onOpenChange={(open) => !open && setViewedList(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewedList?.name}</DialogTitle>
+            <DialogDescription>
+              {viewedList && `${viewedList.agency_name}${viewedList.contract_reference ? ` · Contract ${viewedList.contract_reference}` : ""}`}
+            </DialogDescription>
+          </DialogHeader>
+          {viewedList && (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Min Qty</TableHead>
+                    <TableHead className="text-right">Contract Price</TableHead>
+                    <TableHead className="text-right">List Price</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(viewedList.items || []).map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        {item.product_name}
+                        <span className="text-gray-500"> ({item.sku})</span>
+                      </TableCell>
+                      <TableCell className="text-right">{item.min_quantity}+</TableCell>
+                      <TableCell className="text-right">${item.unit_price}</TableCell>
+                      <TableCell className="text-right text-gray-500">${item.list_price}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {viewedList.notes && (
+                <div className="text-sm"><b>Notes:</b> {viewedList.notes}</div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setViewedList(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        open={confirmDelete.open}
+        title="Delete Price List?"
+        description={`Are you sure you want to delete "${confirmDelete.priceList?.name}"? ${confirmDelete.priceList?.agency_name} will order at catalog prices unless another list covers them.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDelete({ open: false, priceList: null })}
+        onConfirm={() => {
+          if (confirmDelete.priceList) handleDeletePriceList(confirmDelete.priceList.id);
+          setConfirmDelete({ open: false, priceList: null });
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import { useState } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PriceListsManager } from "./PriceListsManager";
+import { TaxRatesManager } from "./TaxRatesManager";
+
+export const PricingManager = () => {
+  const [activeTab, setActiveTab] = useState("price-lists");
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Pricing</h2>
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="price-lists">Price Lists</TabsTrigger>
+          <TabsTrigger value="tax-rates">Tax Rates</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="price-lists">
+          <PriceListsManager />
+        </TabsContent>
+
+        <TabsContent value="tax-rates">
+          <TaxRatesManager />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -8,10 +8,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Package, Wrench, CheckCircle, Clock, Plus, Edit, Trash2, Eye } from "lucide-react";
+import { Package, Wrench, CheckCircle, Clock, Plus, Edit, Trash2, Eye, ArrowUpDown } from "lucide-react";
 import { toast } from "sonner";
 import { useApi } from "@/lib/api";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { CategoryPicker, CategoryOption } from "@/components/ui/CategoryPicker";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
 
 interface Product {
   id: number;
@@ -19,6 +21,9 @@ interface Product {
   sku: string;
   status: string;
   stock_quantity: number;
+  reserved_quantity: number;
+  available_quantity: number;
+  min_stock_level: number;
   price: number;
   description?: string;
   specifications?: string;
@@ -35,13 +40,52 @@ interface ProductFormData {
   category_id: string;
   price: string;
   stock_quantity: string;
+  min_stock_level: string;
   status: string;
   specifications: string;
 }
 
+type StockMovementType = "in" | "out" | "adjustment";
+
+interface StockFormData {
+  type: StockMovementType;
+  quantity: string;
+  reason: string;
+  notes: string;
+}
+
+// Reason codes offered for each kind of stock movement
+const STOCK_REASONS: { [key in StockMovementType]: { value: string; label: string }[] } = {
+  in: [
+    { value: "received", label: "Goods received" },
+    { value: "returned", label: "Customer return" },
+    { value: "transfer_in", label: "Transfer in" },
+    { value: "other", label: "Other" }
+  ],
+  out: [
+    { value: "damaged", label: "Damaged" },
+    { value: "lost", label: "Lost / stolen" },
+    { value: "expired", label: "Expired" },
+    { value: "internal_use", label: "Internal use" },
+    { value: "transfer_out", label: "Transfer out" },
+    { value: "other", label: "Other" }
+  ],
+  adjustment: [
+    { value: "cycle_count", label: "Cycle count" },
+    { value: "correction", label: "Data correction" },
+    { value: "other", label: "Other" }
+  ]
+};
+
+const EMPTY_STOCK_FORM: StockFormData = { type: "in", quantity: "", reason: "received", notes: "" };
+
 export const ProductsManager = () => {
   const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "products.manage");
+  const canAdjustStock = hasPermission(user, "inventory.adjust");
   const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [showDetails, setShowDetails] = useState(false);
@@ -54,9 +98,13 @@ export const ProductsManager = () => {
     category_id: "",
     price: "",
     stock_quantity: "",
+    min_stock_level: "10",
     status: "active",
     specifications: ""
   });
+  const [showStock, setShowStock] = useState(false);
+  const [stockForm, setStockForm] = useState<StockFormData>(EMPTY_STOCK_FORM);
+  const [stockSubmitting, setStockSubmitting] = useState(false);
   const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; productId: number | null }>({ open: false, productId: null });
 
   // Fetch products from backend
@@ -77,8 +125,22 @@ export const ProductsManager = () => {
     }
   };
 
+  // Fetch categories for the category picker
+  const fetchCategories = async () => {
+    try {
+      const response = await apiFetch("/categories");
+      if (response.ok) {
+        const data = await response.json();
+        setCategories(data.categories || []);
+      }
+    } catch (error) {
+      console.error("Network error fetching categories");
+    }
+  };
+
   useEffect(() => {
     fetchProducts();
+    fetchCategories();
   }, []);
 
   // Handle form input changes
@@ -95,6 +157,7 @@ export const ProductsManager = () => {
       category_id: "",
       price: "",
       stock_quantity: "",
+      min_stock_level: "10",
       status: "active",
       specifications: ""
     });
@@ -112,6 +175,7 @@ export const ProductsManager = () => {
           category_id: parseInt(formData.category_id),
           price: parseFloat(formData.price),
           stock_quantity: parseInt(formData.stock_quantity),
+          min_stock_level: parseInt(formData.min_stock_level),
           status: formData.status,
           specifications: formData.specifications
         })
@@ -141,8 +205,9 @@ export const ProductsManager = () => {
         body: JSON.stringify({
           name: formData.name,
           description: formData.description,
-          category_id: parseInt(formData.category_id),
+          category_id: formData.category_id ? parseInt(formData.category_id) : undefined,
           price: parseFloat(formData.price),
+          min_stock_level: parseInt(formData.min_stock_level),
           status: formData.status,
           specifications: formData.specifications
         })
@@ -201,6 +266,73 @@ export const ProductsManager = () => {
     }
   };
 
+  // Record a stock movement through the audited stock endpoint
+  const handleStockUpdate = async () => {
+    if (!selectedProduct) return;
+
+    const quantity = parseInt(stockForm.quantity);
+    if (isNaN(quantity) || quantity < 0 || (stockForm.type !== "adjustment" && quantity === 0)) {
+      toast.error("Enter a valid quantity");
+      return;
+    }
+
+    try {
+      setStockSubmitting(true);
+      const response = await apiFetch(`/products/${selectedProduct.id}/stock`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          type: stockForm.type,
+          quantity,
+          reason: stockForm.reason,
+          notes: stockForm.notes || undefined
+        })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const allocated = (data.allocated_backorders || []).reduce(
+          (sum: number, allocation: { quantity: number }) => sum + allocation.quantity, 0
+        );
+        toast.success(allocated > 0
+          ? `Stock updated: ${selectedProduct.name} now has ${data.product.stock_quantity} units, ${allocated} reserved for backordered orders`
+          : `Stock updated: ${selectedProduct.name} now has ${data.product.stock_quantity} units`);
+        setShowStock(false);
+        setStockForm(EMPTY_STOCK_FORM);
+        fetchProducts();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to update stock");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setStockSubmitting(false);
+    }
+  };
+
+  // Open stock modal
+  const openStockModal = (product: Product) => {
+    setSelectedProduct(product);
+    setStockForm(EMPTY_STOCK_FORM);
+    setShowStock(true);
+  };
+
+  const handleStockTypeChange = (type: StockMovementType) => {
+    setStockForm(prev => ({ ...prev, type, reason: STOCK_REASONS[type][0].value }));
+  };
+
+  // Stock level the movement would leave, for the dialog preview
+  const getProjectedStock = () => {
+    if (!selectedProduct) return null;
+    const quantity = parseInt(stockForm.quantity);
+    if (isNaN(quantity)) return null;
+    switch (stockForm.type) {
+      case "in": return selectedProduct.stock_quantity + quantity;
+      case "out": return selectedProduct.stock_quantity - quantity;
+      default: return quantity;
+    }
+  };
+
   // Open edit modal
   const openEditModal = (product: Product) => {
     setSelectedProduct(product);
@@ -211,6 +343,7 @@ export const ProductsManager = () => {
       category_id: product.category_id?.toString() || "",
       price: product.price.toString(),
       stock_quantity: product.stock_quantity.toString(),
+      min_stock_level: product.min_stock_level.toString(),
       status: product.status,
       specifications: product.specifications || ""
     });
@@ -246,10 +379,12 @@ export const ProductsManager = () => {
       <div className="space-y-6">
         <div className="flex justify-between items-center">
           <h2 className="text-2xl font-bold text-gray-900">Product Inventory</h2>
-          <Button disabled className="bg-blue-600 hover:bg-blue-700">
-            <Plus className="h-4 w-4 mr-2" />
-            Add New Product
-          </Button>
+          {canManage && (
+            <Button disabled className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Add New Product
+            </Button>
+          )}
         </div>
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
@@ -263,10 +398,12 @@ export const ProductsManager = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Product Inventory</h2>
-        <Button onClick={() => setShowAdd(true)} className="bg-blue-600 hover:bg-blue-700">
-          <Plus className="h-4 w-4 mr-2" />
-          Add New Product
-        </Button>
+        {canManage && (
+          <Button onClick={() => setShowAdd(true)} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add New Product
+          </Button>
+        )}
       </div>
 
       {/* Status Summary */}
@@ -327,8 +464,16 @@ export const ProductsManager = () => {
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 <div>
-                  <div className="text-sm text-gray-600">Quantity</div>
-                  <div className="font-semibold text-lg">{product.stock_quantity}</div>
+                  <div className="text-sm text-gray-600">Available</div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-lg">{product.available_quantity}</span>
+                    {product.available_quantity <= product.min_stock_level && (
+                      <Badge className="bg-red-100 text-red-800">Low Stock</Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {product.stock_quantity} on hand &middot; {product.reserved_quantity} reserved &middot; Reorder at {product.min_stock_level}
+                  </div>
                 </div>
                 <div>
                   <div className="text-sm text-gray-600">Price</div>
@@ -344,24 +489,34 @@ export const ProductsManager = () => {
                 </div>
               </div>
               <div className="mt-4 flex gap-2">
-                <Button variant="outline" size="sm" onClick={() => openEditModal(product)}>
-                  <Edit className="h-4 w-4 mr-1" />
-                  Edit
-                </Button>
+                {canManage && (
+                  <Button variant="outline" size="sm" onClick={() => openEditModal(product)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                )}
+                {canAdjustStock && (
+                  <Button variant="outline" size="sm" onClick={() => openStockModal(product)}>
+                    <ArrowUpDown className="h-4 w-4 mr-1" />
+                    Adjust Stock
+                  </Button>
+                )}
                 <Button variant="outline" size="sm" onClick={() => { setSelectedProduct(product); setShowDetails(true); }}>
                   <Eye className="h-4 w-4 mr-1" />
                   View Details
                 </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={() => setConfirmDelete({ open: true, productId: product.id })}
-                  className="text-red-600 border-red-300 hover:bg-red-50"
-                >
-                  <Trash2 className="h-4 w-4 mr-1" />
-                  Delete
-                </Button>
-                {product.status !== "active" && (
+                {canManage && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => setConfirmDelete({ open: true, productId: product.id })}
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                )}
+                {canManage && product.status !== "active" && (
                   <Button 
                     variant="outline" 
                     size="sm" 
@@ -389,7 +544,10 @@ export const ProductsManager = () => {
                   <div><b>Name:</b> {selectedProduct.name}</div>
                   <div><b>SKU:</b> {selectedProduct.sku}</div>
                   <div><b>Status:</b> {selectedProduct.status}</div>
-                  <div><b>Quantity:</b> {selectedProduct.stock_quantity}</div>
+                  <div><b>On Hand:</b> {selectedProduct.stock_quantity}</div>
+                  <div><b>Reserved:</b> {selectedProduct.reserved_quantity}</div>
+                  <div><b>Available:</b> {selectedProduct.available_quantity}</div>
+                  <div><b>Reorder Threshold:</b> {selectedProduct.min_stock_level}</div>
                   <div><b>Price:</b> ${selectedProduct.price}</div>
                   <div><b>Category:</b> {selectedProduct.category_name || "N/A"}</div>
                   <div><b>Description:</b> {selectedProduct.description || "N/A"}</div>
@@ -442,13 +600,12 @@ export const ProductsManager = () => {
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="category">Category ID</Label>
-                <Input
+                <Label htmlFor="category">Category</Label>
+                <CategoryPicker
                   id="category"
-                  type="number"
+                  categories={categories}
                   value={formData.category_id}
-                  onChange={(e) => handleInputChange("category_id", e.target.value)}
-                  placeholder="1"
+                  onChange={(value) => handleInputChange("category_id", value)}
                 />
               </div>
               <div>
@@ -488,6 +645,17 @@ export const ProductsManager = () => {
                 />
               </div>
             </div>
+            <div>
+              <Label htmlFor="min-stock">Reorder Threshold</Label>
+              <Input
+                id="min-stock"
+                type="number"
+                min="0"
+                value={formData.min_stock_level}
+                onChange={(e) => handleInputChange("min_stock_level", e.target.value)}
+                placeholder="10"
+              />
+            </div>
             <div>
               <Label htmlFor="specifications">Specifications</Label>
               <Textarea
@@ -534,13 +702,12 @@ export const ProductsManager = () => {
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label htmlFor="edit-category">Category ID</Label>
-                <Input
+                <Label htmlFor="edit-category">Category</Label>
+                <CategoryPicker
                   id="edit-category"
-                  type="number"
+                  categories={categories}
                   value={formData.category_id}
-                  onChange={(e) => handleInputChange("category_id", e.target.value)}
-                  placeholder="1"
+                  onChange={(value) => handleInputChange("category_id", value)}
                 />
               </div>
               <div>
@@ -579,6 +746,17 @@ export const ProductsManager = () => {
                 />
               </div>
             </div>
+            <div>
+              <Label htmlFor="edit-min-stock">Reorder Threshold</Label>
+              <Input
+                id="edit-min-stock"
+                type="number"
+                min="0"
+                value={formData.min_stock_level}
+                onChange={(e) => handleInputChange("min_stock_level", e.target.value)}
+                placeholder="10"
+              />
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => { setShowEdit(false); resetForm(); }}>
@@ -589,6 +767,90 @@ export const ProductsManager = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Stock Adjustment Modal */}
+      <Dialog open={showStock} onOpenChange={setShowStock}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Stock</DialogTitle>
+            <DialogDescription>
+              {selectedProduct && `${selectedProduct.name} (${selectedProduct.sku}) · ${selectedProduct.stock_quantity} units on hand, ${selectedProduct.reserved_quantity} reserved for open orders`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              <Button
+                variant={stockForm.type === "in" ? "default" : "outline"}
+                onClick={() => handleStockTypeChange("in")}
+              >
+                Receive
+              </Button>
+              <Button
+                variant={stockForm.type === "out" ? "default" : "outline"}
+                onClick={() => handleStockTypeChange("out")}
+              >
+                Issue
+              </Button>
+              <Button
+                variant={stockForm.type === "adjustment" ? "default" : "outline"}
+                onClick={() => handleStockTypeChange("adjustment")}
+              >
+                Adjust
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="stock-quantity">
+                  {stockForm.type === "adjustment" ? "Counted Quantity" : "Quantity"}
+                </Label>
+                <Input
+                  id="stock-quantity"
+                  type="number"
+                  min="0"
+                  value={stockForm.quantity}
+                  onChange={(e) => setStockForm(prev => ({ ...prev, quantity: e.target.value }))}
+                  placeholder="0"
+                />
+              </div>
+              <div>
+                <Label htmlFor="stock-reason">Reason</Label>
+                <Select value={stockForm.reason} onValueChange={(value) => setStockForm(prev => ({ ...prev, reason: value }))}>
+                  <SelectTrigger id="stock-reason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STOCK_REASONS[stockForm.type].map((reason) => (
+                      <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="stock-notes">Notes</Label>
+              <Textarea
+                id="stock-notes"
+                value={stockForm.notes}
+                onChange={(e) => setStockForm(prev => ({ ...prev, notes: e.target.value }))}
+                placeholder="Delivery note, count sheet reference, etc."
+              />
+            </div>
+            {getProjectedStock() !== null && (
+              <div className={`text-sm ${getProjectedStock()! < selectedProduct.reserved_quantity ? "text-red-600" : "text-gray-600"}`}>
+                New stock level: <b>{getProjectedStock()}</b> ({getProjectedStock()! - selectedProduct.reserved_quantity} available)
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setShowStock(false); setStockForm(EMPTY_STOCK_FORM); }}>
+              Cancel
+            </Button>
+            <Button onClick={handleStockUpdate} disabled={stockSubmitting}>
+              {stockSubmitting ? "Saving..." : "Record Movement"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Confirm Delete Dialog */}
       <ConfirmDialog
         open={confirmDelete.open}
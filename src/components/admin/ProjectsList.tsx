@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useContext } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -8,10 +8,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar, MapPin, User, Plus, Edit, Trash2, Eye } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar, MapPin, User, Plus, Edit, Trash2, Eye, AlertTriangle, Users } from "lucide-react";
 import { toast } from "sonner";
 import { useApi } from "@/lib/api";
 import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
 
 interface Project {
   id: number;
@@ -24,10 +26,28 @@ interface Project {
   manager_id?: number;
   manager_name?: string;
   manager_agency?: string;
+  spent: number;
+  order_count: number;
+  agency_ids: number[];
   created_at: string;
   updated_at: string;
 }
 
+interface ProjectSpend {
+  budget: number | null;
+  committed: number;
+  delivered: number;
+  remaining: number | null;
+  percent_used: number | null;
+  by_status: { status: string; order_count: number; amount: number }[];
+  by_agency: { agency_id: number | null; agency_name: string; order_count: number; amount: number }[];
+}
+
+interface Agency {
+  id: number;
+  name: string;
+}
+
 interface Manager {
   id: number;
   name: string;
@@ -43,26 +63,51 @@ interface ProjectFormData {
   end_date: string;
   budget: string;
   manager_id: string;
+  agency_ids: number[];
 }
 
+const EMPTY_FORM: ProjectFormData = {
+  name: "",
+  description: "",
+  status: "planning",
+  start_date: "",
+  end_date: "",
+  budget: "",
+  manager_id: "none",
+  agency_ids: []
+};
+
+// Share of the budget at which a project is flagged as nearing its limit
+const BUDGET_WARNING_RATIO = 0.9;
+
+const getBudgetUsage = (project: Project) => {
+  if (!project.budget) return null;
+  const ratio = project.spent / project.budget;
+  return {
+    ratio,
+    remaining: project.budget - project.spent,
+    overBudget: ratio > 1,
+    nearLimit: ratio >= BUDGET_WARNING_RATIO && ratio <= 1
+  };
+};
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 export const ProjectsList = () => {
   const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "projects.manage");
   const [projects, setProjects] = useState<Project[]>([]);
   const [managers, setManagers] = useState<Manager[]>([]);
+  const [agencies, setAgencies] = useState<Agency[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [showDetails, setShowDetails] = useState(false);
   const [showEdit, setShowEdit] = useState(false);
   const [showAdd, setShowAdd] = useState(false);
-  const [formData, setFormData] = useState<ProjectFormData>({
-    name: "",
-    description: "",
-    status: "planning",
-    start_date: "",
-    end_date: "",
-    budget: "",
-    manager_id: ""
-  });
+  const [formData, setFormData] = useState<ProjectFormData>(EMPTY_FORM);
+  const [projectSpend, setProjectSpend] = useState<ProjectSpend | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; projectId: number | null }>({ open: false, projectId: null });
 
   // Fetch projects from backend
@@ -98,43 +143,77 @@ export const ProjectsList = () => {
     }
   };
 
+  // Fetch agencies that can be added to a project
+  const fetchAgencies = async () => {
+    try {
+      const response = await apiFetch("/agencies");
+      if (response.ok) {
+        const data = await response.json();
+        setAgencies(data.agencies || []);
+      } else {
+        console.error("Failed to fetch agencies");
+      }
+    } catch (error) {
+      console.error("Network error fetching agencies");
+    }
+  };
+
   useEffect(() => {
     fetchProjects();
     fetchManagers();
+    fetchAgencies();
   }, []);
 
+  // Fetch budget breakdown for the details modal
+  const fetchProjectSpend = async (projectId: number) => {
+    try {
+      setProjectSpend(null);
+      const response = await apiFetch(`/projects/${projectId}/spend`);
+      if (response.ok) {
+        const data = await response.json();
+        setProjectSpend(data.spend);
+      } else {
+        toast.error("Failed to fetch project spend");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
   // Handle form input changes
   const handleInputChange = (field: keyof ProjectFormData, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const toggleAgency = (agencyId: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      agency_ids: checked ? [...prev.agency_ids, agencyId] : prev.agency_ids.filter(id => id !== agencyId)
+    }));
+  };
+
   // Reset form
   const resetForm = () => {
-    setFormData({
-      name: "",
-      description: "",
-      status: "planning",
-      start_date: "",
-      end_date: "",
-      budget: "",
-      manager_id: ""
-    });
+    setFormData(EMPTY_FORM);
   };
 
+  const buildProjectPayload = () => ({
+    name: formData.name,
+    description: formData.description,
+    status: formData.status,
+    start_date: formData.start_date || null,
+    end_date: formData.end_date || null,
+    budget: formData.budget ? parseFloat(formData.budget) : null,
+    manager_id: formData.manager_id !== "none" ? parseInt(formData.manager_id) : null,
+    agency_ids: formData.agency_ids
+  });
+
   // Add new project
   const handleAddProject = async () => {
     try {
       const response = await apiFetch("/projects", {
         method: "POST",
-        body: JSON.stringify({
-          name: formData.name,
-          description: formData.description,
-          status: formData.status,
-          start_date: formData.start_date || null,
-          end_date: formData.end_date || null,
-          budget: formData.budget ? parseFloat(formData.budget) : null,
-          manager_id: formData.manager_id ? parseInt(formData.manager_id) : null
-        })
+        body: JSON.stringify(buildProjectPayload())
       });
 
       if (response.ok) {
@@ -158,15 +237,7 @@ export const ProjectsList = () => {
     try {
       const response = await apiFetch(`/projects/${selectedProject.id}`, {
         method: "PUT",
-        body: JSON.stringify({
-          name: formData.name,
-          description: formData.description,
-          status: formData.status,
-          start_date: formData.start_date || null,
-          end_date: formData.end_date || null,
-          budget: formData.budget ? parseFloat(formData.budget) : null,
-          manager_id: formData.manager_id ? parseInt(formData.manager_id) : null
-        })
+        body: JSON.stringify(buildProjectPayload())
       });
 
       if (response.ok) {
@@ -212,11 +283,18 @@ export const ProjectsList = () => {
       start_date: project.start_date || "",
       end_date: project.end_date || "",
       budget: project.budget?.toString() || "",
-      manager_id: project.manager_id?.toString() || ""
+      manager_id: project.manager_id?.toString() || "none",
+      agency_ids: project.agency_ids
     });
     setShowEdit(true);
   };
 
+  const openDetailsModal = (project: Project) => {
+    setSelectedProject(project);
+    setShowDetails(true);
+    fetchProjectSpend(project.id);
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "completed": return "bg-green-100 text-green-800";
@@ -237,6 +315,64 @@ export const ProjectsList = () => {
     }
   };
 
+  const renderBudgetBurn = (project: Project) => {
+    const usage = getBudgetUsage(project);
+    if (!usage) return null;
+
+    const barColor = usage.overBudget
+      ? "[&>div]:bg-red-600"
+      : usage.nearLimit ? "[&>div]:bg-orange-500" : "[&>div]:bg-green-600";
+
+    return (
+      <div className="mb-4">
+        <div className="flex justify-between text-sm mb-1">
+          <span className="text-gray-600">Budget used ({project.order_count} orders)</span>
+          <span className="font-medium">
+            {formatCurrency(project.spent)} of {formatCurrency(project.budget)} ({Math.round(usage.ratio * 100)}%)
+          </span>
+        </div>
+        <Progress value={Math.min(usage.ratio * 100, 100)} className={`h-2 ${barColor}`} />
+        {usage.overBudget && (
+          <div className="flex items-center gap-1 text-sm text-red-600 mt-1">
+            <AlertTriangle className="h-4 w-4" />
+            Over budget by {formatCurrency(-usage.remaining)}
+          </div>
+        )}
+        {usage.nearLimit && (
+          <div className="flex items-center gap-1 text-sm text-orange-600 mt-1">
+            <AlertTriangle className="h-4 w-4" />
+            Only {formatCurrency(usage.remaining)} of the budget remaining
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderAgencyPicker = (idPrefix: string) => (
+    <div>
+      <Label className="flex items-center gap-1">
+        <Users className="h-4 w-4" />
+        Participating Agencies
+      </Label>
+      <p className="text-xs text-gray-500 mb-2">Staff of selected agencies can order against this project. The manager always can.</p>
+      <div className="max-h-40 overflow-y-auto space-y-2 border rounded-md p-2">
+        {agencies.map((agency) => (
+          <div key={agency.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-agency-${agency.id}`}
+              checked={formData.agency_ids.includes(agency.id)}
+              onCheckedChange={(checked) => toggleAgency(agency.id, checked === true)}
+            />
+            <Label htmlFor={`${idPrefix}-agency-${agency.id}`} className="font-normal">
+              {agency.name}
+            </Label>
+          </div>
+        ))}
+        {agencies.length === 0 && <div className="text-sm text-gray-500">No agencies</div>}
+      </div>
+    </div>
+  );
+
   const statusCounts = {
     planning: projects.filter(p => p.status === "planning").length,
     in_progress: projects.filter(p => p.status === "in_progress").length,
@@ -249,10 +385,12 @@ export const ProjectsList = () => {
       <div className="space-y-6">
         <div className="flex justify-between items-center">
           <h2 className="text-2xl font-bold text-gray-900">Project Management</h2>
-          <Button disabled className="bg-blue-600 hover:bg-blue-700">
-            <Plus className="h-4 w-4 mr-2" />
-            Add New Project
-          </Button>
+          {canManage && (
+            <Button disabled className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Add New Project
+            </Button>
+          )}
         </div>
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
@@ -266,10 +404,12 @@ export const ProjectsList = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Project Management</h2>
-        <Button onClick={() => setShowAdd(true)} className="bg-blue-600 hover:bg-blue-700">
-          <Plus className="h-4 w-4 mr-2" />
-          Add New Project
-        </Button>
+        {canManage && (
+          <Button onClick={() => setShowAdd(true)} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add New Project
+          </Button>
+        )}
       </div>
 
       {/* Status Summary */}
@@ -340,25 +480,31 @@ export const ProjectsList = () => {
                   <div className="text-sm">{project.description}</div>
                 </div>
               )}
+
+              {renderBudgetBurn(project)}
               
               <div className="flex gap-2">
-                <Button variant="outline" size="sm" onClick={() => openEditModal(project)}>
-                  <Edit className="h-4 w-4 mr-1" />
-                  Edit
-                </Button>
-                <Button variant="outline" size="sm" onClick={() => { setSelectedProject(project); setShowDetails(true); }}>
+                {canManage && (
+                  <Button variant="outline" size="sm" onClick={() => openEditModal(project)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => openDetailsModal(project)}>
                   <Eye className="h-4 w-4 mr-1" />
                   View Details
                 </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={() => setConfirmDelete({ open: true, projectId: project.id })}
-                  className="text-red-600 border-red-300 hover:bg-red-50"
-                >
-                  <Trash2 className="h-4 w-4 mr-1" />
-                  Delete
-                </Button>
+                {canManage && (
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={() => setConfirmDelete({ open: true, projectId: project.id })}
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -380,6 +526,29 @@ export const ProjectsList = () => {
                   <div><b>Start Date:</b> {selectedProject.start_date ? new Date(selectedProject.start_date).toLocaleDateString() : "N/A"}</div>
                   <div><b>End Date:</b> {selectedProject.end_date ? new Date(selectedProject.end_date).toLocaleDateString() : "N/A"}</div>
                   <div><b>Budget:</b> {selectedProject.budget ? `$${selectedProject.budget.toLocaleString()}` : "N/A"}</div>
+                  {projectSpend && (
+                    <>
+                      <div><b>Committed Spend:</b> {formatCurrency(projectSpend.committed)}</div>
+                      <div><b>Delivered:</b> {formatCurrency(projectSpend.delivered)}</div>
+                      {projectSpend.remaining !== null && (
+                        <div className={projectSpend.remaining < 0 ? "text-red-600" : undefined}>
+                          <b>Remaining:</b> {formatCurrency(projectSpend.remaining)}
+                        </div>
+                      )}
+                      {projectSpend.by_agency.length > 0 && (
+                        <div>
+                          <b>Spend by Agency:</b>
+                          <ul className="ml-4 list-disc">
+                            {projectSpend.by_agency.map((row) => (
+                              <li key={row.agency_id ?? "admin"}>
+                                {row.agency_name}: {formatCurrency(row.amount)} ({row.order_count} orders)
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </>
+                  )}
                   <div><b>Description:</b> {selectedProject.description || "N/A"}</div>
                   <div><b>Created:</b> {new Date(selectedProject.created_at).toLocaleDateString()}</div>
                   <div><b>Updated:</b> {new Date(selectedProject.updated_at).toLocaleDateString()}</div>
@@ -440,7 +609,7 @@ export const ProjectsList = () => {
                     <SelectValue placeholder="Select a manager" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="">No Manager</SelectItem>
+                    <SelectItem value="none">No Manager</SelectItem>
                     {managers.map((manager) => (
                       <SelectItem key={manager.id} value={manager.id.toString()}>
                         {manager.name} {manager.agency_name && `(${manager.agency_name})`}
@@ -481,6 +650,7 @@ export const ProjectsList = () => {
                 placeholder="0.00"
               />
             </div>
+            {renderAgencyPicker("add")}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => { setShowAdd(false); resetForm(); }}>
@@ -538,7 +708,7 @@ export const ProjectsList = () => {
                     <SelectValue placeholder="Select a manager" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="">No Manager</SelectItem>
+                    <SelectItem value="none">No Manager</SelectItem>
                     {managers.map((manager) => (
                       <SelectItem key={manager.id} value={manager.id.toString()}>
                         {manager.name} {manager.agency_name && `(${manager.agency_name})`}
@@ -579,6 +749,7 @@ export const ProjectsList = () => {
                 placeholder="0.00"
               />
             </div>
+            {renderAgencyPicker("edit")}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => { setShowEdit(false); resetForm(); }}>
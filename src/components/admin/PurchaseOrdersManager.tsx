@@ -0,0 +1,716 @@
+import { useState, useEffect , useContext } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardList, Plus, Trash2, Eye, Search, Calendar, DollarSign, Truck, PackageCheck, Send, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { PaginationControls } from "@/components/ui/PaginationControls";
+import { ProductPicker, ProductOption } from "@/components/ui/ProductPicker";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface PurchaseOrderItem {
+  id: number;
+  product_id: number;
+  product_name: string;
+  sku: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  total_cost: number;
+}
+
+interface PurchaseOrder {
+  id: number;
+  po_number: string;
+  supplier_id: number;
+  supplier_name: string;
+  status: string;
+  expected_delivery_date?: string;
+  total_amount: number;
+  notes?: string;
+  created_by_name?: string;
+  created_at: string;
+  item_count?: number;
+  units_ordered?: number;
+  units_received?: number;
+  items?: PurchaseOrderItem[];
+}
+
+interface SupplierOption {
+  id: number;
+  name: string;
+  status: string;
+}
+
+interface LineItemForm {
+  product: ProductOption | null;
+  quantity: string;
+  unit_cost: string;
+}
+
+interface PurchaseOrderFormData {
+  supplier_id: string;
+  status: string;
+  expected_delivery_date: string;
+  notes: string;
+  items: LineItemForm[];
+}
+
+interface PurchaseOrdersManagerProps {
+  focusPurchaseOrderId?: number | null;
+  onFocusHandled?: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const RECEIVABLE_STATUSES = ["ordered", "partially_received"];
+const CANCELLABLE_STATUSES = ["draft", "ordered", "partially_received"];
+
+const EMPTY_LINE: LineItemForm = { product: null, quantity: "1", unit_cost: "" };
+
+const EMPTY_FORM: PurchaseOrderFormData = {
+  supplier_id: "",
+  status: "ordered",
+  expected_delivery_date: "",
+  notes: "",
+  items: [EMPTY_LINE]
+};
+
+export const PurchaseOrdersManager = ({ focusPurchaseOrderId, onFocusHandled }: PurchaseOrdersManagerProps) => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "purchasing.manage");
+  const canReceive = hasPermission(user, "purchasing.receive");
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalPurchaseOrders, setTotalPurchaseOrders] = useState(0);
+  const [showCreate, setShowCreate] = useState(false);
+  const [formData, setFormData] = useState<PurchaseOrderFormData>(EMPTY_FORM);
+  const [submitting, setSubmitting] = useState(false);
+  const [selectedPurchaseOrder, setSelectedPurchaseOrder] = useState<PurchaseOrder | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [detailsLoading, setDetailsLoading] = useState(false);
+  const [receiveQuantities, setReceiveQuantities] = useState<{ [itemId: number]: string }>({});
+  const [receiveNotes, setReceiveNotes] = useState("");
+  const [confirmCancel, setConfirmCancel] = useState<{ open: boolean; purchaseOrder: PurchaseOrder | null }>({ open: false, purchaseOrder: null });
+
+  // Fetch a page of purchase orders from backend
+  const fetchPurchaseOrders = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (searchTerm) params.set("search", searchTerm);
+
+      const response = await apiFetch(`/purchase-orders?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setPurchaseOrders(data.purchase_orders || []);
+        setTotalPages(Math.max(data.pagination?.pages || 1, 1));
+        setTotalPurchaseOrders(data.pagination?.total || 0);
+      } else {
+        toast.error("Failed to fetch purchase orders");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch suppliers for the create form; products are searched as each line is filled in
+  const fetchFormOptions = async () => {
+    try {
+      const response = await apiFetch("/suppliers?status=active");
+      if (response.ok) {
+        const data = await response.json();
+        setSuppliers(data.suppliers || []);
+      }
+    } catch (error) {
+      console.error("Network error fetching purchase order form options");
+    }
+  };
+
+  useEffect(() => {
+    fetchPurchaseOrders();
+  }, [page, statusFilter, searchTerm]);
+
+  // Fetch a single purchase order with its items
+  const fetchPurchaseOrderDetails = async (purchaseOrderId: number) => {
+    try {
+      setDetailsLoading(true);
+      const response = await apiFetch(`/purchase-orders/${purchaseOrderId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedPurchaseOrder(data.purchase_order);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to fetch purchase order details");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setDetailsLoading(false);
+    }
+  };
+
+  const isReceivable = (purchaseOrder: PurchaseOrder) => canReceive && RECEIVABLE_STATUSES.includes(purchaseOrder.status);
+
+  const openDetails = (purchaseOrderId: number) => {
+    setSelectedPurchaseOrder(null);
+    setReceiveQuantities({});
+    setReceiveNotes("");
+    setShowDetails(true);
+    fetchPurchaseOrderDetails(purchaseOrderId);
+  };
+
+  useEffect(() => {
+    if (focusPurchaseOrderId) {
+      openDetails(focusPurchaseOrderId);
+      onFocusHandled?.();
+    }
+  }, [focusPurchaseOrderId]);
+
+  const openCreateModal = () => {
+    setFormData(EMPTY_FORM);
+    setShowCreate(true);
+    fetchFormOptions();
+  };
+
+  const updateLine = (index: number, field: "quantity" | "unit_cost", value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map((line, i) => (i === index ? { ...line, [field]: value } : line))
+    }));
+  };
+
+  const selectLineProduct = (index: number, product: ProductOption | null) => {
+    setFormData(prev => ({
+      ...prev,
+      items: prev.items.map((line, i) => {
+        if (i !== index) return line;
+        // Default the unit cost from the product's recorded cost
+        const unitCost = !line.unit_cost && product?.cost ? product.cost.toString() : line.unit_cost;
+        return { ...line, product, unit_cost: unitCost };
+      })
+    }));
+  };
+
+  const addLine = () => {
+    setFormData(prev => ({ ...prev, items: [...prev.items, EMPTY_LINE] }));
+  };
+
+  const removeLine = (index: number) => {
+    setFormData(prev => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }));
+  };
+
+  const formTotal = formData.items.reduce(
+    (sum, line) => sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unit_cost) || 0),
+    0
+  );
+
+  // Create purchase order
+  const handleCreatePurchaseOrder = async () => {
+    if (!formData.supplier_id) {
+      toast.error("Select a supplier");
+      return;
+    }
+    if (formData.items.some(line => !line.product || !(parseInt(line.quantity) > 0) || line.unit_cost === "")) {
+      toast.error("Each line needs a product, quantity and unit cost");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await apiFetch("/purchase-orders", {
+        method: "POST",
+        body: JSON.stringify({
+          supplier_id: parseInt(formData.supplier_id),
+          status: formData.status,
+          expected_delivery_date: formData.expected_delivery_date || undefined,
+          notes: formData.notes || undefined,
+          items: formData.items.map(line => ({
+            product_id: line.product?.id,
+            quantity: parseInt(line.quantity),
+            unit_cost: parseFloat(line.unit_cost)
+          }))
+        })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Purchase order ${data.purchase_order.po_number} created`);
+        setShowCreate(false);
+        fetchPurchaseOrders();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to create purchase order");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Move a purchase order to a new status
+  const handleStatusChange = async (purchaseOrder: PurchaseOrder, status: string) => {
+    try {
+      const response = await apiFetch(`/purchase-orders/${purchaseOrder.id}/status`, {
+        method: "PATCH",
+        body: JSON.stringify({ status })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Purchase order ${purchaseOrder.po_number} marked as ${status}`);
+        if (selectedPurchaseOrder?.id === purchaseOrder.id) setSelectedPurchaseOrder(data.purchase_order);
+        fetchPurchaseOrders();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to update purchase order");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Receive goods into stock
+  const handleReceive = async () => {
+    if (!selectedPurchaseOrder?.items) return;
+
+    const items = selectedPurchaseOrder.items
+      .map(item => ({ item_id: item.id, quantity: parseInt(receiveQuantities[item.id] || "0") || 0 }))
+      .filter(item => item.quantity > 0);
+
+    if (items.length === 0) {
+      toast.error("Enter a received quantity for at least one item");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await apiFetch(`/purchase-orders/${selectedPurchaseOrder.id}/receive`, {
+        method: "POST",
+        body: JSON.stringify({ items, notes: receiveNotes || undefined })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const units = data.received_items.reduce((sum: number, item: { quantity: number }) => sum + item.quantity, 0);
+        const allocated = data.received_items.reduce(
+          (sum: number, item: { allocated_to_backorders: number }) => sum + item.allocated_to_backorders, 0
+        );
+        toast.success(allocated > 0
+          ? `Received ${units} unit(s) into stock; ${allocated} reserved for backordered orders`
+          : `Received ${units} unit(s) into stock`);
+        setSelectedPurchaseOrder(data.purchase_order);
+        setReceiveQuantities({});
+        setReceiveNotes("");
+        fetchPurchaseOrders();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to receive goods");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchTerm(searchInput.trim());
+    setPage(1);
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "draft": return <Badge variant="secondary">Draft</Badge>;
+      case "ordered": return <Badge className="bg-blue-100 text-blue-800">Ordered</Badge>;
+      case "partially_received": return <Badge className="bg-yellow-100 text-yellow-800">Partially Received</Badge>;
+      case "received": return <Badge className="bg-green-100 text-green-800">Received</Badge>;
+      case "cancelled": return <Badge className="bg-red-100 text-red-800">Cancelled</Badge>;
+      default: return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Purchase Orders</h3>
+        {canManage && (
+          <Button onClick={openCreateModal} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            New Purchase Order
+          </Button>
+        )}
+      </div>
+
+      {/* Search and Filter */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <form onSubmit={handleSearch} className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by PO number or supplier..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </form>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1); }}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="ordered">Ordered</SelectItem>
+                <SelectItem value="partially_received">Partially Received</SelectItem>
+                <SelectItem value="received">Received</SelectItem>
+                <SelectItem value="cancelled">Cancelled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Purchase Orders List */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading purchase orders...</p>
+        </div>
+      ) : purchaseOrders.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No purchase orders found</h3>
+            <p className="text-gray-600">Raise a purchase order to restock products from a supplier.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {purchaseOrders.map((purchaseOrder) => (
+            <Card key={purchaseOrder.id} className="hover:shadow-md transition-shadow">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg">{purchaseOrder.po_number}</CardTitle>
+                    <div className="flex items-center gap-4 text-sm text-gray-600 mt-2">
+                      <div className="flex items-center gap-1">
+                        <Truck className="h-4 w-4" />
+                        {purchaseOrder.supplier_name}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        {purchaseOrder.expected_delivery_date
+                          ? `Expected ${formatDate(purchaseOrder.expected_delivery_date)}`
+                          : `Raised ${formatDate(purchaseOrder.created_at)}`}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <DollarSign className="h-4 w-4" />
+                        ${purchaseOrder.total_amount.toLocaleString()}
+                      </div>
+                    </div>
+                  </div>
+                  {getStatusBadge(purchaseOrder.status)}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="text-sm text-gray-600">Received</div>
+                    <div className="font-semibold">
+                      {purchaseOrder.units_received ?? 0} / {purchaseOrder.units_ordered ?? 0} units
+                      <span className="text-sm font-normal text-gray-500"> &middot; {purchaseOrder.item_count ?? 0} lines</span>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openDetails(purchaseOrder.id)}>
+                      {isReceivable(purchaseOrder)
+                        ? <><PackageCheck className="h-4 w-4 mr-1" />Receive</>
+                        : <><Eye className="h-4 w-4 mr-1" />View Details</>}
+                    </Button>
+                    {canManage && purchaseOrder.status === "draft" && (
+                      <Button size="sm" onClick={() => handleStatusChange(purchaseOrder, "ordered")}>
+                        <Send className="h-4 w-4 mr-1" />
+                        Mark Ordered
+                      </Button>
+                    )}
+                    {canManage && CANCELLABLE_STATUSES.includes(purchaseOrder.status) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600 border-red-300 hover:bg-red-50"
+                        onClick={() => setConfirmCancel({ open: true, purchaseOrder })}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <PaginationControls
+        page={page}
+        totalPages={totalPages}
+        totalItems={totalPurchaseOrders}
+        itemLabel="purchase orders"
+        onPageChange={setPage}
+      />
+
+      {/* Create Purchase Order Modal */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>New Purchase Order</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="po-supplier">Supplier</Label>
+                <Select value={formData.supplier_id} onValueChange={(value) => setFormData(prev => ({ ...prev, supplier_id: value }))}>
+                  <SelectTrigger id="po-supplier">
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id.toString()}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="po-expected">Expected Delivery</Label>
+                <Input
+                  id="po-expected"
+                  type="date"
+                  value={formData.expected_delivery_date}
+                  onChange={(e) => setFormData(prev => ({ ...prev, expected_delivery_date: e.target.value }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="po-status">Save As</Label>
+                <Select value={formData.status} onValueChange={(value) => setFormData(prev => ({ ...prev, status: value }))}>
+                  <SelectTrigger id="po-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="ordered">Ordered</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Items</Label>
+              {formData.items.map((line, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                  <div className="col-span-6">
+                    <ProductPicker value={line.product} onChange={(product) => selectLineProduct(index, product)} />
+                  </div>
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="1"
+                    placeholder="Qty"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, "quantity", e.target.value)}
+                  />
+                  <Input
+                    className="col-span-3"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Unit cost"
+                    value={line.unit_cost}
+                    onChange={(e) => updateLine(index, "unit_cost", e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="col-span-1"
+                    onClick={() => removeLine(index)}
+                    disabled={formData.items.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={addLine}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Line
+              </Button>
+            </div>
+
+            <div>
+              <Label htmlFor="po-notes">Notes</Label>
+              <Textarea
+                id="po-notes"
+                value={formData.notes}
+                onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+
+            <div className="text-right font-semibold">Total: ${formTotal.toFixed(2)}</div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreatePurchaseOrder} disabled={submitting}>
+              {submitting ? "Saving..." : "Create Purchase Order"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Purchase Order Details / Receive Modal */}
+      <Dialog open={showDetails} onOpenChange={setShowDetails}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Purchase Order {selectedPurchaseOrder?.po_number}</DialogTitle>
+            <DialogDescription>
+              {selectedPurchaseOrder && (
+                <span className="flex items-center gap-2 mt-1">
+                  {selectedPurchaseOrder.supplier_name} {getStatusBadge(selectedPurchaseOrder.status)}
+                </span>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          {!selectedPurchaseOrder?.items && detailsLoading ? (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+              <p className="mt-2 text-gray-600">Loading purchase order...</p>
+            </div>
+          ) : selectedPurchaseOrder?.items && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div><b>Raised:</b> {formatDate(selectedPurchaseOrder.created_at)} {selectedPurchaseOrder.created_by_name && `by ${selectedPurchaseOrder.created_by_name}`}</div>
+                <div><b>Expected:</b> {selectedPurchaseOrder.expected_delivery_date ? formatDate(selectedPurchaseOrder.expected_delivery_date) : "N/A"}</div>
+                <div><b>Total:</b> ${selectedPurchaseOrder.total_amount.toLocaleString()}</div>
+                <div><b>Notes:</b> {selectedPurchaseOrder.notes || "N/A"}</div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Unit Cost</TableHead>
+                    <TableHead className="text-right">Ordered</TableHead>
+                    <TableHead className="text-right">Received</TableHead>
+                    {isReceivable(selectedPurchaseOrder) && <TableHead className="w-28">Receive Now</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedPurchaseOrder.items.map((item) => {
+                    const remaining = item.quantity_ordered - item.quantity_received;
+                    return (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="font-medium">{item.product_name}</div>
+                          <div className="text-xs text-gray-500">{item.sku}</div>
+                        </TableCell>
+                        <TableCell className="text-right">${item.unit_cost}</TableCell>
+                        <TableCell className="text-right">{item.quantity_ordered}</TableCell>
+                        <TableCell className="text-right">{item.quantity_received}</TableCell>
+                        {isReceivable(selectedPurchaseOrder) && (
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              max={remaining}
+                              disabled={remaining === 0}
+                              placeholder={remaining.toString()}
+                              value={receiveQuantities[item.id] || ""}
+                              onChange={(e) => setReceiveQuantities(prev => ({ ...prev, [item.id]: e.target.value }))}
+                            />
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {isReceivable(selectedPurchaseOrder) && (
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="receive-notes">Receiving Notes</Label>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => setReceiveQuantities(Object.fromEntries(
+                        (selectedPurchaseOrder.items || []).map(item => [item.id, (item.quantity_ordered - item.quantity_received).toString()])
+                      ))}
+                    >
+                      Fill remaining quantities
+                    </Button>
+                  </div>
+                  <Textarea
+                    id="receive-notes"
+                    value={receiveNotes}
+                    onChange={(e) => setReceiveNotes(e.target.value)}
+                    placeholder="Delivery note number, condition of goods, etc."
+                  />
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDetails(false)}>Close</Button>
+            {selectedPurchaseOrder && isReceivable(selectedPurchaseOrder) && (
+              <Button onClick={handleReceive} disabled={submitting}>
+                <PackageCheck className="h-4 w-4 mr-1" />
+                {submitting ? "Receiving..." : "Receive Goods"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Cancel Dialog */}
+      <ConfirmDialog
+        open={confirmCancel.open}
+        title="Cancel Purchase Order?"
+        description={`Cancel ${confirmCancel.purchaseOrder?.po_number}? Goods already received stay in stock; nothing further can be received on this order.`}
+        confirmLabel="Cancel Purchase Order"
+        cancelLabel="Keep"
+        onCancel={() => setConfirmCancel({ open: false, purchaseOrder: null })}
+        onConfirm={() => {
+          if (confirmCancel.purchaseOrder) handleStatusChange(confirmCancel.purchaseOrder, "cancelled");
+          setConfirmCancel({ open: false, purchaseOrder: null });
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PurchaseOrdersManager } from "./PurchaseOrdersManager";
+import { SuppliersManager } from "./SuppliersManager";
+
+interface PurchasingManagerProps {
+  focusPurchaseOrderId?: number | null;
+  onFocusHandled?: () => void;
+}
+
+export const PurchasingManager = ({ focusPurchaseOrderId, onFocusHandled }: PurchasingManagerProps) => {
+  const [activeTab, setActiveTab] = useState("purchase-orders");
+
+  useEffect(() => {
+    if (focusPurchaseOrderId) setActiveTab("purchase-orders");
+  }, [focusPurchaseOrderId]);
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold text-gray-900">Purchasing</h2>
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="mb-4">
+          <TabsTrigger value="purchase-orders">Purchase Orders</TabsTrigger>
+          <TabsTrigger value="suppliers">Suppliers</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="purchase-orders">
+          <PurchaseOrdersManager focusPurchaseOrderId={focusPurchaseOrderId} onFocusHandled={onFocusHandled} />
+        </TabsContent>
+
+        <TabsContent value="suppliers">
+          <SuppliersManager />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
@@ -0,0 +1,539 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, User, DollarSign, Search, Eye, Loader2, RotateCcw, PackageCheck } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { PaginationControls } from "@/components/ui/PaginationControls";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface ReturnItem {
+  id: number;
+  order_item_id: number;
+  product_name: string;
+  sku?: string;
+  quantity: number;
+  unit_price: number;
+  ordered_quantity: number;
+  line_tax_amount: number;
+  disposition?: "restock" | "scrap" | null;
+}
+
+interface ReturnRequest {
+  id: number;
+  rma_number: string;
+  order_id: number;
+  order_number: string;
+  agency_name?: string;
+  status: string;
+  reason: string;
+  review_notes?: string;
+  receipt_notes?: string;
+  credit_amount: number;
+  requested_by_name?: string;
+  reviewed_by_name?: string;
+  received_by_name?: string;
+  reviewed_at?: string;
+  received_at?: string;
+  created_at: string;
+  items: ReturnItem[];
+}
+
+interface ReceiveFormData {
+  dispositions: { [returnItemId: number]: "restock" | "scrap" };
+  notes: string;
+}
+
+const PAGE_SIZE = 10;
+
+interface ReturnsManagerProps {
+  // Return to open in the details dialog, e.g. when following a ledger link
+  focusReturnId?: number | null;
+  onFocusHandled?: () => void;
+}
+
+export const ReturnsManager = ({ focusReturnId, onFocusHandled }: ReturnsManagerProps) => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "returns.manage");
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalReturns, setTotalReturns] = useState(0);
+  const [selectedReturn, setSelectedReturn] = useState<ReturnRequest | null>(null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [review, setReview] = useState<{ rma: ReturnRequest; decision: "approve" | "reject" } | null>(null);
+  const [reviewNotes, setReviewNotes] = useState("");
+  const [receiveReturn, setReceiveReturn] = useState<ReturnRequest | null>(null);
+  const [receiveForm, setReceiveForm] = useState<ReceiveFormData>({ dispositions: {}, notes: "" });
+  const [submitting, setSubmitting] = useState(false);
+
+  // Fetch a page of returns from backend
+  const fetchReturns = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (searchTerm) params.set("search", searchTerm);
+
+      const response = await apiFetch(`/returns?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setReturns(data.returns || []);
+        setTotalPages(Math.max(data.pagination?.pages || 1, 1));
+        setTotalReturns(data.pagination?.total || 0);
+      } else {
+        toast.error("Failed to fetch returns");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturns();
+  }, [page, statusFilter, searchTerm]);
+
+  // Fetch a single return, e.g. one referenced from the ledger that is not on the current page
+  const fetchReturnDetails = async (returnId: number) => {
+    try {
+      const response = await apiFetch(`/returns/${returnId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedReturn(data.return);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to fetch return details");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  useEffect(() => {
+    if (focusReturnId) {
+      setSelectedReturn(null);
+      setShowDetails(true);
+      fetchReturnDetails(focusReturnId);
+      onFocusHandled?.();
+    }
+  }, [focusReturnId]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearchTerm(searchInput.trim());
+  };
+
+  const openDetails = (rma: ReturnRequest) => {
+    setSelectedReturn(rma);
+    setShowDetails(true);
+  };
+
+  const openReview = (rma: ReturnRequest, decision: "approve" | "reject") => {
+    setReview({ rma, decision });
+    setReviewNotes("");
+  };
+
+  const openReceive = (rma: ReturnRequest) => {
+    setReceiveReturn(rma);
+    setReceiveForm({
+      dispositions: Object.fromEntries(rma.items.map(item => [item.id, "restock" as const])),
+      notes: ""
+    });
+  };
+
+  // Approve or reject a requested return
+  const handleReview = async () => {
+    if (!review) return;
+    if (review.decision === "reject" && !reviewNotes.trim()) {
+      toast.error("A reason is required when rejecting a return");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await apiFetch(`/returns/${review.rma.id}/review`, {
+        method: "PATCH",
+        body: JSON.stringify({ decision: review.decision, notes: reviewNotes.trim() || undefined })
+      });
+
+      if (response.ok) {
+        toast.success(review.decision === "approve" ? "Return approved" : "Return rejected");
+        setReview(null);
+        fetchReturns();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to review return");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Receive the returned goods, restocking or scrapping each line
+  const handleReceive = async () => {
+    if (!receiveReturn) return;
+
+    try {
+      setSubmitting(true);
+      const response = await apiFetch(`/returns/${receiveReturn.id}/receive`, {
+        method: "POST",
+        body: JSON.stringify({
+          items: receiveReturn.items.map(item => ({
+            return_item_id: item.id,
+            disposition: receiveForm.dispositions[item.id]
+          })),
+          notes: receiveForm.notes || undefined
+        })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        const allocated = (data.allocated_backorders || []).reduce((sum: number, line: { quantity: number }) => sum + line.quantity, 0);
+        toast.success(
+          allocated > 0
+            ? `Return received; ${allocated} restocked unit(s) allocated to backorders`
+            : `Return received; $${data.return.credit_amount.toLocaleString()} credited`
+        );
+        setReceiveReturn(null);
+        fetchReturns();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to receive return");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "requested": return <Badge className="bg-yellow-100 text-yellow-800">Requested</Badge>;
+      case "approved": return <Badge className="bg-blue-100 text-blue-800">Approved</Badge>;
+      case "rejected": return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+      case "received": return <Badge className="bg-green-100 text-green-800">Received</Badge>;
+      default: return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric"
+    });
+  };
+
+  // What receiving the return will credit, including the returned units' share of the line's tax
+  const returnValue = (rma: ReturnRequest) =>
+    Math.round(rma.items.reduce((sum, item) =>
+      sum + item.quantity * item.unit_price + item.line_tax_amount * item.quantity / item.ordered_quantity, 0) * 100) / 100;
+
+  const renderActions = (rma: ReturnRequest) => {
+    if (!canManage) return null;
+
+    if (rma.status === "requested") {
+      return (
+        <>
+          <Button size="sm" className="bg-blue-600 hover:bg-blue-700" onClick={() => openReview(rma, "approve")}>
+            Approve
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openReview(rma, "reject")}
+            className="text-red-600 border-red-300 hover:bg-red-50"
+          >
+            Reject
+          </Button>
+        </>
+      );
+    }
+    if (rma.status === "approved") {
+      return (
+        <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => openReceive(rma)}>
+          <PackageCheck className="h-4 w-4 mr-1" />
+          Receive
+        </Button>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Returns</h2>
+        <Badge variant="secondary">{totalReturns} Returns</Badge>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <form onSubmit={handleSearch} className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by RMA number, order number or agency..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </form>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1); }}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="requested">Requested</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="received">Received</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Returns List */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading returns...</p>
+        </div>
+      ) : returns.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <RotateCcw className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No returns found</h3>
+            <p className="text-gray-600">Return requests from agencies will appear here.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6">
+          {returns.map((rma) => (
+            <Card key={rma.id} className="hover:shadow-md transition-shadow">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg">Return {rma.rma_number}</CardTitle>
+                    <div className="flex items-center gap-4 text-sm text-gray-600 mt-2">
+                      <div className="flex items-center gap-1">
+                        <User className="h-4 w-4" />
+                        {rma.agency_name || rma.requested_by_name}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        {formatDate(rma.created_at)}
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <DollarSign className="h-4 w-4" />
+                        ${(rma.status === "received" ? rma.credit_amount : returnValue(rma)).toLocaleString()}
+                      </div>
+                    </div>
+                  </div>
+                  {getStatusBadge(rma.status)}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="flex justify-between items-center">
+                  <div>
+                    <div className="text-sm text-gray-600">Order {rma.order_number}</div>
+                    <div className="text-sm">
+                      {rma.items.map((item) => `${item.quantity} × ${item.product_name}`).join(", ")}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openDetails(rma)}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      View Details
+                    </Button>
+                    {renderActions(rma)}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <PaginationControls
+        page={page}
+        totalPages={totalPages}
+        totalItems={totalReturns}
+        itemLabel="returns"
+        onPageChange={setPage}
+      />
+
+      {/* Return Details Modal */}
+      <Dialog open={showDetails} onOpenChange={setShowDetails}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Return {selectedReturn?.rma_number}</DialogTitle>
+            <DialogDescription>
+              {selectedReturn && `Requested by ${selectedReturn.requested_by_name}${selectedReturn.agency_name ? ` (${selectedReturn.agency_name})` : ""} on ${formatDate(selectedReturn.created_at)} for order ${selectedReturn.order_number}`}
+            </DialogDescription>
+          </DialogHeader>
+          {!selectedReturn ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="text-gray-600">Status:</span>
+                {getStatusBadge(selectedReturn.status)}
+              </div>
+              <div>
+                <div className="text-gray-600">Reason</div>
+                <div>{selectedReturn.reason}</div>
+              </div>
+              <div className="space-y-2">
+                {selectedReturn.items.map((item) => (
+                  <div key={item.id} className="flex justify-between items-center bg-gray-50 p-3 rounded">
+                    <div>
+                      <span className="font-medium">{item.product_name}</span>
+                      {item.sku && <span className="text-gray-500"> ({item.sku})</span>}
+                      <div className="text-gray-600">{item.quantity} × ${item.unit_price}</div>
+                    </div>
+                    {item.disposition && (
+                      <Badge variant="outline">{item.disposition === "restock" ? "Restocked" : "Scrapped"}</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {selectedReturn.reviewed_by_name && (
+                <div>
+                  <div className="text-gray-600">
+                    Reviewed by {selectedReturn.reviewed_by_name}
+                    {selectedReturn.reviewed_at && ` on ${formatDate(selectedReturn.reviewed_at)}`}
+                  </div>
+                  {selectedReturn.review_notes && <div>{selectedReturn.review_notes}</div>}
+                </div>
+              )}
+              {selectedReturn.status === "received" && (
+                <div>
+                  <div className="text-gray-600">
+                    Received by {selectedReturn.received_by_name}
+                    {selectedReturn.received_at && ` on ${formatDate(selectedReturn.received_at)}`}
+                    {` · $${selectedReturn.credit_amount.toLocaleString()} credited`}
+                  </div>
+                  {selectedReturn.receipt_notes && <div>{selectedReturn.receipt_notes}</div>}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Review Return Modal */}
+      <Dialog open={!!review} onOpenChange={(open) => !open && setReview(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{review?.decision === "approve" ? "Approve Return" : "Reject Return"}</DialogTitle>
+            <DialogDescription>
+              Return {review?.rma.rma_number} for order {review?.rma.order_number}: {review?.rma.reason}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="review-notes">{review?.decision === "reject" ? "Reason" : "Notes (Optional)"}</Label>
+            <Textarea
+              id="review-notes"
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReview(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReview}
+              disabled={submitting}
+              className={review?.decision === "approve" ? "bg-blue-600 hover:bg-blue-700" : "bg-red-600 hover:bg-red-700"}
+            >
+              {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              {review?.decision === "approve" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive Return Modal */}
+      <Dialog open={!!receiveReturn} onOpenChange={(open) => !open && setReceiveReturn(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Receive Return</DialogTitle>
+            <DialogDescription>
+              Return {receiveReturn?.rma_number}. Restocked units go back on the shelf; every unit is credited to order {receiveReturn?.order_number}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              {(receiveReturn?.items || []).map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                  <div>
+                    <div className="font-medium">{item.product_name}</div>
+                    <div className="text-xs text-gray-500">{item.quantity} × ${item.unit_price}</div>
+                  </div>
+                  <Select
+                    value={receiveForm.dispositions[item.id]}
+                    onValueChange={(value: "restock" | "scrap") => setReceiveForm(prev => ({
+                      ...prev,
+                      dispositions: { ...prev.dispositions, [item.id]: value }
+                    }))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="restock">Restock</SelectItem>
+                      <SelectItem value="scrap">Scrap</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label htmlFor="receive-notes">Notes (Optional)</Label>
+              <Textarea
+                id="receive-notes"
+                value={receiveForm.notes}
+                onChange={(e) => setReceiveForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceiveReturn(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={submitting} className="bg-green-600 hover:bg-green-700">
+              {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Receive Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
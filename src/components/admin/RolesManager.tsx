@@ -0,0 +1,342 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ShieldCheck, Plus, Edit, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface Role {
+  id: number;
+  name: string;
+  label: string;
+  description?: string;
+  is_system: boolean;
+  permissions: string[];
+  user_count: number;
+}
+
+interface Permission {
+  key: string;
+  description: string;
+}
+
+interface RoleFormData {
+  name: string;
+  label: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_FORM: RoleFormData = {
+  name: "",
+  label: "",
+  description: "",
+  permissions: []
+};
+
+export const RolesManager = () => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "roles.manage");
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedRole, setSelectedRole] = useState<Role | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<RoleFormData>(EMPTY_FORM);
+  const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; role: Role | null }>({ open: false, role: null });
+
+  // Fetch roles from backend
+  const fetchRoles = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/roles");
+      if (response.ok) {
+        const data = await response.json();
+        setRoles(data.roles || []);
+      } else {
+        toast.error("Failed to fetch roles");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch the permissions a role can be granted
+  const fetchPermissions = async () => {
+    try {
+      const response = await apiFetch("/roles/permissions");
+      if (response.ok) {
+        const data = await response.json();
+        setPermissions(data.permissions || []);
+      } else {
+        console.error("Failed to fetch permissions");
+      }
+    } catch (error) {
+      console.error("Network error fetching permissions");
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+    fetchPermissions();
+  }, []);
+
+  const handleInputChange = (field: keyof Omit<RoleFormData, "permissions">, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const togglePermission = (permission: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      permissions: checked
+        ? [...prev.permissions, permission]
+        : prev.permissions.filter(p => p !== permission)
+    }));
+  };
+
+  const openAddModal = () => {
+    setSelectedRole(null);
+    setFormData(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEditModal = (role: Role) => {
+    setSelectedRole(role);
+    setFormData({
+      name: role.name,
+      label: role.label,
+      description: role.description || "",
+      permissions: role.permissions
+    });
+    setShowForm(true);
+  };
+
+  // The admin role always holds every permission, so only its label and description are editable
+  const isAdminRole = selectedRole?.name === "admin";
+
+  // Create or update role
+  const handleSaveRole = async () => {
+    if (!formData.label.trim()) {
+      toast.error("Role label is required");
+      return;
+    }
+
+    try {
+      const response = await apiFetch(selectedRole ? `/roles/${selectedRole.id}` : "/roles", {
+        method: selectedRole ? "PUT" : "POST",
+        body: JSON.stringify({
+          name: selectedRole ? undefined : formData.name.trim(),
+          label: formData.label.trim(),
+          description: formData.description,
+          permissions: isAdminRole ? undefined : formData.permissions
+        })
+      });
+
+      if (response.ok) {
+        toast.success(selectedRole ? "Role updated successfully" : "Role added successfully");
+        setShowForm(false);
+        fetchRoles();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to save role");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Delete role
+  const handleDeleteRole = async (roleId: number) => {
+    try {
+      const response = await apiFetch(`/roles/${roleId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("Role deleted successfully");
+        fetchRoles();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete role");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading roles...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Roles</h3>
+        {canManage && (
+          <Button onClick={openAddModal} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Role
+          </Button>
+        )}
+      </div>
+
+      {/* Roles List */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {roles.map((role) => (
+          <Card key={role.id} className="hover:shadow-md transition-shadow">
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <CardTitle className="text-lg">{role.label}</CardTitle>
+                {role.is_system && <Badge variant="secondary">System</Badge>}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600">{role.description || "No description"}</p>
+              <div className="flex flex-wrap gap-1 mt-3">
+                {role.name === "admin" ? (
+                  <Badge variant="outline">All permissions</Badge>
+                ) : role.permissions.length > 0 ? (
+                  role.permissions.map((permission) => (
+                    <Badge key={permission} variant="outline">{permission}</Badge>
+                  ))
+                ) : (
+                  <span className="text-sm text-gray-500">No permissions</span>
+                )}
+              </div>
+              <div className="text-sm text-gray-600 mt-3">{role.user_count} users</div>
+              {canManage && (
+                <div className="mt-4 flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEditModal(role)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmDelete({ open: true, role })}
+                    disabled={role.is_system || role.user_count > 0}
+                    title={role.is_system ? "System roles cannot be deleted" : role.user_count > 0 ? "Reassign this role's users first" : undefined}
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {roles.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <ShieldCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No roles yet</h3>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add / Edit Role Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedRole ? "Edit Role" : "Add New Role"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to every user with this role on their next request.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="role-label">Label</Label>
+                <Input
+                  id="role-label"
+                  value={formData.label}
+                  onChange={(e) => handleInputChange("label", e.target.value)}
+                  placeholder="e.g. Storekeeper"
+                />
+              </div>
+              <div>
+                <Label htmlFor="role-name">Name</Label>
+                <Input
+                  id="role-name"
+                  value={formData.name}
+                  onChange={(e) => handleInputChange("name", e.target.value)}
+                  placeholder="e.g. storekeeper"
+                  disabled={!!selectedRole}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="role-description">Description</Label>
+              <Textarea
+                id="role-description"
+                value={formData.description}
+                onChange={(e) => handleInputChange("description", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Permissions</Label>
+              {isAdminRole ? (
+                <p className="text-sm text-gray-600 mt-1">Administrators always have every permission.</p>
+              ) : (
+                <div className="border rounded-md p-3 space-y-2 mt-1">
+                  {permissions.map((permission) => (
+                    <div key={permission.key} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`permission-${permission.key}`}
+                        checked={formData.permissions.includes(permission.key)}
+                        onCheckedChange={(checked) => togglePermission(permission.key, checked === true)}
+                      />
+                      <Label htmlFor={`permission-${permission.key}`} className="font-normal leading-tight">
+                        <span className="font-medium">{permission.key}</span>
+                        <span className="block text-xs text-gray-500">{permission.description}</span>
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveRole}>{selectedRole ? "Update Role" : "Add Role"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        open={confirmDelete.open}
+        title="Delete Role?"
+        description={`Are you sure you want to delete "${confirmDelete.role?.label}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDelete({ open: false, role: null })}
+        onConfirm={() => {
+          if (confirmDelete.role) handleDeleteRole(confirmDelete.role.id);
+          setConfirmDelete({ open: false, role: null });
+        }}
+      />
+    </div>
+  );
+};
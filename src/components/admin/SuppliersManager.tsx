@@ -0,0 +1,332 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Truck, Plus, Edit, Trash2, Mail, Phone, User } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface Supplier {
+  id: number;
+  name: string;
+  contact_name?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  notes?: string;
+  status: string;
+  purchase_order_count: number;
+  open_purchase_orders: number;
+}
+
+interface SupplierFormData {
+  name: string;
+  contact_name: string;
+  email: string;
+  phone: string;
+  address: string;
+  notes: string;
+  status: string;
+}
+
+const EMPTY_FORM: SupplierFormData = {
+  name: "",
+  contact_name: "",
+  email: "",
+  phone: "",
+  address: "",
+  notes: "",
+  status: "active"
+};
+
+export const SuppliersManager = () => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "purchasing.manage");
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<SupplierFormData>(EMPTY_FORM);
+  const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; supplier: Supplier | null }>({ open: false, supplier: null });
+
+  // Fetch suppliers from backend
+  const fetchSuppliers = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/suppliers");
+      if (response.ok) {
+        const data = await response.json();
+        setSuppliers(data.suppliers || []);
+      } else {
+        toast.error("Failed to fetch suppliers");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const handleInputChange = (field: keyof SupplierFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openAddModal = () => {
+    setSelectedSupplier(null);
+    setFormData(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEditModal = (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      contact_name: supplier.contact_name || "",
+      email: supplier.email || "",
+      phone: supplier.phone || "",
+      address: supplier.address || "",
+      notes: supplier.notes || "",
+      status: supplier.status
+    });
+    setShowForm(true);
+  };
+
+  // Create or update supplier
+  const handleSaveSupplier = async () => {
+    if (!formData.name.trim()) {
+      toast.error("Supplier name is required");
+      return;
+    }
+
+    try {
+      const response = await apiFetch(selectedSupplier ? `/suppliers/${selectedSupplier.id}` : "/suppliers", {
+        method: selectedSupplier ? "PUT" : "POST",
+        body: JSON.stringify({ ...formData, name: formData.name.trim() })
+      });
+
+      if (response.ok) {
+        toast.success(selectedSupplier ? "Supplier updated successfully" : "Supplier added successfully");
+        setShowForm(false);
+        fetchSuppliers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to save supplier");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Delete supplier
+  const handleDeleteSupplier = async (supplierId: number) => {
+    try {
+      const response = await apiFetch(`/suppliers/${supplierId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("Supplier deleted successfully");
+        fetchSuppliers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete supplier");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading suppliers...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold text-gray-900">Suppliers</h3>
+        {canManage && (
+          <Button onClick={openAddModal} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Supplier
+          </Button>
+        )}
+      </div>
+
+      {/* Suppliers List */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {suppliers.map((supplier) => (
+          <Card key={supplier.id} className="hover:shadow-md transition-shadow">
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <CardTitle className="text-lg">{supplier.name}</CardTitle>
+                {supplier.status === "active"
+                  ? <Badge className="bg-green-100 text-green-800">Active</Badge>
+                  : <Badge variant="secondary">Inactive</Badge>}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-1 text-sm text-gray-600">
+                {supplier.contact_name && (
+                  <div className="flex items-center gap-2"><User className="h-4 w-4" />{supplier.contact_name}</div>
+                )}
+                {supplier.email && (
+                  <div className="flex items-center gap-2"><Mail className="h-4 w-4" />{supplier.email}</div>
+                )}
+                {supplier.phone && (
+                  <div className="flex items-center gap-2"><Phone className="h-4 w-4" />{supplier.phone}</div>
+                )}
+              </div>
+              <div className="text-sm text-gray-600 mt-3">
+                {supplier.purchase_order_count} purchase orders &middot; {supplier.open_purchase_orders} open
+              </div>
+              {canManage && (
+                <div className="mt-4 flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEditModal(supplier)}>
+                    <Edit className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setConfirmDelete({ open: true, supplier })}
+                    disabled={supplier.purchase_order_count > 0}
+                    title={supplier.purchase_order_count > 0 ? "Suppliers with purchase orders can only be marked inactive" : undefined}
+                    className="text-red-600 border-red-300 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {suppliers.length === 0 && (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Truck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No suppliers yet</h3>
+            <p className="text-gray-600">Add a supplier before raising purchase orders.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add / Edit Supplier Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedSupplier ? "Edit Supplier" : "Add New Supplier"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="supplier-name">Supplier Name</Label>
+              <Input
+                id="supplier-name"
+                value={formData.name}
+                onChange={(e) => handleInputChange("name", e.target.value)}
+                placeholder="Enter supplier name"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="supplier-contact">Contact Person</Label>
+                <Input
+                  id="supplier-contact"
+                  value={formData.contact_name}
+                  onChange={(e) => handleInputChange("contact_name", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="supplier-status">Status</Label>
+                <Select value={formData.status} onValueChange={(value) => handleInputChange("status", value)}>
+                  <SelectTrigger id="supplier-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="inactive">Inactive</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="supplier-email">Email</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => handleInputChange("email", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input
+                  id="supplier-phone"
+                  value={formData.phone}
+                  onChange={(e) => handleInputChange("phone", e.target.value)}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="supplier-address">Address</Label>
+              <Textarea
+                id="supplier-address"
+                value={formData.address}
+                onChange={(e) => handleInputChange("address", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-notes">Notes</Label>
+              <Textarea
+                id="supplier-notes"
+                value={formData.notes}
+                onChange={(e) => handleInputChange("notes", e.target.value)}
+                placeholder="Payment terms, lead times, etc."
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSupplier}>{selectedSupplier ? "Update Supplier" : "Add Supplier"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        open={confirmDelete.open}
+        title="Delete Supplier?"
+        description={`Are you sure you want to delete "${confirmDelete.supplier?.name}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDelete({ open: false, supplier: null })}
+        onConfirm={() => {
+          if (confirmDelete.supplier) handleDeleteSupplier(confirmDelete.supplier.id);
+          setConfirmDelete({ open: false, supplier: null });
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,339 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Percent, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+
+interface TaxRate {
+  id: number;
+  name: string;
+  rate: number;
+  category_id: number | null;
+  category_name: string | null;
+  region: string | null;
+}
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+interface TaxRateFormData {
+  name: string;
+  rate: string;
+  category_id: string;
+  region: string;
+}
+
+const EMPTY_FORM: TaxRateFormData = {
+  name: "",
+  rate: "",
+  category_id: "all",
+  region: ""
+};
+
+export const TaxRatesManager = () => {
+  const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const canManage = hasPermission(user, "pricing.manage");
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedRate, setSelectedRate] = useState<TaxRate | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<TaxRateFormData>(EMPTY_FORM);
+  const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; taxRate: TaxRate | null }>({ open: false, taxRate: null });
+
+  // Fetch tax rates from backend
+  const fetchTaxRates = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/tax-rates");
+      if (response.ok) {
+        const data = await response.json();
+        setTaxRates(data.tax_rates || []);
+      } else {
+        toast.error("Failed to fetch tax rates");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    try {
+      const response = await apiFetch("/categories");
+      if (response.ok) {
+        const data = await response.json();
+        setCategories(data.categories || []);
+      } else {
+        console.error("Failed to fetch categories");
+      }
+    } catch (error) {
+      console.error("Network error fetching categories");
+    }
+  };
+
+  useEffect(() => {
+    fetchTaxRates();
+    if (canManage) fetchCategories();
+  }, []);
+
+  const openAddModal = () => {
+    setSelectedRate(null);
+    setFormData(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const openEditModal = (taxRate: TaxRate) => {
+    setSelectedRate(taxRate);
+    setFormData({
+      name: taxRate.name,
+      rate: taxRate.rate.toString(),
+      category_id: taxRate.category_id ? taxRate.category_id.toString() : "all",
+      region: taxRate.region || ""
+    });
+    setShowForm(true);
+  };
+
+  // Create or update tax rate
+  const handleSaveTaxRate = async () => {
+    if (!formData.name.trim()) {
+      toast.error("Tax rate name is required");
+      return;
+    }
+
+    const rate = parseFloat(formData.rate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast.error("Rate must be a percentage between 0 and 100");
+      return;
+    }
+
+    try {
+      const response = await apiFetch(selectedRate ? `/tax-rates/${selectedRate.id}` : "/tax-rates", {
+        method: selectedRate ? "PUT" : "POST",
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          rate,
+          category_id: formData.category_id === "all" ? null : parseInt(formData.category_id),
+          region: formData.region.trim() || null
+        })
+      });
+
+      if (response.ok) {
+        toast.success(selectedRate ? "Tax rate updated successfully" : "Tax rate added successfully");
+        setShowForm(false);
+        fetchTaxRates();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to save tax rate");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Delete tax rate
+  const handleDeleteTaxRate = async (taxRateId: number) => {
+    try {
+      const response = await apiFetch(`/tax-rates/${taxRateId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("Tax rate deleted successfully");
+        fetchTaxRates();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete tax rate");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const hasDefaultRate = taxRates.some(taxRate => !taxRate.category_id && !taxRate.region);
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-2 text-gray-600">Loading tax rates...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Tax Rates</h3>
+          <p className="text-sm text-gray-600">
+            Each order line is taxed at the most specific rate for its category and delivery region.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={openAddModal} className="bg-blue-600 hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Tax Rate
+          </Button>
+        )}
+      </div>
+
+      {!hasDefaultRate && (
+        <div className="text-sm text-orange-800 bg-orange-50 p-3 rounded">
+          There is no default rate, so lines without a matching category or region rate are not taxed.
+        </div>
+      )}
+
+      {taxRates.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Percent className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No tax rates</h3>
+            <p className="text-gray-600">Orders are placed without tax until a rate is added.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Delivery Region</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taxRates.map((taxRate) => (
+                  <TableRow key={taxRate.id}>
+                    <TableCell>
+                      {taxRate.name}
+                      {!taxRate.category_id && !taxRate.region && (
+                        <Badge variant="secondary" className="ml-2">Default</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{taxRate.rate}%</TableCell>
+                    <TableCell>{taxRate.category_name || "All categories"}</TableCell>
+                    <TableCell>{taxRate.region || "All regions"}</TableCell>
+                    <TableCell className="text-right">
+                      {canManage && (
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => openEditModal(taxRate)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setConfirmDelete({ open: true, taxRate })}
+                            className="text-red-600 border-red-300 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add / Edit Tax Rate Modal */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedRate ? "Edit Tax Rate" : "Add Tax Rate"}</DialogTitle>
+            <DialogDescription>
+              Leave the category and region open for a default rate. Orders already placed keep the rate they were charged.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="tax-rate-name">Name</Label>
+              <Input
+                id="tax-rate-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. Virginia sales tax"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax-rate-rate">Rate (%)</Label>
+              <Input
+                id="tax-rate-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                value={formData.rate}
+                onChange={(e) => setFormData(prev => ({ ...prev, rate: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax-rate-category">Category</Label>
+              <Select value={formData.category_id} onValueChange={(value) => setFormData(prev => ({ ...prev, category_id: value }))}>
+                <SelectTrigger id="tax-rate-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id.toString()}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="tax-rate-region">Delivery Region</Label>
+              <Input
+                id="tax-rate-region"
+                value={formData.region}
+                onChange={(e) => setFormData(prev => ({ ...prev, region: e.target.value }))}
+                placeholder="All regions"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTaxRate}>{selectedRate ? "Update Tax Rate" : "Add Tax Rate"}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        open={confirmDelete.open}
+        title="Delete Tax Rate?"
+        description={`Are you sure you want to delete "${confirmDelete.taxRate?.name}"? Orders already placed keep the tax they were charged.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDelete({ open: false, taxRate: null })}
+        onConfirm={() => {
+          if (confirmDelete.taxRate) handleDeleteTaxRate(confirmDelete.taxRate.id);
+          setConfirmDelete({ open: false, taxRate: null });
+        }}
+      />
+    </div>
+  );
+};
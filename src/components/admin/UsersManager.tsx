@@ -0,0 +1,620 @@
+import { useState, useEffect, useContext } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Users, Search, Edit, Trash2, KeyRound, Ban, CheckCircle } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { PaginationControls } from "@/components/ui/PaginationControls";
+
+interface User {
+  id: number;
+  username: string;
+  email: string;
+  role: string;
+  role_label?: string;
+  name: string;
+  agency_id?: number | null;
+  agency_role?: string | null;
+  agency_name?: string;
+  phone?: string;
+  address?: string;
+  status: string;
+  order_count: number;
+  created_at: string;
+}
+
+interface UserFormData {
+  name: string;
+  email: string;
+  role: string;
+  agency_id: string;
+  agency_role: string;
+  phone: string;
+  address: string;
+}
+
+interface Agency {
+  id: number;
+  name: string;
+}
+
+interface Role {
+  name: string;
+  label: string;
+}
+
+const AGENCY_ROLE_LABELS: Record<string, string> = {
+  requester: "Requester",
+  approver: "Approver",
+  viewer: "Viewer"
+};
+
+const PAGE_SIZE = 20;
+
+export const UsersManager = () => {
+  const { apiFetch } = useApi();
+  const { user: currentUser } = useContext(AuthContext);
+  const canManage = hasPermission(currentUser, "users.manage");
+  // Only administrators may grant the admin role or change admin accounts
+  const isAdmin = currentUser?.role === "admin";
+  const [users, setUsers] = useState<User[]>([]);
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [roleFilter, setRoleFilter] = useState("all");
+  const [agencyFilter, setAgencyFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalUsers, setTotalUsers] = useState(0);
+  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [showEdit, setShowEdit] = useState(false);
+  const [formData, setFormData] = useState<UserFormData>({
+    name: "",
+    email: "",
+    role: "agency",
+    agency_id: "none",
+    agency_role: "requester",
+    phone: "",
+    address: ""
+  });
+  const [showResetPassword, setShowResetPassword] = useState(false);
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState<{ open: boolean; user: User | null }>({ open: false, user: null });
+  const [confirmDisable, setConfirmDisable] = useState<{ open: boolean; user: User | null }>({ open: false, user: null });
+
+  // Fetch a page of users from backend
+  const fetchUsers = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+      if (roleFilter !== "all") params.set("role", roleFilter);
+      if (agencyFilter !== "all") params.set("agency_id", agencyFilter);
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (searchTerm) params.set("search", searchTerm);
+
+      const response = await apiFetch(`/users?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users || []);
+        setTotalPages(Math.max(data.pagination?.pages || 1, 1));
+        setTotalUsers(data.pagination?.total || 0);
+      } else {
+        toast.error("Failed to fetch users");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fetch agencies for the filter and edit form
+  const fetchAgencies = async () => {
+    try {
+      const response = await apiFetch("/agencies");
+      if (response.ok) {
+        const data = await response.json();
+        setAgencies(data.agencies || []);
+      } else {
+        console.error("Failed to fetch agencies");
+      }
+    } catch (error) {
+      console.error("Network error fetching agencies");
+    }
+  };
+
+  // Fetch roles for the filter and edit form
+  const fetchRoles = async () => {
+    try {
+      const response = await apiFetch("/roles");
+      if (response.ok) {
+        const data = await response.json();
+        setRoles(data.roles || []);
+      } else {
+        console.error("Failed to fetch roles");
+      }
+    } catch (error) {
+      console.error("Network error fetching roles");
+    }
+  };
+
+  useEffect(() => {
+    fetchAgencies();
+    fetchRoles();
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [page, roleFilter, agencyFilter, statusFilter, searchTerm]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearchTerm(searchInput.trim());
+    setPage(1);
+  };
+
+  const handleInputChange = (field: keyof UserFormData, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const openEditModal = (user: User) => {
+    setSelectedUser(user);
+    setFormData({
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      agency_id: user.agency_id?.toString() || "none",
+      agency_role: user.agency_role || "requester",
+      phone: user.phone || "",
+      address: user.address || ""
+    });
+    setShowEdit(true);
+  };
+
+  const openResetPasswordModal = (user: User) => {
+    setSelectedUser(user);
+    setNewPassword("");
+    setShowResetPassword(true);
+  };
+
+  // Update user profile
+  const handleEditUser = async () => {
+    if (!selectedUser) return;
+
+    const isAgencyUser = formData.role === "agency";
+    if (isAgencyUser && formData.agency_id === "none") {
+      toast.error("Select the agency this user belongs to");
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/users/${selectedUser.id}`, {
+        method: "PUT",
+        body: JSON.stringify({
+          ...formData,
+          name: formData.name.trim(),
+          email: formData.email.trim(),
+          agency_id: isAgencyUser ? parseInt(formData.agency_id) : null,
+          agency_role: isAgencyUser ? formData.agency_role : null
+        })
+      });
+
+      if (response.ok) {
+        toast.success("User updated successfully");
+        setShowEdit(false);
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to update user");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Disable or enable an account
+  const handleStatusChange = async (user: User, status: string) => {
+    try {
+      const response = await apiFetch(`/users/${user.id}/status`, {
+        method: "PATCH",
+        body: JSON.stringify({ status })
+      });
+
+      if (response.ok) {
+        toast.success(status === "disabled" ? `${user.name} has been disabled` : `${user.name} has been enabled`);
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to update account status");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Set a new password; the user is signed out everywhere
+  const handleResetPassword = async () => {
+    if (!selectedUser) return;
+
+    try {
+      const response = await apiFetch(`/users/${selectedUser.id}/reset-password`, {
+        method: "POST",
+        body: JSON.stringify({ password: newPassword })
+      });
+
+      if (response.ok) {
+        toast.success(`Password reset for ${selectedUser.name}`);
+        setShowResetPassword(false);
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to reset password");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  // Delete user
+  const handleDeleteUser = async (userId: number) => {
+    try {
+      const response = await apiFetch(`/users/${userId}`, {
+        method: "DELETE"
+      });
+
+      if (response.ok) {
+        toast.success("User deleted successfully");
+        fetchUsers();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || "Failed to delete user");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "active": return <Badge className="bg-green-100 text-green-800">Active</Badge>;
+      case "disabled": return <Badge className="bg-red-100 text-red-800">Disabled</Badge>;
+      default: return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h3 className="text-xl font-semibold text-gray-900">Users</h3>
+
+      {/* Search and Filter */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <form onSubmit={handleSearch} className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search by name, username, email or agency..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </form>
+            <Select value={roleFilter} onValueChange={(value) => { setRoleFilter(value); setPage(1); }}>
+              <SelectTrigger className="md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Roles</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={agencyFilter} onValueChange={(value) => { setAgencyFilter(value); setPage(1); }}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Agencies</SelectItem>
+                {agencies.map((agency) => (
+                  <SelectItem key={agency.id} value={agency.id.toString()}>{agency.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1); }}>
+              <SelectTrigger className="md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="disabled">Disabled</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Users List */}
+      {loading ? (
+        <div className="text-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Loading users...</p>
+        </div>
+      ) : users.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No users found</h3>
+            <p className="text-gray-600">Try adjusting your search or filters.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Agency</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Orders</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => {
+                  const isCurrentUser = user.id === currentUser?.id;
+                  return (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">
+                        {user.name}
+                        {isCurrentUser && <span className="text-xs text-gray-500 ml-1">(you)</span>}
+                      </TableCell>
+                      <TableCell>{user.username}</TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>{user.role_label || user.role}</TableCell>
+                      <TableCell>
+                        {user.agency_name || "—"}
+                        {user.agency_role && (
+                          <div className="text-xs text-gray-500">{AGENCY_ROLE_LABELS[user.agency_role]}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(user.status)}</TableCell>
+                      <TableCell>{user.order_count}</TableCell>
+                      <TableCell>
+                        {canManage && (isAdmin || user.role !== "admin") && (
+                          <div className="flex gap-1 justify-end">
+                            <Button variant="ghost" size="sm" onClick={() => openEditModal(user)} title="Edit">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => openResetPasswordModal(user)} title="Reset password">
+                              <KeyRound className="h-4 w-4" />
+                            </Button>
+                            {user.status === "active" ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setConfirmDisable({ open: true, user })}
+                                disabled={isCurrentUser}
+                                title="Disable account"
+                                className="text-orange-600"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleStatusChange(user, "active")}
+                                title="Enable account"
+                                className="text-green-600"
+                              >
+                                <CheckCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setConfirmDelete({ open: true, user })}
+                              disabled={isCurrentUser}
+                              title="Delete"
+                              className="text-red-600"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <PaginationControls
+        page={page}
+        totalPages={totalPages}
+        totalItems={totalUsers}
+        itemLabel="users"
+        onPageChange={setPage}
+      />
+
+      {/* Edit User Modal */}
+      <Dialog open={showEdit} onOpenChange={setShowEdit}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit User</DialogTitle>
+            <DialogDescription>{selectedUser?.username}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="user-name">Name</Label>
+                <Input
+                  id="user-name"
+                  value={formData.name}
+                  onChange={(e) => handleInputChange("name", e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="user-email">Email</Label>
+                <Input
+                  id="user-email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => handleInputChange("email", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="user-role">Role</Label>
+                <Select
+                  value={formData.role}
+                  onValueChange={(value) => handleInputChange("role", value)}
+                  disabled={selectedUser?.id === currentUser?.id}
+                >
+                  <SelectTrigger id="user-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.filter(role => isAdmin || role.name !== "admin").map((role) => (
+                      <SelectItem key={role.name} value={role.name}>{role.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.role === "agency" && (
+                <div>
+                  <Label htmlFor="user-agency-role">Agency Role</Label>
+                  <Select value={formData.agency_role} onValueChange={(value) => handleInputChange("agency_role", value)}>
+                    <SelectTrigger id="user-agency-role">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(AGENCY_ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {formData.role === "agency" && (
+              <div>
+                <Label htmlFor="user-agency">Agency</Label>
+                <Select value={formData.agency_id} onValueChange={(value) => handleInputChange("agency_id", value)}>
+                  <SelectTrigger id="user-agency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Select an agency</SelectItem>
+                    {agencies.map((agency) => (
+                      <SelectItem key={agency.id} value={agency.id.toString()}>{agency.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="user-phone">Phone</Label>
+              <Input
+                id="user-phone"
+                value={formData.phone}
+                onChange={(e) => handleInputChange("phone", e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="user-address">Address</Label>
+              <Textarea
+                id="user-address"
+                value={formData.address}
+                onChange={(e) => handleInputChange("address", e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowEdit(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleEditUser}>Update User</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Modal */}
+      <Dialog open={showResetPassword} onOpenChange={setShowResetPassword}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a new password for {selectedUser?.name}. They will be signed out of all devices.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="new-password">New Password</Label>
+            <Input
+              id="new-password"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              placeholder="At least 6 characters"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowResetPassword(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleResetPassword} disabled={newPassword.length < 6}>Reset Password</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Confirm Disable Dialog */}
+      <ConfirmDialog
+        open={confirmDisable.open}
+        title="Disable Account?"
+        description={`${confirmDisable.user?.name} will be signed out and unable to log in until the account is enabled again.`}
+        confirmLabel="Disable"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDisable({ open: false, user: null })}
+        onConfirm={() => {
+          if (confirmDisable.user) handleStatusChange(confirmDisable.user, "disabled");
+          setConfirmDisable({ open: false, user: null });
+        }}
+      />
+
+      {/* Confirm Delete Dialog */}
+      <ConfirmDialog
+        open={confirmDelete.open}
+        title="Delete User?"
+        description={`Are you sure you want to delete "${confirmDelete.user?.name}"? This action cannot be undone.`}
+        confirmLabel="Delete"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmDelete({ open: false, user: null })}
+        onConfirm={() => {
+          if (confirmDelete.user) handleDeleteUser(confirmDelete.user.id);
+          setConfirmDelete({ open: false, user: null });
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import { useState, useEffect, useContext } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Building2 } from "lucide-react";
+import { toast } from "sonner";
+import { AuthContext } from "@/context/AuthContext";
+
+interface Invitation {
+  email: string;
+  role: string;
+  role_label?: string;
+  agency_name?: string;
+  agency_role?: string;
+  expires_at: string;
+}
+
+interface AcceptInvitationFormProps {
+  token: string;
+}
+
+export const AcceptInvitationForm = ({ token }: AcceptInvitationFormProps) => {
+  const navigate = useNavigate();
+  const { login } = useContext(AuthContext);
+  const [invitation, setInvitation] = useState<Invitation | null>(null);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    username: "",
+    name: "",
+    password: "",
+    confirm_password: ""
+  });
+  const [loading, setLoading] = useState(false);
+
+  // Check the invitation before asking for details
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      if (!token) {
+        setLookupError("This invitation link is incomplete.");
+        return;
+      }
+      try {
+        const res = await fetch(`/api/auth/invitations/${encodeURIComponent(token)}`);
+        const data = await res.json();
+        if (res.ok) {
+          setInvitation(data.invitation);
+        } else {
+          setLookupError(data.error || "Invitation is invalid or has expired");
+        }
+      } catch (err) {
+        setLookupError("Network error");
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm({ ...form, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.password !== form.confirm_password) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token,
+          username: form.username,
+          name: form.name,
+          password: form.password
+        })
+      });
+      const data = await res.json();
+      if (res.ok) {
+        toast.success("Account created. Welcome!");
+        login(data.token, data.refresh_token, data.user);
+        navigate("/", { replace: true });
+      } else {
+        toast.error(data.error || data.errors?.[0]?.msg || "Registration failed");
+      }
+    } catch (err) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center gap-2 text-2xl font-bold text-blue-800 mb-2">
+            <Building2 className="h-8 w-8" />
+            ADRDE Inventory
+          </div>
+          <p className="text-gray-600">Defence Management System</p>
+        </div>
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-center">Accept Invitation</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {lookupError ? (
+              <div className="text-center space-y-4">
+                <p className="text-red-600">{lookupError}</p>
+                <p className="text-sm text-gray-600">Ask an administrator to send you a new invitation.</p>
+                <Button variant="outline" onClick={() => navigate("/")}>Go to Login</Button>
+              </div>
+            ) : !invitation ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+                <p className="mt-2 text-gray-600">Checking invitation...</p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="rounded-md bg-gray-50 p-3 text-sm space-y-1">
+                  <div><b>Email:</b> {invitation.email}</div>
+                  <div className="flex items-center gap-2">
+                    <b>Role:</b>
+                    <Badge variant="outline">{invitation.role_label || invitation.role}</Badge>
+                  </div>
+                  {invitation.agency_name && (
+                    <div>
+                      <b>Agency:</b> {invitation.agency_name}
+                      {invitation.agency_role && <span className="capitalize"> ({invitation.agency_role})</span>}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    name="username"
+                    type="text"
+                    placeholder="Choose a username"
+                    value={form.username}
+                    onChange={handleChange}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    name="name"
+                    type="text"
+                    placeholder="Enter your name"
+                    value={form.name}
+                    onChange={handleChange}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    name="password"
+                    type="password"
+                    placeholder="At least 6 characters"
+                    value={form.password}
+                    onChange={handleChange}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="confirm_password">Confirm Password</Label>
+                  <Input
+                    id="confirm_password"
+                    name="confirm_password"
+                    type="password"
+                    placeholder="Repeat your password"
+                    value={form.confirm_password}
+                    onChange={handleChange}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full bg-green-600 hover:bg-green-700" disabled={loading}>
+                  {loading ? "Creating account..." : "Create Account"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -4,64 +4,36 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building2, Shield } from "lucide-react";
-import { UserRole } from "@/pages/Index";
+import { Building2 } from "lucide-react";
 import { AuthContext } from "@/context/AuthContext";
 import { toast } from "sonner";
 
-interface LoginFormProps {
-  onLogin: (role: UserRole, name: string) => void;
-  onShowRegister?: () => void;
-}
+export const LoginForm = () => {
+  const [form, setForm] = useState({ username: "", password: "" });
+  const [submitting, setSubmitting] = useState(false);
+  const { login } = useContext(AuthContext);
 
-export const LoginForm = ({ onLogin, onShowRegister }: LoginFormProps) => {
-  const [adminForm, setAdminForm] = useState({ username: "", password: "" });
-  const [agencyForm, setAgencyForm] = useState({ username: "", password: "" });
-  const { setToken } = useContext(AuthContext);
-
-  const handleAdminLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (adminForm.username && adminForm.password) {
-      try {
-        const res = await fetch("/api/auth/login", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ username: adminForm.username, password: adminForm.password })
-        });
-        const data = await res.json();
-        if (res.ok && data.token) {
-          localStorage.setItem("token", data.token);
-          setToken(data.token);
-          onLogin("admin", adminForm.username);
-        } else {
-          toast.error(data.error || "Login failed");
-        }
-      } catch (err) {
-        toast.error("Network error");
-      }
-    }
-  };
-
-  const handleAgencyLogin = async (e: React.FormEvent) => {
+  // The role comes from the account itself, so admins and agencies share one form
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (agencyForm.username && agencyForm.password) {
+    if (form.username && form.password) {
       try {
+        setSubmitting(true);
         const res = await fetch("/api/auth/login", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ username: agencyForm.username, password: agencyForm.password })
+          body: JSON.stringify({ username: form.username, password: form.password })
         });
         const data = await res.json();
         if (res.ok && data.token) {
-          localStorage.setItem("token", data.token);
-          setToken(data.token);
-          onLogin("agency", agencyForm.username);
+          login(data.token, data.refresh_token, data.user);
         } else {
           toast.error(data.error || "Login failed");
         }
       } catch (err) {
         toast.error("Network error");
+      } finally {
+        setSubmitting(false);
       }
     }
   };
@@ -82,90 +54,38 @@ export const LoginForm = ({ onLogin, onShowRegister }: LoginFormProps) => {
             <CardTitle className="text-center">Login to Your Account</CardTitle>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="agency" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="agency" className="flex items-center gap-2">
-                  <Building2 className="h-4 w-4" />
-                  Agency
-                </TabsTrigger>
-                <TabsTrigger value="admin" className="flex items-center gap-2">
-                  <Shield className="h-4 w-4" />
-                  Admin
-                </TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="agency" className="mt-6">
-                <form onSubmit={handleAgencyLogin} className="space-y-4">
-                  <div>
-                    <Label htmlFor="agencyUsername">Username</Label>
-                    <Input
-                      id="agencyUsername"
-                      type="text"
-                      placeholder="Enter your username"
-                      value={agencyForm.username}
-                      onChange={(e) => setAgencyForm({ ...agencyForm, username: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="agencyPassword">Password</Label>
-                    <Input
-                      id="agencyPassword"
-                      type="password"
-                      placeholder="Enter your password"
-                      value={agencyForm.password}
-                      onChange={(e) => setAgencyForm({ ...agencyForm, password: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700">
-                    Login as Agency
-                  </Button>
-                </form>
-              </TabsContent>
-
-              <TabsContent value="admin" className="mt-6">
-                <form onSubmit={handleAdminLogin} className="space-y-4">
-                  <div>
-                    <Label htmlFor="username">Username</Label>
-                    <Input
-                      id="username"
-                      type="text"
-                      placeholder="Enter admin username"
-                      value={adminForm.username}
-                      onChange={(e) => setAdminForm({ ...adminForm, username: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="adminPassword">Password</Label>
-                    <Input
-                      id="adminPassword"
-                      type="password"
-                      placeholder="Enter admin password"
-                      value={adminForm.password}
-                      onChange={(e) => setAdminForm({ ...adminForm, password: e.target.value })}
-                      required
-                    />
-                  </div>
-                  <Button type="submit" className="w-full bg-indigo-600 hover:bg-indigo-700">
-                    Login as Admin
-                  </Button>
-                </form>
-              </TabsContent>
-            </Tabs>
+            <form onSubmit={handleLogin} className="space-y-4">
+              <div>
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="Enter your username"
+                  value={form.username}
+                  onChange={(e) => setForm({ ...form, username: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="Enter your password"
+                  value={form.password}
+                  onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={submitting} className="w-full bg-blue-600 hover:bg-blue-700">
+                {submitting ? "Logging in..." : "Login"}
+              </Button>
+            </form>
           </CardContent>
         </Card>
       </div>
-      <div className="text-center mt-4">
-        <span className="text-sm text-gray-600">Don't have an account? </span>
-        <button
-          type="button"
-          className="text-blue-600 hover:underline text-sm"
-          onClick={onShowRegister}
-        >
-          Register here
-        </button>
+      <div className="text-center mt-4 text-sm text-gray-600">
+        Need an account? Ask an administrator for an invitation.
       </div>
     </div>
   );
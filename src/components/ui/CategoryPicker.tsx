@@ -0,0 +1,76 @@
+import React, { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+export interface CategoryOption {
+  id: number;
+  name: string;
+  product_count?: number;
+}
+
+interface CategoryPickerProps {
+  id?: string;
+  categories: CategoryOption[];
+  // Selected category id as a string, "" when nothing is selected
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+export const CategoryPicker: React.FC<CategoryPickerProps> = ({
+  id,
+  categories,
+  value,
+  onChange,
+  placeholder = "Select category",
+}) => {
+  const [open, setOpen] = useState(false);
+  const selected = categories.find(category => category.id.toString() === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !selected && "text-muted-foreground")}>
+            {selected ? selected.name : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search categories..." />
+          <CommandList>
+            <CommandEmpty>No categories found.</CommandEmpty>
+            <CommandGroup>
+              {categories.map((category) => (
+                <CommandItem
+                  key={category.id}
+                  value={category.name}
+                  onSelect={() => {
+                    onChange(category.id.toString());
+                    setOpen(false);
+                  }}
+                >
+                  <Check
+                    className={cn("mr-2 h-4 w-4", value === category.id.toString() ? "opacity-100" : "opacity-0")}
+                  />
+                  {category.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
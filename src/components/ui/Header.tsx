@@ -1,14 +1,30 @@
-import React from "react";
+import React, { useContext, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Building2, LogOut } from "lucide-react";
+import { Building2, LogOut, MonitorSmartphone } from "lucide-react";
+import { toast } from "sonner";
+import { NotificationFeed } from "@/components/ui/NotificationFeed";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
+import { AuthContext } from "@/context/AuthContext";
 
 interface HeaderProps {
-  user: { name: string; role: string };
-  onLogout: () => void;
   navLinks?: { label: string; onClick: () => void }[];
 }
 
-export const Header: React.FC<HeaderProps> = ({ user, onLogout, navLinks }) => {
+export const Header: React.FC<HeaderProps> = ({ navLinks }) => {
+  const { user, logout, logoutAll } = useContext(AuthContext);
+  const [confirmLogoutAll, setConfirmLogoutAll] = useState(false);
+
+  const handleLogoutAll = async () => {
+    setConfirmLogoutAll(false);
+    if (await logoutAll()) {
+      toast.success("Signed out of all devices");
+    } else {
+      toast.error("Failed to sign out of all devices");
+    }
+  };
+
+  if (!user) return null;
+
   return (
     <header className="bg-white shadow-sm border-b sticky top-0 z-20">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
@@ -16,7 +32,9 @@ export const Header: React.FC<HeaderProps> = ({ user, onLogout, navLinks }) => {
           <Building2 className="h-8 w-8 text-blue-600" />
           <div>
             <h1 className="text-2xl font-bold text-gray-900">ADRDE Inventory</h1>
-            <p className="text-sm text-gray-600">{user.role === "admin" ? "Admin" : "Agency"} &mdash; {user.name}</p>
+            <p className="text-sm text-gray-600">{user.role_label || user.role} &mdash; {user.name}
+              {user.agency_name && user.agency_name !== user.name && ` (${user.agency_name})`}
+            </p>
           </div>
         </div>
         <div className="flex items-center gap-4">
@@ -29,12 +47,31 @@ export const Header: React.FC<HeaderProps> = ({ user, onLogout, navLinks }) => {
               ))}
             </nav>
           )}
-          <Button onClick={onLogout} variant="outline" className="flex items-center gap-2">
+          <NotificationFeed />
+          <Button
+            onClick={() => setConfirmLogoutAll(true)}
+            variant="ghost"
+            size="icon"
+            title="Sign out all devices"
+          >
+            <MonitorSmartphone className="h-4 w-4" />
+          </Button>
+          <Button onClick={logout} variant="outline" className="flex items-center gap-2">
             <LogOut className="h-4 w-4" />
             Logout
           </Button>
         </div>
       </div>
+
+      <ConfirmDialog
+        open={confirmLogoutAll}
+        title="Sign Out All Devices?"
+        description="This ends every session of your account, including this one. You will need to log in again."
+        confirmLabel="Sign Out All"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmLogoutAll(false)}
+        onConfirm={handleLogoutAll}
+      />
     </header>
   );
 }; 
\ No newline at end of file
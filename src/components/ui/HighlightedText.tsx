@@ -0,0 +1,32 @@
+import React from "react";
+
+// Markers the products API wraps around matched search terms in highlights and snippets
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+export const hasHighlight = (text?: string | null) => !!text && text.includes(HIGHLIGHT_START);
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Render search highlights from the API as <mark> elements without trusting the text as HTML
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => {
+  const parts = text.split(HIGHLIGHT_START);
+
+  return (
+    <span className={className}>
+      {parts.map((part, idx) => {
+        if (idx === 0) return part;
+        const [matched, rest = ""] = part.split(HIGHLIGHT_END);
+        return (
+          <React.Fragment key={idx}>
+            <mark className="bg-yellow-100 text-inherit rounded-sm px-0.5">{matched}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </span>
+  );
+};
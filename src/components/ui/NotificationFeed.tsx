@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from "react";
+import { Bell, AlertTriangle, ClipboardCheck, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useApi } from "@/lib/api";
+
+interface Notification {
+  id: number;
+  type: string;
+  title: string;
+  message?: string;
+  product_id?: number;
+  read_at: string | null;
+  created_at: string;
+}
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+export const NotificationFeed: React.FC = () => {
+  const { apiFetch } = useApi();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await apiFetch("/notifications?limit=20");
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+        setUnreadCount(data.unread_count || 0);
+      }
+    } catch (error) {
+      console.error("Network error fetching notifications");
+    }
+  };
+
+  const markRead = async (notification: Notification) => {
+    if (notification.read_at) return;
+    try {
+      const response = await apiFetch(`/notifications/${notification.id}/read`, { method: "PATCH" });
+      if (response.ok) {
+        setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n));
+        setUnreadCount(prev => Math.max(prev - 1, 0));
+      }
+    } catch (error) {
+      console.error("Network error marking notification read");
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      const response = await apiFetch("/notifications/read-all", { method: "PATCH" });
+      if (response.ok) {
+        fetchNotifications();
+      }
+    } catch (error) {
+      console.error("Network error marking notifications read");
+    }
+  };
+
+  // Polls count against the API's per-IP rate limit, so skip them while the tab is in the background
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(() => {
+      if (document.visibilityState === "visible") fetchNotifications();
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <Popover open={open} onOpenChange={(isOpen) => { setOpen(isOpen); if (isOpen) fetchNotifications(); }}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex justify-between items-center px-4 py-3 border-b">
+          <span className="font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <div className="p-6 text-center text-sm text-gray-600">No notifications yet.</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => markRead(notification)}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 ${notification.read_at ? "" : "bg-blue-50"}`}
+              >
+                <div className="flex items-start gap-2">
+                  {notification.type === "low_stock" && <AlertTriangle className="h-4 w-4 text-orange-500 mt-0.5 shrink-0" />}
+                  {notification.type === "approval_request" && <ClipboardCheck className="h-4 w-4 text-blue-500 mt-0.5 shrink-0" />}
+                  {notification.type === "return_request" && <RotateCcw className="h-4 w-4 text-blue-500 mt-0.5 shrink-0" />}
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{notification.title}</div>
+                    {notification.message && <div className="text-xs text-gray-600">{notification.message}</div>}
+                    <div className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString()}</div>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,123 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Package, Truck } from "lucide-react";
+
+export interface FulfillmentItem {
+  id: number;
+  product_name: string;
+  sku?: string;
+  quantity: number;
+  reserved_quantity: number;
+  shipped_quantity: number;
+  backordered_quantity: number;
+  returned_quantity?: number;
+  cancelled_quantity?: number;
+  pending_return_quantity?: number;
+  unit_price: number;
+  total_price: number;
+  tax_rate?: number;
+  tax_amount?: number;
+  price_list_name?: string | null;
+}
+
+export interface Shipment {
+  id: number;
+  shipment_number: string;
+  carrier?: string;
+  tracking_number?: string;
+  notes?: string;
+  shipped_by_name?: string;
+  created_at: string;
+  items: { order_item_id: number; product_name: string; quantity: number }[];
+}
+
+interface OrderFulfillmentProps {
+  items: FulfillmentItem[];
+  shipments?: Shipment[];
+}
+
+// Order lines with how much of each has shipped, is reserved, is backordered, was cancelled and was returned,
+// followed by the shipments that carried them
+export const OrderFulfillment: React.FC<OrderFulfillmentProps> = ({ items, shipments = [] }) => {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {items.map((item) => (
+          <div key={item.id} className="text-sm bg-gray-50 p-3 rounded space-y-2">
+            <div className="flex justify-between items-center">
+              <div className="flex items-center gap-2">
+                <Package className="h-4 w-4 text-gray-500" />
+                <span className="font-medium">{item.product_name}</span>
+                {item.sku && <span className="text-gray-500">({item.sku})</span>}
+              </div>
+              <div className="text-right">
+                <div className="font-semibold">${item.total_price.toLocaleString()}</div>
+                <div className="text-gray-600">
+                  {item.quantity} × ${item.unit_price}
+                </div>
+                {item.price_list_name && (
+                  <div className="text-xs text-green-700">{item.price_list_name}</div>
+                )}
+                {(item.tax_amount ?? 0) > 0 && (
+                  <div className="text-xs text-gray-500">+ ${item.tax_amount.toFixed(2)} tax ({item.tax_rate}%)</div>
+                )}
+              </div>
+            </div>
+            <Progress value={item.quantity > 0 ? (item.shipped_quantity / item.quantity) * 100 : 0} className="h-2" />
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+              <span>Shipped {item.shipped_quantity} of {item.quantity}</span>
+              {item.reserved_quantity > 0 && (
+                <Badge className="bg-blue-100 text-blue-800">{item.reserved_quantity} ready to ship</Badge>
+              )}
+              {item.backordered_quantity > 0 && (
+                <Badge className="bg-orange-100 text-orange-800">{item.backordered_quantity} backordered</Badge>
+              )}
+              {(item.cancelled_quantity ?? 0) > 0 && (
+                <Badge className="bg-red-100 text-red-800">{item.cancelled_quantity} cancelled</Badge>
+              )}
+              {(item.returned_quantity ?? 0) > 0 && (
+                <Badge className="bg-gray-200 text-gray-800">{item.returned_quantity} returned</Badge>
+              )}
+              {(item.pending_return_quantity ?? 0) > 0 && (
+                <Badge className="bg-yellow-100 text-yellow-800">{item.pending_return_quantity} return pending</Badge>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {shipments.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-sm text-gray-700 mb-2">Shipments:</h4>
+          <div className="space-y-2">
+            {shipments.map((shipment) => (
+              <div key={shipment.id} className="text-sm border rounded p-3">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2 font-medium">
+                    <Truck className="h-4 w-4 text-purple-600" />
+                    {shipment.shipment_number}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(shipment.created_at).toLocaleString()}
+                    {shipment.shipped_by_name && ` · ${shipment.shipped_by_name}`}
+                  </div>
+                </div>
+                {(shipment.carrier || shipment.tracking_number) && (
+                  <div className="text-gray-600 mt-1">
+                    {shipment.carrier}{shipment.carrier && shipment.tracking_number && " · "}
+                    {shipment.tracking_number && <span className="font-mono">{shipment.tracking_number}</span>}
+                  </div>
+                )}
+                <div className="text-gray-600 mt-1">
+                  {shipment.items.map((item) => `${item.quantity} × ${item.product_name}`).join(", ")}
+                </div>
+                {shipment.notes && <div className="text-gray-700 mt-1">{shipment.notes}</div>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
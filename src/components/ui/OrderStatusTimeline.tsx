@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from "react";
+import { Loader2 } from "lucide-react";
+import { useApi } from "@/lib/api";
+
+interface StatusHistoryEntry {
+  id: number;
+  from_status: string | null;
+  to_status: string;
+  notes?: string;
+  changed_by_name?: string;
+  created_at: string;
+}
+
+interface OrderStatusTimelineProps {
+  orderId: number;
+  // Changing this value (e.g. the order's current status) reloads the history
+  refreshKey?: string;
+}
+
+const STATUS_LABELS: { [key: string]: string } = {
+  awaiting_agency_approval: "Awaiting Agency Approval",
+  pending: "Pending",
+  approved: "Approved",
+  processing: "Processing",
+  partially_shipped: "Partially Shipped",
+  shipped: "Shipped",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+  rejected: "Rejected"
+};
+
+const STATUS_DOT_COLORS: { [key: string]: string } = {
+  awaiting_agency_approval: "bg-orange-500",
+  pending: "bg-yellow-500",
+  approved: "bg-cyan-500",
+  processing: "bg-blue-500",
+  partially_shipped: "bg-indigo-500",
+  shipped: "bg-purple-500",
+  delivered: "bg-green-500",
+  cancelled: "bg-red-500",
+  rejected: "bg-red-500"
+};
+
+export const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({ orderId, refreshKey }) => {
+  const { apiFetch } = useApi();
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch(`/orders/${orderId}/history`);
+      if (response.ok) {
+        const data = await response.json();
+        setHistory(data.history || []);
+        setError(null);
+      } else {
+        setError("Failed to load status history");
+      }
+    } catch (err) {
+      setError("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [orderId, refreshKey]);
+
+  if (loading && history.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading status history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="text-sm text-red-600">{error}</div>;
+  }
+
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-600">No status changes recorded.</div>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${STATUS_DOT_COLORS[entry.to_status] || "bg-gray-400"}`}
+          />
+          <div className="text-sm font-semibold text-gray-900">
+            {entry.from_status
+              ? `${STATUS_LABELS[entry.from_status] || entry.from_status} → ${STATUS_LABELS[entry.to_status] || entry.to_status}`
+              : STATUS_LABELS[entry.to_status] || entry.to_status}
+          </div>
+          <div className="text-xs text-gray-500">
+            {new Date(entry.created_at).toLocaleString()}
+            {entry.changed_by_name && ` · ${entry.changed_by_name}`}
+          </div>
+          {entry.notes && <div className="text-sm text-gray-700 mt-1">{entry.notes}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+};
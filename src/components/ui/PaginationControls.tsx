@@ -0,0 +1,83 @@
+import React from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination";
+
+interface PaginationControlsProps {
+  page: number;
+  totalPages: number;
+  totalItems?: number;
+  itemLabel?: string;
+  onPageChange: (page: number) => void;
+}
+
+// Page numbers to show: first, last and a window around the current page
+const getVisiblePages = (page: number, totalPages: number) => {
+  const pages: (number | "ellipsis")[] = [];
+  for (let i = 1; i <= totalPages; i++) {
+    if (i === 1 || i === totalPages || Math.abs(i - page) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis");
+    }
+  }
+  return pages;
+};
+
+export const PaginationControls: React.FC<PaginationControlsProps> = ({
+  page,
+  totalPages,
+  totalItems,
+  itemLabel = "items",
+  onPageChange,
+}) => {
+  if (totalPages <= 1) return null;
+
+  return (
+    <div className="flex justify-between items-center">
+      <div className="text-sm text-gray-600">
+        Page {page} of {totalPages}
+        {totalItems !== undefined && <> &middot; {totalItems} {itemLabel}</>}
+      </div>
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              onClick={(e) => { e.preventDefault(); if (page > 1) onPageChange(page - 1); }}
+              className={page <= 1 ? "pointer-events-none opacity-50" : ""}
+            />
+          </PaginationItem>
+          {getVisiblePages(page, totalPages).map((pageNumber, idx) => (
+            <PaginationItem key={`${pageNumber}-${idx}`}>
+              {pageNumber === "ellipsis" ? (
+                <PaginationEllipsis />
+              ) : (
+                <PaginationLink
+                  href="#"
+                  isActive={pageNumber === page}
+                  onClick={(e) => { e.preventDefault(); onPageChange(pageNumber); }}
+                >
+                  {pageNumber}
+                </PaginationLink>
+              )}
+            </PaginationItem>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              onClick={(e) => { e.preventDefault(); if (page < totalPages) onPageChange(page + 1); }}
+              className={page >= totalPages ? "pointer-events-none opacity-50" : ""}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+};
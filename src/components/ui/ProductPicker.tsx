@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from "react";
+import { Check, ChevronsUpDown, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useApi } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+export interface ProductOption {
+  id: number;
+  name: string;
+  sku: string;
+  cost?: number;
+  price?: number;
+}
+
+const RESULT_LIMIT = 20;
+const SEARCH_DELAY_MS = 200;
+
+interface ProductPickerProps {
+  id?: string;
+  value: ProductOption | null;
+  onChange: (product: ProductOption | null) => void;
+  // Only offer products in this status, e.g. "active"
+  status?: string;
+  placeholder?: string;
+  // When set, the list starts with an entry that clears the selection, labelled with this text
+  clearLabel?: string;
+}
+
+// Product combobox that searches the whole catalog on the server instead of loading it up front
+export const ProductPicker: React.FC<ProductPickerProps> = ({
+  id,
+  value,
+  onChange,
+  status,
+  placeholder = "Select product",
+  clearLabel,
+}) => {
+  const { apiFetch } = useApi();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ProductOption[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery("");
+      setResults([]);
+    }
+  }, [open]);
+
+  // Show the first products when opened and search once typing pauses; a newer query cancels the pending one
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const search = query.trim();
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const params = new URLSearchParams({ limit: RESULT_LIMIT.toString() });
+        if (search) params.set("search", search);
+        if (status) params.set("status", status);
+        const response = await apiFetch(`/products?${params.toString()}`);
+        if (response.ok && !cancelled) {
+          const data = await response.json();
+          setResults(data.products || []);
+        } else if (!response.ok) {
+          console.error("Failed to search products");
+        }
+      } catch (error) {
+        console.error("Network error searching products");
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, search ? SEARCH_DELAY_MS : 0);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, query, status]);
+
+  const select = (product: ProductOption | null) => {
+    onChange(product);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={cn("truncate", !value && !clearLabel && "text-muted-foreground")}>
+            {value ? (value.sku ? `${value.name} (${value.sku})` : value.name) : clearLabel || placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[16rem] p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search products by name or SKU..." value={query} onValueChange={setQuery} />
+          <CommandList>
+            {searching && results.length === 0 ? (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-600">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Searching...
+              </div>
+            ) : (
+              <CommandEmpty>No products found.</CommandEmpty>
+            )}
+            <CommandGroup>
+              {clearLabel && !query.trim() && (
+                <CommandItem value="clear" onSelect={() => select(null)}>
+                  <Check className={cn("mr-2 h-4 w-4", value ? "opacity-0" : "opacity-100")} />
+                  {clearLabel}
+                </CommandItem>
+              )}
+              {results.map((product) => (
+                <CommandItem key={product.id} value={product.id.toString()} onSelect={() => select(product)}>
+                  <Check className={cn("mr-2 h-4 w-4", value?.id === product.id ? "opacity-100" : "opacity-0")} />
+                  <span className="truncate">{product.name}</span>
+                  <span className="ml-auto pl-2 text-xs text-gray-500">{product.sku}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
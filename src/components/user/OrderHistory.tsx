@@ -1,19 +1,17 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useContext } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, Package, DollarSign, Truck, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar, Package, DollarSign, Truck, Loader2, User, Check, X } from "lucide-react";
 import { toast } from "sonner";
 import { useApi } from "@/lib/api";
-
-interface OrderItem {
-  id: number;
-  product_name: string;
-  quantity: number;
-  unit_price: number;
-  total_price: number;
-}
+import { OrderStatusTimeline } from "@/components/ui/OrderStatusTimeline";
+import { OrderFulfillment, FulfillmentItem, Shipment } from "@/components/ui/OrderFulfillment";
+import { AuthContext } from "@/context/AuthContext";
 
 interface Order {
   id: number;
@@ -24,17 +22,33 @@ interface Order {
   updated_at: string;
   shipping_address?: string;
   notes?: string;
-  items: OrderItem[];
+  item_count?: number;
+  user_name?: string;
+  backordered_units?: number;
 }
 
+interface OrderDetails {
+  items: FulfillmentItem[];
+  shipments: Shipment[];
+}
+
+type ApprovalDecision = "approve" | "reject";
+
 interface OrderHistoryProps {
   agencyName: string;
 }
 
 export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
   const { apiFetch } = useApi();
+  const { user } = useContext(AuthContext);
+  const isApprover = user?.agency_role === "approver";
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [expandedOrderId, setExpandedOrderId] = useState<number | null>(null);
+  const [orderDetails, setOrderDetails] = useState<{ [orderId: number]: OrderDetails }>({});
+  const [approvalTarget, setApprovalTarget] = useState<{ order: Order; decision: ApprovalDecision } | null>(null);
+  const [approvalComments, setApprovalComments] = useState("");
+  const [submittingApproval, setSubmittingApproval] = useState(false);
 
   // Fetch orders from API
   const fetchOrders = async () => {
@@ -44,6 +58,8 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
       if (response.ok) {
         const data = await response.json();
         setOrders(data.orders || []);
+        // Shipments may have changed since an order was last expanded
+        setOrderDetails({});
       } else {
         toast.error("Failed to fetch orders");
       }
@@ -58,26 +74,103 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
     fetchOrders();
   }, []);
 
+  // Fetch line items and shipments for an order the first time it is expanded
+  const fetchOrderDetails = async (orderId: number) => {
+    try {
+      const response = await apiFetch(`/orders/${orderId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setOrderDetails(prev => ({
+          ...prev,
+          [orderId]: { items: data.order.items || [], shipments: data.order.shipments || [] }
+        }));
+      } else {
+        toast.error("Failed to fetch order details");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const toggleDetails = (orderId: number) => {
+    if (expandedOrderId === orderId) {
+      setExpandedOrderId(null);
+      return;
+    }
+    setExpandedOrderId(orderId);
+    if (!orderDetails[orderId]) {
+      fetchOrderDetails(orderId);
+    }
+  };
+
+  const openApprovalDialog = (order: Order, decision: ApprovalDecision) => {
+    setApprovalTarget({ order, decision });
+    setApprovalComments("");
+  };
+
+  // Record the approver's decision; the comments are kept in the order's status history
+  const handleApprovalDecision = async () => {
+    if (!approvalTarget) return;
+    if (approvalTarget.decision === "reject" && !approvalComments.trim()) {
+      toast.error("Please explain why the order is rejected");
+      return;
+    }
+
+    try {
+      setSubmittingApproval(true);
+      const response = await apiFetch(`/orders/${approvalTarget.order.id}/agency-approval`, {
+        method: "PATCH",
+        body: JSON.stringify({
+          decision: approvalTarget.decision,
+          comments: approvalComments.trim() || undefined
+        })
+      });
+
+      if (response.ok) {
+        toast.success(approvalTarget.decision === "approve"
+          ? `Order ${approvalTarget.order.order_number} approved and sent to the depot`
+          : `Order ${approvalTarget.order.order_number} rejected`);
+        setApprovalTarget(null);
+        fetchOrders();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to record decision");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setSubmittingApproval(false);
+    }
+  };
+
+  const awaitingApprovalCount = orders.filter(order => order.status === "awaiting_agency_approval").length;
+
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case "awaiting_agency_approval": return <Badge className="bg-orange-100 text-orange-800">Awaiting Agency Approval</Badge>;
       case "pending": return <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>;
       case "approved": return <Badge className="bg-blue-100 text-blue-800">Approved</Badge>;
       case "processing": return <Badge className="bg-blue-100 text-blue-800">Processing</Badge>;
+      case "partially_shipped": return <Badge className="bg-indigo-100 text-indigo-800">Partially Shipped</Badge>;
       case "shipped": return <Badge className="bg-purple-100 text-purple-800">Shipped</Badge>;
       case "delivered": return <Badge className="bg-green-100 text-green-800">Delivered</Badge>;
       case "cancelled": return <Badge className="bg-red-100 text-red-800">Cancelled</Badge>;
+      case "rejected": return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
       default: return <Badge variant="secondary">{status}</Badge>;
     }
   };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
+      case "awaiting_agency_approval": return <Package className="h-4 w-4 text-orange-600" />;
       case "pending": return <Package className="h-4 w-4 text-yellow-600" />;
       case "approved": return <Package className="h-4 w-4 text-blue-600" />;
       case "processing": return <Package className="h-4 w-4 text-blue-600" />;
+      case "partially_shipped": return <Truck className="h-4 w-4 text-indigo-600" />;
       case "shipped": return <Truck className="h-4 w-4 text-purple-600" />;
       case "delivered": return <Package className="h-4 w-4 text-green-600" />;
       case "cancelled": return <Package className="h-4 w-4 text-red-600" />;
+      case "rejected": return <Package className="h-4 w-4 text-red-600" />;
       default: return <Package className="h-4 w-4 text-gray-600" />;
     }
   };
@@ -103,7 +196,14 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Order History</h2>
-        <Badge variant="secondary">{orders.length} Total Orders</Badge>
+        <div className="flex gap-2">
+          {awaitingApprovalCount > 0 && (
+            <Badge className="bg-orange-100 text-orange-800">
+              {awaitingApprovalCount} Awaiting {isApprover ? "Your " : ""}Approval
+            </Badge>
+          )}
+          <Badge variant="secondary">{orders.length} Total Orders</Badge>
+        </div>
       </div>
 
       {orders.length === 0 ? (
@@ -111,7 +211,7 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
           <CardContent className="p-8 text-center">
             <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No orders yet</h3>
-            <p className="text-gray-600">Your order history will appear here once you place your first order.</p>
+            <p className="text-gray-600">Orders placed by your agency will appear here.</p>
           </CardContent>
         </Card>
       ) : (
@@ -130,6 +230,12 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
                         <Calendar className="h-4 w-4" />
                         Ordered: {formatDate(order.created_at)}
                       </div>
+                      {order.user_name && (
+                        <div className="flex items-center gap-1">
+                          <User className="h-4 w-4" />
+                          {order.user_name}
+                        </div>
+                      )}
                       <div className="flex items-center gap-1">
                         <DollarSign className="h-4 w-4" />
                         ${order.total_amount.toLocaleString()}
@@ -140,6 +246,12 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
                           In Transit
                         </div>
                       )}
+                      {(order.backordered_units ?? 0) > 0 && (
+                        <div className="flex items-center gap-1 text-orange-600">
+                          <Package className="h-4 w-4" />
+                          {order.backordered_units} units backordered
+                        </div>
+                      )}
                     </div>
                   </div>
                   {getStatusBadge(order.status)}
@@ -147,25 +259,30 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  <div>
-                    <h4 className="font-semibold text-sm text-gray-700 mb-2">Order Items:</h4>
-                    <div className="space-y-2">
-                      {order.items.map((item) => (
-                        <div key={item.id} className="flex justify-between items-center text-sm bg-gray-50 p-3 rounded">
-                          <div className="flex items-center gap-2">
-                            <Package className="h-4 w-4 text-gray-500" />
-                            <span className="font-medium">{item.product_name}</span>
+                  {expandedOrderId === order.id ? (
+                    <>
+                      <div>
+                        <h4 className="font-semibold text-sm text-gray-700 mb-2">Order Items:</h4>
+                        {!orderDetails[order.id] ? (
+                          <div className="flex items-center gap-2 text-sm text-gray-600">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Loading items...
                           </div>
-                          <div className="text-right">
-                            <div className="font-semibold">${item.total_price.toLocaleString()}</div>
-                            <div className="text-gray-600">
-                              {item.quantity} × ${item.unit_price}
-                            </div>
-                          </div>
-                        </div>
-                      ))}
+                        ) : (
+                          <OrderFulfillment items={orderDetails[order.id].items} shipments={orderDetails[order.id].shipments} />
+                        )}
+                      </div>
+
+                      <div>
+                        <h4 className="font-semibold text-sm text-gray-700 mb-2">Status History:</h4>
+                        <OrderStatusTimeline orderId={order.id} refreshKey={order.status} />
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-sm text-gray-600">
+                      {order.item_count ?? 0} items
                     </div>
-                  </div>
+                  )}
                   
                   {order.notes && (
                     <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded">
@@ -181,8 +298,25 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
                       <div className="font-semibold">{formatDate(order.updated_at)}</div>
                     </div>
                     <div className="flex gap-2">
-                      <Button variant="outline" size="sm">
-                        View Details
+                      {isApprover && order.status === "awaiting_agency_approval" && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openApprovalDialog(order, "reject")}
+                            className="text-red-600 border-red-300 hover:bg-red-50"
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                          <Button size="sm" onClick={() => openApprovalDialog(order, "approve")} className="bg-green-600 hover:bg-green-700">
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                        </>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => toggleDetails(order.id)}>
+                        {expandedOrderId === order.id ? "Hide Details" : "View Details"}
                       </Button>
                       {order.status === "delivered" && (
                         <Button variant="outline" size="sm">
@@ -202,6 +336,45 @@ export const OrderHistory = ({ agencyName }: OrderHistoryProps) => {
           ))}
         </div>
       )}
+
+      {/* Agency Approval Dialog */}
+      <Dialog open={!!approvalTarget} onOpenChange={(open) => !open && setApprovalTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {approvalTarget?.decision === "approve" ? "Approve" : "Reject"} Order {approvalTarget?.order.order_number}
+            </DialogTitle>
+            <DialogDescription>
+              {approvalTarget?.decision === "approve"
+                ? "The order will be sent to the depot for processing."
+                : "The order will be closed and its stock released."}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="approval-comments">
+              Comments{approvalTarget?.decision === "approve" ? " (optional)" : ""}
+            </Label>
+            <Textarea
+              id="approval-comments"
+              value={approvalComments}
+              onChange={(e) => setApprovalComments(e.target.value)}
+              placeholder={approvalTarget?.decision === "approve" ? "Any notes for the depot" : "Why is this order rejected?"}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApprovalTarget(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApprovalDecision}
+              disabled={submittingApproval}
+              className={approvalTarget?.decision === "approve" ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"}
+            >
+              {approvalTarget?.decision === "approve" ? "Approve Order" : "Reject Order"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -5,9 +5,14 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { CheckCircle, Package, Search, Loader2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CheckCircle, Package, Search, Loader2, Command as CommandIcon } from "lucide-react";
 import { toast } from "sonner";
 import { useApi } from "@/lib/api";
+import { PaginationControls } from "@/components/ui/PaginationControls";
+import { HighlightedText, hasHighlight } from "@/components/ui/HighlightedText";
+import { ProductSearchPalette, PaletteProduct } from "./ProductSearchPalette";
 
 interface Product {
   id: number;
@@ -15,35 +20,97 @@ interface Product {
   sku: string;
   price: number;
   stock_quantity: number;
+  reserved_quantity: number;
+  available_quantity: number;
   description?: string;
   specifications?: string;
+  category_id?: number;
   category_name?: string;
   status: string;
+  // Present when the list is a search: matched terms wrapped in highlight markers
+  name_highlight?: string | null;
+  description_snippet?: string | null;
+  specifications_snippet?: string | null;
 }
 
+interface Category {
+  id: number;
+  name: string;
+  active_product_count: number;
+}
+
+// A quantity break of the agency's price lists: the unit price from min_quantity units up
+interface ContractPrice {
+  product_id: number;
+  min_quantity: number;
+  unit_price: number;
+  price_list_name: string;
+}
+
+interface PriceRange {
+  min: string;
+  max: string;
+}
+
+const PAGE_SIZE = 12;
+
+// Best match ranks search results; without a search the newest products come first
+const SORT_OPTIONS = [
+  { value: "relevance", label: "Best Match" },
+  { value: "newest", label: "Newest" },
+  { value: "name", label: "Name (A-Z)" },
+  { value: "price_asc", label: "Price: Low to High" },
+  { value: "price_desc", label: "Price: High to Low" },
+  { value: "availability", label: "Most Available" }
+];
+
 interface ProductCatalogProps {
-  onAddToCart: (product: any, quantity: number) => void;
+  // Omitted for users who may browse but not order
+  // Resolves to whether the item reached the saved cart
+  onAddToCart?: (product: Product, quantity: number) => Promise<boolean>;
 }
 
 export const ProductCatalog = ({ onAddToCart }: ProductCatalogProps) => {
   const { apiFetch } = useApi();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
+  const [priceInput, setPriceInput] = useState<PriceRange>({ min: "", max: "" });
+  const [priceRange, setPriceRange] = useState<PriceRange>({ min: "", max: "" });
+  const [inStockOnly, setInStockOnly] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [sort, setSort] = useState("relevance");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [totalProducts, setTotalProducts] = useState(0);
   const [quantities, setQuantities] = useState<{ [key: string]: number }>({});
+  const [contractPrices, setContractPrices] = useState<ContractPrice[]>([]);
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
-  // Fetch products from API
+  // Fetch a page of active products; out-of-stock items are listed because they can still be backordered
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const response = await apiFetch("/products");
+      const params = new URLSearchParams({
+        status: "active",
+        sort,
+        page: page.toString(),
+        limit: PAGE_SIZE.toString()
+      });
+      if (categoryFilter !== "all") params.set("category", categoryFilter);
+      if (searchTerm) params.set("search", searchTerm);
+      if (priceRange.min) params.set("min_price", priceRange.min);
+      if (priceRange.max) params.set("max_price", priceRange.max);
+      if (inStockOnly) params.set("min_stock", "1");
+
+      const response = await apiFetch(`/products?${params.toString()}`);
       if (response.ok) {
         const data = await response.json();
-        // Filter only active products for agencies
-        const activeProducts = (data.products || []).filter((product: Product) => 
-          product.status === 'active' && product.stock_quantity > 0
-        );
-        setProducts(activeProducts);
+        setProducts(data.products || []);
+        setTotalPages(Math.max(data.pagination?.pages || 1, 1));
+        setTotalProducts(data.pagination?.total || 0);
       } else {
         toast.error("Failed to fetch products");
       }
@@ -54,135 +121,321 @@ export const ProductCatalog = ({ onAddToCart }: ProductCatalogProps) => {
     }
   };
 
+  // Fetch categories for the category filter
+  const fetchCategories = async () => {
+    try {
+      const response = await apiFetch("/categories");
+      if (response.ok) {
+        const data = await response.json();
+        setCategories((data.categories || []).filter((category: Category) => category.active_product_count > 0));
+      }
+    } catch (error) {
+      console.error("Network error fetching categories");
+    }
+  };
+
+  // Prices the user's agency has negotiated for the products on this page
+  const fetchContractPrices = async (productIds: number[]) => {
+    try {
+      const response = await apiFetch(`/price-lists/contract-prices?product_ids=${productIds.join(",")}`);
+      if (response.ok) {
+        const data = await response.json();
+        setContractPrices(data.contract_prices || []);
+      } else {
+        console.error("Failed to fetch contract prices");
+      }
+    } catch (error) {
+      console.error("Network error fetching contract prices");
+    }
+  };
+
   useEffect(() => {
     fetchProducts();
+  }, [page, sort, categoryFilter, searchTerm, priceRange, inStockOnly]);
+
+  useEffect(() => {
+    if (products.length > 0) fetchContractPrices(products.map(product => product.id));
+  }, [products]);
+
+  // The lowest contract price among the quantity breaks the quantity reaches, as the order will charge it
+  const contractPriceFor = (productId: number, quantity: number) =>
+    contractPrices
+      .filter(tier => tier.product_id === productId && tier.min_quantity <= quantity)
+      .reduce<ContractPrice | null>((best, tier) => (!best || tier.unit_price < best.unit_price ? tier : best), null);
+
+  const renderPrice = (product: Product) => {
+    const contractPrice = contractPriceFor(product.id, quantities[product.id] || 1);
+    const quantityBreaks = contractPrices.filter(tier => tier.product_id === product.id && tier.min_quantity > 1);
+
+    return (
+      <>
+        {contractPrice ? (
+          <div className="flex items-center gap-2">
+            <span className="text-lg font-bold text-blue-600">${contractPrice.unit_price} per unit</span>
+            <span className="text-sm text-gray-500 line-through">${product.price}</span>
+            <Badge className="bg-green-100 text-green-800" title={contractPrice.price_list_name}>Contract price</Badge>
+          </div>
+        ) : (
+          <div className="text-lg font-bold text-blue-600">
+            ${product.price} per unit
+          </div>
+        )}
+        {quantityBreaks.length > 0 && (
+          <div className="text-xs text-gray-600">
+            {quantityBreaks.map(tier => `${tier.min_quantity}+ units: $${tier.unit_price}`).join(" · ")}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  useEffect(() => {
+    fetchCategories();
   }, []);
 
-  const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    product.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (product.category_name && product.category_name.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  // Ctrl+K / ⌘K opens the quick search palette
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setPaletteOpen(open => !open);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Show the product picked in the palette on its own, ready to add to the cart
+  const handlePaletteSelect = (product: PaletteProduct) => {
+    setSearchInput(product.sku);
+    setSearchTerm(product.sku);
+    setPage(1);
+  };
+
+  // Apply the search text and price range together so typing does not refetch on every keystroke
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const min = parseFloat(priceInput.min);
+    const max = parseFloat(priceInput.max);
+    if (!isNaN(min) && !isNaN(max) && min > max) {
+      toast.error("The minimum price cannot be above the maximum price");
+      return;
+    }
+    setPage(1);
+    setSearchTerm(searchInput.trim());
+    setPriceRange({ ...priceInput });
+  };
 
   const handleQuantityChange = (productId: number, quantity: number) => {
     setQuantities({ ...quantities, [productId]: quantity });
   };
 
-  const handleAddToCart = (product: Product) => {
+  const handleAddToCart = async (product: Product) => {
     const quantity = quantities[product.id] || 1;
-    if (quantity > product.stock_quantity) {
-      toast.error(`Only ${product.stock_quantity} units available`);
-      return;
+    if (!(await onAddToCart(product, quantity))) return;
+    if (quantity > product.available_quantity) {
+      const backordered = quantity - Math.max(product.available_quantity, 0);
+      toast.success(`Added ${quantity} ${product.name}(s) to cart; ${backordered} will be backordered`);
+    } else {
+      toast.success(`Added ${quantity} ${product.name}(s) to cart`);
     }
-    onAddToCart(product, quantity);
-    toast.success(`Added ${quantity} ${product.name}(s) to cart`);
     setQuantities({ ...quantities, [product.id]: 1 });
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center h-64">
-        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
-        <span className="ml-2 text-gray-600">Loading products...</span>
-      </div>
-    );
-  }
-
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Product Catalog</h2>
-        <Badge variant="secondary">{filteredProducts.length} Products Available</Badge>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPaletteOpen(true)} className="text-gray-600">
+            <Search className="h-4 w-4 mr-2" />
+            Quick Search
+            <kbd className="ml-2 inline-flex items-center gap-0.5 rounded border bg-gray-50 px-1 text-xs">
+              <CommandIcon className="h-3 w-3" />K
+            </kbd>
+          </Button>
+          <Badge variant="secondary">{totalProducts} Products Available</Badge>
+        </div>
       </div>
 
-      {/* Search */}
+      {/* Search, Filters and Sort */}
       <Card>
-        <CardContent className="p-4">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-            <Input
-              placeholder="Search products by name, SKU, or category..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
+        <CardContent className="p-4 space-y-4">
+          <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                placeholder="Search products by name, SKU, or category..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min="0"
+                placeholder="Min $"
+                value={priceInput.min}
+                onChange={(e) => setPriceInput(prev => ({ ...prev, min: e.target.value }))}
+                className="w-24"
+              />
+              <span className="text-gray-500">&ndash;</span>
+              <Input
+                type="number"
+                min="0"
+                placeholder="Max $"
+                value={priceInput.max}
+                onChange={(e) => setPriceInput(prev => ({ ...prev, max: e.target.value }))}
+                className="w-24"
+              />
+            </div>
+            <Button type="submit" variant="outline">Search</Button>
+          </form>
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <Select value={categoryFilter} onValueChange={(value) => { setCategoryFilter(value); setPage(1); }}>
+              <SelectTrigger className="md:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id.toString()}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => { setSort(value); setPage(1); }}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    Sort: {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="in-stock-only"
+                checked={inStockOnly}
+                onCheckedChange={(checked) => { setInStockOnly(checked === true); setPage(1); }}
+              />
+              <Label htmlFor="in-stock-only" className="font-normal">In stock only</Label>
+            </div>
           </div>
         </CardContent>
       </Card>
 
       {/* Products Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {filteredProducts.map((product) => (
-          <Card key={product.id} className="hover:shadow-lg transition-shadow">
-            <CardHeader>
-              <div className="flex justify-between items-start">
-                <div>
-                  <CardTitle className="text-lg">{product.name}</CardTitle>
-                  <div className="text-sm text-gray-600 mt-1">SKU: {product.sku}</div>
-                  <Badge variant="outline" className="mt-2">{product.category_name || 'Uncategorized'}</Badge>
-                </div>
-                <div className="flex items-center gap-1 text-green-600">
-                  <CheckCircle className="h-4 w-4" />
-                  <span className="text-sm font-medium">Available</span>
-                </div>
-              </div>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <p className="text-sm text-gray-600">{product.description || 'No description available'}</p>
-                
-                <div className="space-y-2">
-                  {product.specifications && (
-                    <div className="text-sm">
-                      <span className="font-medium">Specifications:</span> {product.specifications}
-                    </div>
-                  )}
-                  <div className="text-sm">
-                    <span className="font-medium">Available:</span> {product.stock_quantity} units
-                  </div>
-                  <div className="text-lg font-bold text-blue-600">
-                    ${product.price} per unit
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-2">
-                  <div className="flex-1">
-                    <Label htmlFor={`quantity-${product.id}`} className="text-sm">
-                      Quantity
-                    </Label>
-                    <Input
-                      id={`quantity-${product.id}`}
-                      type="number"
-                      min="1"
-                      max={product.stock_quantity}
-                      value={quantities[product.id] || 1}
-                      onChange={(e) => handleQuantityChange(product.id, parseInt(e.target.value) || 1)}
-                      className="mt-1"
-                    />
-                  </div>
-                  <Button 
-                    onClick={() => handleAddToCart(product)}
-                    className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
-                  >
-                    <Package className="h-4 w-4" />
-                    Add to Cart
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
-
-      {filteredProducts.length === 0 && (
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+          <span className="ml-2 text-gray-600">Loading products...</span>
+        </div>
+      ) : products.length === 0 ? (
         <Card>
           <CardContent className="p-8 text-center">
             <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No products found</h3>
-            <p className="text-gray-600">Try adjusting your search terms to find what you're looking for.</p>
+            <p className="text-gray-600">Try adjusting your search terms or filters to find what you're looking for.</p>
           </CardContent>
         </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {products.map((product) => (
+            <Card key={product.id} className="hover:shadow-lg transition-shadow">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg">
+                      <HighlightedText text={product.name_highlight || product.name} />
+                    </CardTitle>
+                    <div className="text-sm text-gray-600 mt-1">SKU: {product.sku}</div>
+                    <Badge variant="outline" className="mt-2">{product.category_name || 'Uncategorized'}</Badge>
+                  </div>
+                  <div className="flex items-center gap-1 text-green-600">
+                    <CheckCircle className="h-4 w-4" />
+                    <span className="text-sm font-medium">Available</span>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-600">
+                    {hasHighlight(product.description_snippet) ? (
+                      <HighlightedText text={product.description_snippet} />
+                    ) : (
+                      product.description || 'No description available'
+                    )}
+                  </p>
+                  
+                  <div className="space-y-2">
+                    {product.specifications && (
+                      <div className="text-sm">
+                        <span className="font-medium">Specifications:</span>{" "}
+                        {hasHighlight(product.specifications_snippet) ? (
+                          <HighlightedText text={product.specifications_snippet} />
+                        ) : (
+                          product.specifications
+                        )}
+                      </div>
+                    )}
+                    <div className="text-sm">
+                      <span className="font-medium">Available:</span> {Math.max(product.available_quantity, 0)} units
+                      {product.reserved_quantity > 0 && (
+                        <span className="text-gray-500"> ({product.stock_quantity} on hand, {product.reserved_quantity} reserved)</span>
+                      )}
+                    </div>
+                    {product.available_quantity <= 0 && (
+                      <Badge className="bg-orange-100 text-orange-800">Out of stock &middot; available on backorder</Badge>
+                    )}
+                    {renderPrice(product)}
+                  </div>
+
+                  {onAddToCart && (
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1">
+                        <Label htmlFor={`quantity-${product.id}`} className="text-sm">
+                          Quantity
+                        </Label>
+                        <Input
+                          id={`quantity-${product.id}`}
+                          type="number"
+                          min="1"
+                          value={quantities[product.id] || 1}
+                          onChange={(e) => handleQuantityChange(product.id, parseInt(e.target.value) || 1)}
+                          className="mt-1"
+                        />
+                      </div>
+                      <Button 
+                        onClick={() => handleAddToCart(product)}
+                        className="bg-blue-600 hover:bg-blue-700 flex items-center gap-2"
+                      >
+                        <Package className="h-4 w-4" />
+                        Add to Cart
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
       )}
+
+      <PaginationControls
+        page={page}
+        totalPages={totalPages}
+        totalItems={totalProducts}
+        itemLabel="products"
+        onPageChange={setPage}
+      />
+
+      <ProductSearchPalette open={paletteOpen} onOpenChange={setPaletteOpen} onSelect={handlePaletteSelect} />
     </div>
   );
 };
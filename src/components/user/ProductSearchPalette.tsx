@@ -0,0 +1,119 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { HighlightedText } from "@/components/ui/HighlightedText";
+import { Loader2, Package } from "lucide-react";
+import { useApi } from "@/lib/api";
+
+export interface PaletteProduct {
+  id: number;
+  name: string;
+  sku: string;
+  price: number;
+  available_quantity: number;
+  category_name?: string;
+  name_highlight?: string | null;
+}
+
+const RESULT_LIMIT = 8;
+const SEARCH_DELAY_MS = 200;
+
+interface ProductSearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (product: PaletteProduct) => void;
+}
+
+// Quick product search over the full-text index, opened with Ctrl+K / ⌘K from the catalog
+export const ProductSearchPalette = ({ open, onOpenChange, onSelect }: ProductSearchPaletteProps) => {
+  const { apiFetch } = useApi();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PaletteProduct[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery("");
+      setResults([]);
+    }
+  }, [open]);
+
+  // Search once typing pauses; a newer query cancels the pending one
+  useEffect(() => {
+    const search = query.trim();
+    if (!search) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const params = new URLSearchParams({ search, status: "active", limit: RESULT_LIMIT.toString() });
+        const response = await apiFetch(`/products?${params.toString()}`);
+        if (response.ok && !cancelled) {
+          const data = await response.json();
+          setResults(data.products || []);
+        } else if (!response.ok) {
+          console.error("Failed to search products");
+        }
+      } catch (error) {
+        console.error("Network error searching products");
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput placeholder="Search products by name, SKU, category or specification..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        {searching && results.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Searching...
+          </div>
+        ) : (
+          <CommandEmpty>{query.trim() ? "No products found." : "Type to search the catalog."}</CommandEmpty>
+        )}
+        {results.length > 0 && (
+          <CommandGroup heading="Products">
+            {results.map((product) => (
+              <CommandItem
+                key={product.id}
+                value={product.id.toString()}
+                onSelect={() => {
+                  onSelect(product);
+                  onOpenChange(false);
+                }}
+              >
+                <Package className="mr-2 h-4 w-4 text-gray-500" />
+                <div className="flex-1 min-w-0">
+                  <HighlightedText text={product.name_highlight || product.name} className="font-medium" />
+                  <div className="text-xs text-gray-500 truncate">
+                    {product.sku}{product.category_name && ` · ${product.category_name}`}
+                  </div>
+                </div>
+                <div className="text-right text-sm">
+                  <div className="font-semibold">${product.price}</div>
+                  {product.available_quantity > 0 ? (
+                    <div className="text-xs text-gray-500">{product.available_quantity} available</div>
+                  ) : (
+                    <Badge className="bg-orange-100 text-orange-800">Backorder</Badge>
+                  )}
+                </div>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
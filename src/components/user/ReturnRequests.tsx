@@ -0,0 +1,351 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, DollarSign, Loader2, Plus, RotateCcw, User } from "lucide-react";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { FulfillmentItem } from "@/components/ui/OrderFulfillment";
+
+interface ReturnRequest {
+  id: number;
+  rma_number: string;
+  order_number: string;
+  status: string;
+  reason: string;
+  review_notes?: string;
+  credit_amount: number;
+  requested_by_name?: string;
+  created_at: string;
+  items: { id: number; product_name: string; quantity: number; unit_price: number; disposition?: string | null }[];
+}
+
+interface DeliveredOrder {
+  id: number;
+  order_number: string;
+  created_at: string;
+}
+
+interface ReturnFormData {
+  order_id: string;
+  quantities: { [orderItemId: number]: string };
+  reason: string;
+}
+
+const EMPTY_FORM: ReturnFormData = {
+  order_id: "",
+  quantities: {},
+  reason: ""
+};
+
+interface ReturnRequestsProps {
+  // Viewers can follow their agency's returns but not request them
+  canRequest: boolean;
+}
+
+export const ReturnRequests = ({ canRequest }: ReturnRequestsProps) => {
+  const { apiFetch } = useApi();
+  const [returns, setReturns] = useState<ReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<ReturnFormData>(EMPTY_FORM);
+  const [deliveredOrders, setDeliveredOrders] = useState<DeliveredOrder[]>([]);
+  const [orderItems, setOrderItems] = useState<FulfillmentItem[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Fetch returns from API
+  const fetchReturns = async () => {
+    try {
+      setLoading(true);
+      const response = await apiFetch("/returns");
+      if (response.ok) {
+        const data = await response.json();
+        setReturns(data.returns || []);
+      } else {
+        toast.error("Failed to fetch returns");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReturns();
+  }, []);
+
+  // Only delivered orders can be returned
+  const fetchDeliveredOrders = async () => {
+    try {
+      const response = await apiFetch("/orders?status=delivered&limit=100");
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveredOrders(data.orders || []);
+      } else {
+        console.error("Failed to fetch delivered orders");
+      }
+    } catch (error) {
+      console.error("Network error fetching delivered orders");
+    }
+  };
+
+  const fetchOrderItems = async (orderId: string) => {
+    try {
+      setOrderItems(null);
+      const response = await apiFetch(`/orders/${orderId}`);
+      if (response.ok) {
+        const data = await response.json();
+        setOrderItems(data.order.items || []);
+      } else {
+        toast.error("Failed to fetch order details");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    }
+  };
+
+  const openRequestModal = () => {
+    setFormData(EMPTY_FORM);
+    setOrderItems(null);
+    setShowForm(true);
+    fetchDeliveredOrders();
+  };
+
+  const selectOrder = (orderId: string) => {
+    setFormData(prev => ({ ...prev, order_id: orderId, quantities: {} }));
+    fetchOrderItems(orderId);
+  };
+
+  // Units that have not been returned or claimed by another open return
+  const returnableQuantity = (item: FulfillmentItem) =>
+    item.shipped_quantity - (item.returned_quantity ?? 0) - (item.pending_return_quantity ?? 0);
+
+  const handleSubmit = async () => {
+    const items = Object.entries(formData.quantities)
+      .map(([orderItemId, quantity]) => ({ order_item_id: parseInt(orderItemId), quantity: parseInt(quantity) || 0 }))
+      .filter(item => item.quantity > 0);
+
+    if (!formData.order_id || items.length === 0) {
+      toast.error("Choose an order and the quantities to return");
+      return;
+    }
+    if (!formData.reason.trim()) {
+      toast.error("Please explain why the items are being returned");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const response = await apiFetch("/returns", {
+        method: "POST",
+        body: JSON.stringify({
+          order_id: parseInt(formData.order_id),
+          reason: formData.reason.trim(),
+          items
+        })
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Return ${data.return.rma_number} requested; the depot will review it`);
+        setShowForm(false);
+        fetchReturns();
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to request return");
+      }
+    } catch (error) {
+      toast.error("Network error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    switch (status) {
+      case "requested": return <Badge className="bg-yellow-100 text-yellow-800">Awaiting Review</Badge>;
+      case "approved": return <Badge className="bg-blue-100 text-blue-800">Approved - Send Items Back</Badge>;
+      case "rejected": return <Badge className="bg-red-100 text-red-800">Rejected</Badge>;
+      case "received": return <Badge className="bg-green-100 text-green-800">Received</Badge>;
+      default: return <Badge variant="secondary">{status}</Badge>;
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <span className="ml-2 text-gray-600">Loading returns...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold text-gray-900">Returns</h2>
+        <div className="flex gap-2 items-center">
+          <Badge variant="secondary">{returns.length} Returns</Badge>
+          {canRequest && (
+            <Button onClick={openRequestModal} className="bg-blue-600 hover:bg-blue-700">
+              <Plus className="h-4 w-4 mr-2" />
+              Request Return
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {returns.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center">
+            <RotateCcw className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No returns yet</h3>
+            <p className="text-gray-600">Items from delivered orders can be returned to the depot.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {returns.map((rma) => (
+            <Card key={rma.id} className="hover:shadow-md transition-shadow">
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-lg">Return {rma.rma_number}</CardTitle>
+                    <div className="flex items-center gap-4 text-sm text-gray-600 mt-2">
+                      <div className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        Requested: {formatDate(rma.created_at)}
+                      </div>
+                      {rma.requested_by_name && (
+                        <div className="flex items-center gap-1">
+                          <User className="h-4 w-4" />
+                          {rma.requested_by_name}
+                        </div>
+                      )}
+                      {rma.status === "received" && (
+                        <div className="flex items-center gap-1 text-green-700">
+                          <DollarSign className="h-4 w-4" />
+                          ${rma.credit_amount.toLocaleString()} credited
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {getStatusBadge(rma.status)}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 text-sm">
+                  <div className="text-gray-600">Order {rma.order_number}</div>
+                  <div>{rma.items.map((item) => `${item.quantity} × ${item.product_name}`).join(", ")}</div>
+                  <div className="text-gray-600 bg-gray-50 p-3 rounded">
+                    <strong>Reason:</strong> {rma.reason}
+                  </div>
+                  {rma.review_notes && (
+                    <div className="text-gray-600 bg-blue-50 p-3 rounded">
+                      <strong>Depot notes:</strong> {rma.review_notes}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Request Return Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Request Return</DialogTitle>
+            <DialogDescription>
+              Choose a delivered order and the units to send back. The depot reviews every request before you ship.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="return-order">Order</Label>
+              <Select value={formData.order_id} onValueChange={selectOrder}>
+                <SelectTrigger id="return-order">
+                  <SelectValue placeholder={deliveredOrders.length ? "Select a delivered order" : "No delivered orders"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {deliveredOrders.map((order) => (
+                    <SelectItem key={order.id} value={order.id.toString()}>
+                      {order.order_number} ({formatDate(order.created_at)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.order_id && (
+              !orderItems ? (
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading items...
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {orderItems.map((item) => (
+                    <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                      <div>
+                        <div className="font-medium">{item.product_name}</div>
+                        <div className="text-xs text-gray-500">
+                          {returnableQuantity(item)} of {item.shipped_quantity} returnable
+                        </div>
+                      </div>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={returnableQuantity(item)}
+                        value={formData.quantities[item.id] ?? ""}
+                        onChange={(e) => setFormData(prev => ({
+                          ...prev,
+                          quantities: { ...prev.quantities, [item.id]: e.target.value }
+                        }))}
+                        disabled={returnableQuantity(item) <= 0}
+                        className="w-24"
+                      />
+                    </div>
+                  ))}
+                </div>
+              )
+            )}
+            <div>
+              <Label htmlFor="return-reason">Reason</Label>
+              <Textarea
+                id="return-reason"
+                value={formData.reason}
+                onChange={(e) => setFormData(prev => ({ ...prev, reason: e.target.value }))}
+                placeholder="e.g. Damaged in transit, wrong size delivered"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={submitting} className="bg-blue-600 hover:bg-blue-700">
+              {submitting && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Request Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -1,25 +1,69 @@
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Trash2, ShoppingCart, CreditCard, Loader2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Trash2, ShoppingCart, CreditCard, Loader2, AlertTriangle, X } from "lucide-react";
 import { toast } from "sonner";
 import { useApi } from "@/lib/api";
+import { ConfirmDialog } from "@/components/ui/ConfirmDialog";
 
-interface CartItem {
+export interface CartItem {
   id: number;
   name: string;
   sku: string;
   price: number;
+  // The catalog price; differs from price when the agency's price list covers the line
+  list_price: number;
+  price_list_name: string | null;
   quantity: number;
   specifications?: string;
+  available_quantity: number;
+  orderable: boolean;
+  warnings: string[];
+}
+
+export interface CartPriceChange {
+  product_id: number;
+  name: string;
+  previous_price: number;
+  price: number;
+}
+
+interface QuoteLine {
+  product_id: number;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  tax_rate_name: string | null;
+  tax_rate: number;
+  tax_amount: number;
+}
+
+interface OrderQuote {
+  items: QuoteLine[];
+  subtotal_amount: number;
+  tax_amount: number;
+  total_amount: number;
+  requires_agency_approval: boolean;
+}
+
+interface Project {
+  id: number;
+  name: string;
+  status: string;
+  budget?: number;
+  spent: number;
 }
 
 interface ShoppingCartComponentProps {
   cartItems: CartItem[];
+  priceChanges: CartPriceChange[];
+  onDismissPriceChanges: () => void;
   onRemoveFromCart: (productId: number) => void;
   onUpdateQuantity: (productId: number, quantity: number) => void;
   onOrderPlaced?: () => void;
@@ -27,6 +71,8 @@ interface ShoppingCartComponentProps {
 
 export const ShoppingCartComponent = ({ 
   cartItems, 
+  priceChanges,
+  onDismissPriceChanges,
   onRemoveFromCart, 
   onUpdateQuantity,
   onOrderPlaced
@@ -35,27 +81,133 @@ export const ShoppingCartComponent = ({
   const [isProcessing, setIsProcessing] = useState(false);
   const [shippingAddress, setShippingAddress] = useState("");
   const [notes, setNotes] = useState("");
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectId, setProjectId] = useState("none");
+  const [confirmOverBudget, setConfirmOverBudget] = useState(false);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [deliveryRegion, setDeliveryRegion] = useState("none");
+  const [quote, setQuote] = useState<OrderQuote | null>(null);
+
+  const unavailableItems = cartItems.filter(item => !item.orderable);
+  const orderTotal = quote?.total_amount ?? 0;
+
+  // Tax is shown per rate, as the order will record it line by line
+  const taxByRate = (quote?.items || []).reduce<{ [label: string]: number }>((totals, line) => {
+    if (line.tax_amount > 0) {
+      const label = `${line.tax_rate_name} (${line.tax_rate}%)`;
+      totals[label] = (totals[label] || 0) + line.tax_amount;
+    }
+    return totals;
+  }, {});
+
+  // Orders are charged against the project budget at their total, tax included
+  const selectedProject = projects.find(project => project.id.toString() === projectId);
+  const remainingBudget = selectedProject?.budget ? selectedProject.budget - selectedProject.spent : null;
+  const exceedsBudget = remainingBudget !== null && orderTotal > remainingBudget;
+
+  // Fetch projects the user may order against
+  const fetchProjects = async () => {
+    try {
+      const response = await apiFetch("/projects?participating=true&limit=100");
+      if (response.ok) {
+        const data = await response.json();
+        setProjects((data.projects || []).filter((project: Project) => project.status !== "completed"));
+      } else {
+        console.error("Failed to fetch projects");
+      }
+    } catch (error) {
+      console.error("Network error fetching projects");
+    }
+  };
 
-  const subtotal = cartItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
-  const tax = subtotal * 0.08; // 8% tax
-  const total = subtotal + tax;
+  // Delivery regions that have their own tax rates
+  const fetchRegions = async () => {
+    try {
+      const response = await apiFetch("/tax-rates");
+      if (response.ok) {
+        const data = await response.json();
+        setRegions(data.regions || []);
+      } else {
+        console.error("Failed to fetch delivery regions");
+      }
+    } catch (error) {
+      console.error("Network error fetching delivery regions");
+    }
+  };
 
-  const handleCheckout = async () => {
+  useEffect(() => {
+    fetchProjects();
+    fetchRegions();
+  }, []);
+
+  // Price the cart on the server whenever it or the delivery region changes; a newer quote replaces a pending one
+  useEffect(() => {
+    const items = cartItems
+      .filter(item => item.orderable)
+      .map(item => ({ product_id: item.id, quantity: item.quantity }));
+    if (items.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchQuote = async () => {
+      try {
+        const response = await apiFetch("/orders/quote", {
+          method: "POST",
+          body: JSON.stringify({ items, delivery_region: deliveryRegion === "none" ? null : deliveryRegion })
+        });
+        if (cancelled) return;
+        if (response.ok) {
+          const data = await response.json();
+          setQuote(data.quote);
+        } else {
+          setQuote(null);
+          console.error("Failed to quote order");
+        }
+      } catch (error) {
+        console.error("Network error quoting order");
+      }
+    };
+    fetchQuote();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartItems, deliveryRegion]);
+
+  const handleCheckout = () => {
     if (cartItems.length === 0) {
       toast.error("Your cart is empty");
       return;
     }
 
+    if (unavailableItems.length > 0) {
+      toast.error("Remove the items that are no longer available before placing your order");
+      return;
+    }
+
     if (!shippingAddress.trim()) {
       toast.error("Please provide a shipping address");
       return;
     }
-    
+
+    if (exceedsBudget) {
+      setConfirmOverBudget(true);
+      return;
+    }
+
+    placeOrder();
+  };
+
+  const placeOrder = async () => {
     try {
       setIsProcessing(true);
       
       const orderData = {
+        project_id: selectedProject?.id,
         shipping_address: shippingAddress,
+        delivery_region: deliveryRegion === "none" ? undefined : deliveryRegion,
         notes: notes.trim() || undefined,
         items: cartItems.map(item => ({
           product_id: item.id,
@@ -70,14 +222,25 @@ export const ShoppingCartComponent = ({
 
       if (response.ok) {
         const result = await response.json();
-        toast.success(`Order ${result.order.order_number} submitted successfully!`);
+        if (result.order.status === "awaiting_agency_approval") {
+          toast.success(`Order ${result.order.order_number} submitted and sent to your agency approver`);
+        } else {
+          toast.success(`Order ${result.order.order_number} submitted successfully!`);
+        }
+        const backordered = (result.order.items || []).reduce(
+          (sum: number, item: { backordered_quantity: number }) => sum + item.backordered_quantity, 0
+        );
+        if (backordered > 0) {
+          toast.info(`${backordered} unit(s) are backordered and will ship when stock arrives`);
+        }
         
-        // Clear cart after successful order
-        cartItems.forEach(item => onRemoveFromCart(item.id));
         setShippingAddress("");
         setNotes("");
+        setProjectId("none");
+        setDeliveryRegion("none");
+        fetchProjects();
         
-        // Notify parent component
+        // Notify parent component, which clears the cart
         if (onOrderPlaced) {
           onOrderPlaced();
         }
@@ -119,11 +282,34 @@ export const ShoppingCartComponent = ({
         <div className="text-sm text-gray-600">{cartItems.length} items</div>
       </div>
 
+      {priceChanges.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <div className="font-medium">Prices changed since you added these items:</div>
+                <ul className="mt-1 space-y-1">
+                  {priceChanges.map((change) => (
+                    <li key={change.product_id}>
+                      {change.name}: <span className="line-through">${change.previous_price}</span> → ${change.price}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <Button variant="ghost" size="sm" onClick={onDismissPriceChanges}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Cart Items */}
         <div className="lg:col-span-2 space-y-4">
           {cartItems.map((item) => (
-            <Card key={item.id}>
+            <Card key={item.id} className={item.orderable ? undefined : "border-red-200 bg-red-50"}>
               <CardContent className="p-4">
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
@@ -134,7 +320,19 @@ export const ShoppingCartComponent = ({
                     )}
                     <p className="text-lg font-bold text-blue-600 mt-2">
                       ${item.price} per unit
+                      {item.price_list_name && item.price !== item.list_price && (
+                        <span className="ml-2 text-sm font-normal text-gray-500 line-through">${item.list_price}</span>
+                      )}
                     </p>
+                    {item.price_list_name && (
+                      <p className="text-xs text-green-700">Contract price from {item.price_list_name}</p>
+                    )}
+                    {item.warnings.map((warning) => (
+                      <p key={warning} className={`flex items-center gap-1 text-sm mt-1 ${item.orderable ? "text-orange-700" : "text-red-700"}`}>
+                        <AlertTriangle className="h-4 w-4" />
+                        {warning}
+                      </p>
+                    ))}
                   </div>
                   
                   <div className="flex items-center gap-4">
@@ -178,6 +376,27 @@ export const ShoppingCartComponent = ({
               <CardTitle>Shipping Information</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="order-project">Project (Optional)</Label>
+                <Select value={projectId} onValueChange={setProjectId}>
+                  <SelectTrigger id="order-project" className="mt-1">
+                    <SelectValue placeholder="Select a project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No Project</SelectItem>
+                    {projects.map((project) => (
+                      <SelectItem key={project.id} value={project.id.toString()}>
+                        {project.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedProject && remainingBudget !== null && (
+                  <p className={`text-sm mt-1 ${remainingBudget < 0 ? "text-red-600" : "text-gray-600"}`}>
+                    Remaining budget: ${remainingBudget.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} of ${selectedProject.budget.toLocaleString()}
+                  </p>
+                )}
+              </div>
               <div>
                 <Label htmlFor="shipping-address">Shipping Address *</Label>
                 <Textarea
@@ -189,6 +408,25 @@ export const ShoppingCartComponent = ({
                   rows={3}
                 />
               </div>
+              {regions.length > 0 && (
+                <div>
+                  <Label htmlFor="delivery-region">Delivery Region</Label>
+                  <Select value={deliveryRegion} onValueChange={setDeliveryRegion}>
+                    <SelectTrigger id="delivery-region" className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Other / Not listed</SelectItem>
+                      {regions.map((region) => (
+                        <SelectItem key={region} value={region}>
+                          {region}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">Tax depends on where the order is delivered.</p>
+                </div>
+              )}
               <div>
                 <Label htmlFor="notes">Order Notes (Optional)</Label>
                 <Textarea
@@ -211,26 +449,56 @@ export const ShoppingCartComponent = ({
               <CardTitle>Order Summary</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="flex justify-between">
-                <span>Subtotal</span>
-                <span>${subtotal.toLocaleString()}</span>
-              </div>
-              
-              <div className="flex justify-between">
-                <span>Tax (8%)</span>
-                <span>${tax.toFixed(2)}</span>
-              </div>
-              
-              <div className="border-t pt-4">
-                <div className="flex justify-between font-bold text-lg">
-                  <span>Total</span>
-                  <span>${total.toLocaleString()}</span>
+              {!quote ? (
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Calculating totals...
                 </div>
-              </div>
+              ) : (
+                <>
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>${quote.subtotal_amount.toLocaleString()}</span>
+                  </div>
+
+                  {Object.entries(taxByRate).map(([label, amount]) => (
+                    <div key={label} className="flex justify-between">
+                      <span>Tax: {label}</span>
+                      <span>${amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {Object.keys(taxByRate).length === 0 && (
+                    <div className="flex justify-between">
+                      <span>Tax</span>
+                      <span>$0.00</span>
+                    </div>
+                  )}
+
+                  <div className="border-t pt-4">
+                    <div className="flex justify-between font-bold text-lg">
+                      <span>Total</span>
+                      <span>${quote.total_amount.toLocaleString()}</span>
+                    </div>
+                  </div>
+
+                  {quote.requires_agency_approval && (
+                    <p className="text-sm text-gray-600">This order will wait for your agency approver before it reaches the depot.</p>
+                  )}
+                </>
+              )}
+              
+              {exceedsBudget && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    This order exceeds the remaining budget for {selectedProject.name} by ${(orderTotal - remainingBudget).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}.
+                  </AlertDescription>
+                </Alert>
+              )}
               
               <Button 
                 onClick={handleCheckout}
-                disabled={isProcessing || !shippingAddress.trim()}
+                disabled={isProcessing || !quote || !shippingAddress.trim() || unavailableItems.length > 0}
                 className="w-full bg-green-600 hover:bg-green-700 flex items-center gap-2"
                 size="lg"
               >
@@ -255,6 +523,20 @@ export const ShoppingCartComponent = ({
           </Card>
         </div>
       </div>
+
+      {/* Confirm Over-Budget Order Dialog */}
+      <ConfirmDialog
+        open={confirmOverBudget}
+        title="Exceed Project Budget?"
+        description={`This order total of $${orderTotal.toLocaleString()} exceeds the remaining budget for "${selectedProject?.name}". Place the order anyway?`}
+        confirmLabel="Place Order"
+        cancelLabel="Cancel"
+        onCancel={() => setConfirmOverBudget(false)}
+        onConfirm={() => {
+          setConfirmOverBudget(false);
+          placeOrder();
+        }}
+      />
     </div>
   );
 };
@@ -1,62 +1,143 @@
 
-import { useState } from "react";
+import { useState, useEffect, useContext } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Building2, LogOut, Package, ShoppingCart, History } from "lucide-react";
+import { Building2, LogOut, Package, ShoppingCart, History, RotateCcw } from "lucide-react";
 import { ProductCatalog } from "./ProductCatalog";
 import { ShoppingCartComponent } from "./ShoppingCartComponent";
 import { OrderHistory } from "./OrderHistory";
+import { ReturnRequests } from "./ReturnRequests";
 import { Header } from "@/components/ui/Header";
+import { AuthContext, hasPermission } from "@/context/AuthContext";
+import { toast } from "sonner";
+import { useApi } from "@/lib/api";
+import { CartItem, CartPriceChange } from "./ShoppingCartComponent";
 
-interface CartItem {
-  id: number;
-  name: string;
-  sku: string;
-  price: number;
+interface PendingCartItem {
+  product_id: number;
   quantity: number;
-  specifications?: string;
 }
 
-interface UserDashboardProps {
-  user: { role: string; name: string };
-  onLogout: () => void;
-}
+// Items added while the server could not be reached; merged into the saved cart on the next sync
+const pendingCartKey = (userId: number) => `pendingCart:${userId}`;
+
+const readPendingCart = (userId: number): PendingCartItem[] => {
+  try {
+    return JSON.parse(localStorage.getItem(pendingCartKey(userId)) || "[]");
+  } catch (error) {
+    return [];
+  }
+};
 
-export const UserDashboard = ({ user, onLogout }: UserDashboardProps) => {
+export const UserDashboard = () => {
+  const { user } = useContext(AuthContext);
+  const { apiFetch } = useApi();
   const [activeTab, setActiveTab] = useState("catalog");
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [priceChanges, setPriceChanges] = useState<CartPriceChange[]>([]);
+  // Viewers can browse the catalog and their agency's orders but not order
+  const canOrder = hasPermission(user, "orders.create") && user?.agency_role !== "viewer";
 
-  const addToCart = (product: any, quantity: number) => {
-    const existingItem = cartItems.find(item => item.id === product.id);
-    if (existingItem) {
-      setCartItems(cartItems.map(item => 
-        item.id === product.id 
-          ? { ...item, quantity: item.quantity + quantity }
-          : item
-      ));
-    } else {
-      setCartItems([...cartItems, { ...product, quantity }]);
+  // The server revalidates the cart on every response; price changes accumulate until dismissed
+  const applyCart = (data: { items: CartItem[]; price_changes: CartPriceChange[] }) => {
+    setCartItems(data.items || []);
+    if (data.price_changes?.length) {
+      setPriceChanges(prev => [
+        ...prev.filter(change => !data.price_changes.some(next => next.product_id === change.product_id)),
+        ...data.price_changes
+      ]);
+    }
+  };
+
+  // Load the saved cart, first merging anything this device could not send earlier
+  const syncCart = async () => {
+    if (!user) return;
+    try {
+      const pending = readPendingCart(user.id);
+      const response = pending.length
+        ? await apiFetch("/cart/merge", { method: "POST", body: JSON.stringify({ items: pending }) })
+        : await apiFetch("/cart");
+      if (response.ok) {
+        if (pending.length) localStorage.removeItem(pendingCartKey(user.id));
+        applyCart(await response.json());
+      } else {
+        console.error("Failed to fetch cart");
+      }
+    } catch (error) {
+      console.error("Network error fetching cart");
     }
   };
 
+  // Rehydrate at login, and again when the window regains focus so a cart changed in another session stays current
+  useEffect(() => {
+    if (!canOrder) return;
+    syncCart();
+    window.addEventListener("focus", syncCart);
+    return () => window.removeEventListener("focus", syncCart);
+  }, [canOrder, user?.id]);
+
+  const updateCart = async (path: string, init: RequestInit, failureMessage: string) => {
+    try {
+      const response = await apiFetch(path, init);
+      if (response.ok) {
+        applyCart(await response.json());
+        return true;
+      }
+      const error = await response.json();
+      toast.error(error.error || error.errors?.[0]?.msg || failureMessage);
+    } catch (error) {
+      toast.error("Network error");
+    }
+    return false;
+  };
+
+  const addToCart = async (product: { id: number }, quantity: number) => {
+    try {
+      const response = await apiFetch("/cart/items", {
+        method: "POST",
+        body: JSON.stringify({ product_id: product.id, quantity })
+      });
+      if (response.ok) {
+        applyCart(await response.json());
+      } else {
+        const error = await response.json();
+        toast.error(error.error || error.errors?.[0]?.msg || "Failed to add to cart");
+        return false;
+      }
+    } catch (error) {
+      // Keep the item on this device until the server can be reached
+      if (!user) return false;
+      localStorage.setItem(pendingCartKey(user.id), JSON.stringify([
+        ...readPendingCart(user.id),
+        { product_id: product.id, quantity }
+      ]));
+      toast.info("Could not reach the server; the item will be added to your cart when you reconnect");
+      return false;
+    }
+    return true;
+  };
+
   const removeFromCart = (productId: number) => {
-    setCartItems(cartItems.filter(item => item.id !== productId));
+    setPriceChanges(prev => prev.filter(change => change.product_id !== productId));
+    updateCart(`/cart/items/${productId}`, { method: "DELETE" }, "Failed to remove item");
   };
 
   const updateCartQuantity = (productId: number, quantity: number) => {
     if (quantity <= 0) {
       removeFromCart(productId);
     } else {
-      setCartItems(cartItems.map(item => 
-        item.id === productId 
-          ? { ...item, quantity }
-          : item
-      ));
+      updateCart(`/cart/items/${productId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ quantity })
+      }, "Failed to update quantity");
     }
   };
 
   const handleOrderPlaced = () => {
+    // Placing the order took its lines out of the saved cart
+    setPriceChanges([]);
+    syncCart();
     // Switch to order history tab after successful order
     setActiveTab("orders");
   };
@@ -64,47 +145,60 @@ export const UserDashboard = ({ user, onLogout }: UserDashboardProps) => {
   return (
     <div className="min-h-screen bg-gray-50">
       <Header
-        user={user}
-        onLogout={onLogout}
         navLinks={[
           { label: "Catalog", onClick: () => setActiveTab("catalog") },
-          { label: `Cart (${cartItems.length})`, onClick: () => setActiveTab("cart") },
+          ...(canOrder ? [{ label: `Cart (${cartItems.length})`, onClick: () => setActiveTab("cart") }] : []),
           { label: "Order History", onClick: () => setActiveTab("orders") },
+          { label: "Returns", onClick: () => setActiveTab("returns") },
         ]}
       />
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3 mb-8">
+          <TabsList className={`grid w-full ${canOrder ? "grid-cols-4" : "grid-cols-3"} mb-8`}>
             <TabsTrigger value="catalog" className="flex items-center gap-2">
               <Package className="h-4 w-4" />
               Product Catalog
             </TabsTrigger>
-            <TabsTrigger value="cart" className="flex items-center gap-2">
-              <ShoppingCart className="h-4 w-4" />
-              Shopping Cart ({cartItems.length})
-            </TabsTrigger>
+            {canOrder && (
+              <TabsTrigger value="cart" className="flex items-center gap-2">
+                <ShoppingCart className="h-4 w-4" />
+                Shopping Cart ({cartItems.length})
+              </TabsTrigger>
+            )}
             <TabsTrigger value="orders" className="flex items-center gap-2">
               <History className="h-4 w-4" />
               Order History
             </TabsTrigger>
+            <TabsTrigger value="returns" className="flex items-center gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Returns
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="catalog">
-            <ProductCatalog onAddToCart={addToCart} />
+            <ProductCatalog onAddToCart={canOrder ? addToCart : undefined} />
           </TabsContent>
 
-          <TabsContent value="cart">
-            <ShoppingCartComponent 
-              cartItems={cartItems}
-              onRemoveFromCart={removeFromCart}
-              onUpdateQuantity={updateCartQuantity}
-              onOrderPlaced={handleOrderPlaced}
-            />
-          </TabsContent>
+          {canOrder && (
+            <TabsContent value="cart">
+              <ShoppingCartComponent 
+                cartItems={cartItems}
+                priceChanges={priceChanges}
+                onDismissPriceChanges={() => setPriceChanges([])}
+                onRemoveFromCart={removeFromCart}
+                onUpdateQuantity={updateCartQuantity}
+                onOrderPlaced={handleOrderPlaced}
+              />
+            </TabsContent>
+          )}
 
           <TabsContent value="orders">
-            <OrderHistory agencyName={user.name} />
+            <OrderHistory agencyName={user?.agency_name || user?.name || ""} />
+          </TabsContent>
+
+          <TabsContent value="returns">
+            <ReturnRequests canRequest={canOrder} />
           </TabsContent>
         </Tabs>
       </div>
@@ -1,37 +1,183 @@
-import { createContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useState, useEffect, useRef, ReactNode } from "react";
+
+// "admin" and "agency" are built in; other roles are defined in the role editor
+export type UserRole = string;
+
+export type AgencyRole = "requester" | "approver" | "viewer";
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  email: string;
+  role: UserRole;
+  role_label?: string;
+  permissions: string[];
+  name: string;
+  agency_id?: number | null;
+  agency_role?: AgencyRole | null;
+  agency_name?: string;
+  phone?: string;
+  address?: string;
+  created_at?: string;
+}
+
+// Mirrors the backend check; admins receive every permission in their profile
+export const hasPermission = (user: AuthUser | null, permission: string) => !!user?.permissions?.includes(permission);
 
 interface AuthContextType {
   token: string | null;
-  setToken: (token: string | null) => void;
+  user: AuthUser | null;
+  loading: boolean;
+  login: (token: string, refreshToken: string, user: AuthUser) => void;
   logout: () => void;
+  logoutAll: () => Promise<boolean>;
+  refreshSession: (failedToken?: string | null) => Promise<string | null>;
 }
 
 export const AuthContext = createContext<AuthContextType>({
   token: null,
-  setToken: () => {},
-  logout: () => {}
+  user: null,
+  loading: true,
+  login: () => {},
+  logout: () => {},
+  logoutAll: async () => false,
+  refreshSession: async () => null
 });
 
 interface AuthProviderProps {
   children: ReactNode;
 }
 
+// Only the refresh token is persisted; access tokens live in memory ("token" is the pre-refresh key)
+const clearStoredTokens = () => {
+  localStorage.removeItem("token");
+  localStorage.removeItem("refreshToken");
+};
+
 export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [token, setToken] = useState<string | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const tokenRef = useRef<string | null>(null);
+  const refreshPromise = useRef<Promise<string | null> | null>(null);
+
+  const storeToken = (newToken: string | null) => {
+    tokenRef.current = newToken;
+    setToken(newToken);
+  };
+
+  // Trade the stored refresh token for a new pair; concurrent callers share one request
+  const refreshSession = (failedToken?: string | null) => {
+    // Another request already refreshed since this token was issued
+    if (failedToken && tokenRef.current && tokenRef.current !== failedToken) {
+      return Promise.resolve(tokenRef.current);
+    }
+
+    if (!refreshPromise.current) {
+      refreshPromise.current = (async () => {
+        const refreshToken = localStorage.getItem("refreshToken");
+        if (!refreshToken) return null;
 
+        try {
+          const response = await fetch("/api/auth/refresh", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ refresh_token: refreshToken })
+          });
+          if (!response.ok) {
+            if (response.status === 401) clearStoredTokens();
+            return null;
+          }
+          const data = await response.json();
+          localStorage.setItem("refreshToken", data.refresh_token);
+          storeToken(data.token);
+          return data.token as string;
+        } catch (error) {
+          console.error("Failed to refresh session");
+          return null;
+        } finally {
+          refreshPromise.current = null;
+        }
+      })();
+    }
+
+    return refreshPromise.current;
+  };
+
+  // Restore the session on startup: refresh the access token, then load the user it belongs to
   useEffect(() => {
-    const stored = localStorage.getItem("token");
-    if (stored) setToken(stored);
+    const hydrate = async () => {
+      try {
+        const accessToken = await refreshSession();
+        if (!accessToken) return;
+
+        const response = await fetch("/api/auth/profile", {
+          headers: { Authorization: `Bearer ${accessToken}` }
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setUser(data.user);
+        } else if (response.status === 401) {
+          clearStoredTokens();
+          storeToken(null);
+        }
+      } catch (error) {
+        console.error("Failed to restore session");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    hydrate();
   }, []);
 
+  const login = (newToken: string, refreshToken: string, newUser: AuthUser) => {
+    localStorage.setItem("refreshToken", refreshToken);
+    storeToken(newToken);
+    setUser(newUser);
+  };
+
   const logout = () => {
-    localStorage.removeItem("token");
-    setToken(null);
+    const refreshToken = localStorage.getItem("refreshToken");
+    if (refreshToken) {
+      // Revoke the session server-side; the local session ends regardless
+      fetch("/api/auth/logout", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refresh_token: refreshToken })
+      }).catch(() => console.error("Failed to revoke session"));
+    }
+    clearStoredTokens();
+    storeToken(null);
+    setUser(null);
+  };
+
+  // Revoke every session of the current user, including this one
+  const logoutAll = async () => {
+    const send = (accessToken: string | null) => fetch("/api/auth/logout-all", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${accessToken}` }
+    });
+
+    try {
+      let response = await send(tokenRef.current);
+      if (response.status === 401) {
+        const newToken = await refreshSession(tokenRef.current);
+        if (newToken) response = await send(newToken);
+      }
+      if (!response.ok) return false;
+      clearStoredTokens();
+      storeToken(null);
+      setUser(null);
+      return true;
+    } catch (error) {
+      return false;
+    }
   };
 
   return (
-    <AuthContext.Provider value={{ token, setToken, logout }}>
+    <AuthContext.Provider value={{ token, user, loading, login, logout, logoutAll, refreshSession }}>
       {children}
     </AuthContext.Provider>
   );
-}; 
\ No newline at end of file
+};
@@ -5,21 +5,42 @@ import { AuthContext } from "@/context/AuthContext";
 const API_BASE_URL = "/api";
 
 export const useApi = () => {
-  const { token } = useContext(AuthContext);
+  const { token, logout, refreshSession } = useContext(AuthContext);
 
   const apiFetch = async (endpoint: string, options: RequestInit = {}) => {
     const url = `${API_BASE_URL}${endpoint}`;
-    const headers: HeadersInit = {
-      "Content-Type": "application/json",
-      ...options.headers
+
+    const send = (accessToken: string | null) => {
+      const headers: HeadersInit = {
+        "Content-Type": "application/json",
+        ...options.headers
+      };
+
+      if (accessToken) {
+        headers["Authorization"] = `Bearer ${accessToken}`;
+      }
+
+      return fetch(url, { ...options, headers });
     };
-    
-    if (token) {
-      headers["Authorization"] = `Bearer ${token}`;
+
+    const response = await send(token);
+    if (response.status !== 401 || !token) {
+      return response;
+    }
+
+    // The access token expired or was revoked: refresh once and retry
+    const newToken = await refreshSession(token);
+    if (!newToken) {
+      logout();
+      return response;
+    }
+
+    const retried = await send(newToken);
+    if (retried.status === 401) {
+      logout();
     }
-    
-    return fetch(url, { ...options, headers });
+    return retried;
   };
 
   return { apiFetch };
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,10 @@
+import { useSearchParams } from "react-router-dom";
+import { AcceptInvitationForm } from "@/components/auth/AcceptInvitationForm";
+
+const AcceptInvitation = () => {
+  const [searchParams] = useSearchParams();
+
+  return <AcceptInvitationForm token={searchParams.get("token") || ""} />;
+};
+
+export default AcceptInvitation;
@@ -1,54 +1,30 @@
-
-import { useState, useContext } from "react";
+import { useContext } from "react";
 import { LoginForm } from "@/components/auth/LoginForm";
 import { AdminDashboard } from "@/components/admin/AdminDashboard";
 import { UserDashboard } from "@/components/user/UserDashboard";
 import { AuthContext } from "@/context/AuthContext";
-import { RegisterForm } from "../components/auth/RegisterForm";
-
-export type UserRole = "admin" | "agency" | null;
 
 const Index = () => {
-  const [user, setUser] = useState<{ role: UserRole; name: string } | null>(null);
-  const { logout: authLogout } = useContext(AuthContext);
-  const [showRegister, setShowRegister] = useState(false);
-
-  const handleLogin = (role: UserRole, name: string) => {
-    setUser({ role, name });
-  };
-
-  const handleLogout = () => {
-    setUser(null);
-    authLogout(); // Clear token from localStorage and AuthContext
-  };
-
-  if (!user) {
-    return showRegister ? (
-      <div>
-        <RegisterForm onRegistered={() => setShowRegister(false)} />
-        <div className="text-center mt-4">
-          <span className="text-sm text-gray-600">Already have an account? </span>
-          <button
-            type="button"
-            className="text-blue-600 hover:underline text-sm"
-            onClick={() => setShowRegister(false)}
-          >
-            Login here
-          </button>
+  const { user, loading } = useContext(AuthContext);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-2 text-gray-600">Restoring session...</p>
         </div>
       </div>
-    ) : (
-      <LoginForm onLogin={handleLogin} onShowRegister={() => setShowRegister(true)} />
     );
   }
 
+  if (!user) {
+    return <LoginForm />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
-      {user.role === "admin" ? (
-        <AdminDashboard user={user} onLogout={handleLogout} />
-      ) : (
-        <UserDashboard user={user} onLogout={handleLogout} />
-      )}
+      {user.role === "agency" ? <UserDashboard /> : <AdminDashboard />}
     </div>
   );
 };